@@ -0,0 +1,93 @@
+/**
+ * 离线词典构建脚本
+ * 将 ECDICT 的 ecdict.csv 转换为扩展使用的压缩词典
+ *
+ * 用法: node scripts/build-offline-dictionary.mjs <ecdict.csv> [最大词频排名]
+ *
+ * 输出格式（gzip 压缩的 TSV，每行一个词条）:
+ *   word \t phonetic \t translation \t exchange
+ * translation 中的换行以字面量 "\n" 表示，与 ECDICT 保持一致
+ */
+
+import fs from 'fs'
+import path from 'path'
+import readline from 'readline'
+import zlib from 'zlib'
+import { fileURLToPath } from 'url'
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url))
+const OUTPUT_PATH = path.join(__dirname, '../src/shared/api/translation/dictionary/ecdict.tsv.gz')
+
+const [inputPath, maxRankArg] = process.argv.slice(2)
+if (!inputPath) {
+  console.error('用法: node scripts/build-offline-dictionary.mjs <ecdict.csv> [最大词频排名]')
+  process.exit(1)
+}
+const maxRank = maxRankArg ? Number(maxRankArg) : Infinity
+
+/**
+ * 解析一行 CSV（支持双引号转义）
+ */
+function parseCsvLine(line) {
+  const fields = []
+  let current = ''
+  let quoted = false
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        current += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      fields.push(current)
+      current = ''
+    } else {
+      current += char
+    }
+  }
+  fields.push(current)
+
+  return fields
+}
+
+const clean = value => (value || '').replace(/[\t\r\n]/g, ' ').trim()
+
+// ECDICT 中少数释义的字面量换行为 "\r\n"，统一为 "\n"
+const cleanTranslation = value => clean(value).replace(/\\r\\n/g, '\\n')
+
+const input = readline.createInterface({ input: fs.createReadStream(inputPath) })
+const gzip = zlib.createGzip({ level: 9 })
+gzip.pipe(fs.createWriteStream(OUTPUT_PATH))
+
+let header = null
+let count = 0
+
+for await (const line of input) {
+  const fields = parseCsvLine(line)
+  if (!header) {
+    header = Object.fromEntries(fields.map((name, index) => [name, index]))
+    continue
+  }
+
+  const word = clean(fields[header.word])
+  const translation = cleanTranslation(fields[header.translation])
+  if (!word || !translation) continue
+
+  // 按 BNC/当代语料库词频排名过滤（0 表示未收录）
+  const rank = Math.min(...[fields[header.bnc], fields[header.frq]].map(Number).filter(n => n > 0))
+  if (rank > maxRank) continue
+
+  gzip.write([word, clean(fields[header.phonetic]), translation, clean(fields[header.exchange])].join('\t') + '\n')
+  count++
+}
+
+gzip.end()
+console.log(`已写入 ${count} 个词条到 ${OUTPUT_PATH}`)
@@ -0,0 +1,150 @@
+/**
+ * Notion OAuth 令牌服务（本地替身）
+ * 扩展不能保存 client secret，授权码需要交给令牌服务换取访问令牌
+ *
+ * 用法: node scripts/notion-oauth-stand-in.mjs [端口，默认 8787，0 表示随机端口]
+ *
+ * 设置 NOTION_CLIENT_ID 和 NOTION_CLIENT_SECRET 时转发到 Notion 的令牌接口；
+ * 未设置时返回模拟令牌（NOTION_STAND_IN_TOKEN，默认 stand-in-token），配合 /authorize 可在不访问 Notion 的情况下测试登录流程
+ *
+ *   GET  /authorize  模拟授权页面，直接带着授权码跳转回 redirect_uri（?deny=1 模拟拒绝授权）
+ *   POST /token      { grant_type, code, redirect_uri } -> Notion 令牌响应
+ *   POST /revoke     { token } -> 撤销令牌
+ */
+
+import http from 'http'
+
+const NOTION_API = 'https://api.notion.com/v1'
+const port = Number(process.argv[2] ?? process.env.PORT ?? 8787)
+const { NOTION_CLIENT_ID, NOTION_CLIENT_SECRET } = process.env
+const proxy = !!(NOTION_CLIENT_ID && NOTION_CLIENT_SECRET)
+
+/**
+ * 读取 JSON 请求体
+ */
+async function readJson(request) {
+  let body = ''
+  for await (const chunk of request) {
+    body += chunk
+  }
+  return body ? JSON.parse(body) : {}
+}
+
+function sendJson(response, status, data) {
+  response.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*'
+  })
+  response.end(JSON.stringify(data))
+}
+
+/**
+ * 使用 client secret 调用 Notion OAuth 接口
+ */
+async function forwardToNotion(path, body) {
+  const credentials = Buffer.from(`${NOTION_CLIENT_ID}:${NOTION_CLIENT_SECRET}`).toString('base64')
+  const response = await fetch(`${NOTION_API}${path}`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Basic ${credentials}`,
+      'Content-Type': 'application/json',
+      'Notion-Version': '2022-06-28'
+    },
+    body: JSON.stringify(body)
+  })
+  return { status: response.status, data: await response.json().catch(() => ({})) }
+}
+
+function handleAuthorize(url, response) {
+  const redirectUri = url.searchParams.get('redirect_uri')
+  if (!redirectUri) {
+    sendJson(response, 400, { error: 'invalid_request', error_description: '缺少 redirect_uri' })
+    return
+  }
+
+  const redirect = new URL(redirectUri)
+  if (url.searchParams.get('deny')) {
+    redirect.searchParams.set('error', 'access_denied')
+  } else {
+    redirect.searchParams.set('code', `stand-in-code-${Date.now()}`)
+  }
+  redirect.searchParams.set('state', url.searchParams.get('state') || '')
+
+  response.writeHead(302, { Location: redirect.toString() })
+  response.end()
+}
+
+async function handleToken(request, response) {
+  const { code, redirect_uri: redirectUri } = await readJson(request)
+  if (!code) {
+    sendJson(response, 400, { error: 'invalid_grant', error_description: '缺少授权码' })
+    return
+  }
+
+  if (proxy) {
+    const { status, data } = await forwardToNotion('/oauth/token', {
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: redirectUri
+    })
+    sendJson(response, status, data)
+    return
+  }
+
+  sendJson(response, 200, {
+    access_token: process.env.NOTION_STAND_IN_TOKEN || 'stand-in-token',
+    token_type: 'bearer',
+    bot_id: 'stand-in-bot',
+    workspace_id: 'stand-in-workspace',
+    workspace_name: '本地测试工作区',
+    workspace_icon: '🧪',
+    owner: { type: 'user' }
+  })
+}
+
+async function handleRevoke(request, response) {
+  const { token } = await readJson(request)
+  if (!token) {
+    sendJson(response, 400, { error: 'invalid_request', error_description: '缺少 token' })
+    return
+  }
+
+  if (proxy) {
+    const { status, data } = await forwardToNotion('/oauth/revoke', { token })
+    sendJson(response, status, data)
+    return
+  }
+
+  sendJson(response, 200, {})
+}
+
+const server = http.createServer(async (request, response) => {
+  const url = new URL(request.url, `http://localhost:${port}`)
+
+  try {
+    if (request.method === 'OPTIONS') {
+      response.writeHead(204, {
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'POST, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type'
+      })
+      response.end()
+    } else if (request.method === 'GET' && url.pathname === '/authorize') {
+      handleAuthorize(url, response)
+    } else if (request.method === 'POST' && url.pathname === '/token') {
+      await handleToken(request, response)
+    } else if (request.method === 'POST' && url.pathname === '/revoke') {
+      await handleRevoke(request, response)
+    } else {
+      sendJson(response, 404, { error: 'not_found' })
+    }
+  } catch (error) {
+    console.error('请求处理失败:', error)
+    sendJson(response, 500, { error: 'server_error', error_description: String(error) })
+  }
+})
+
+server.listen(port, () => {
+  const { port: actualPort } = server.address()
+  console.log(`Notion OAuth 令牌服务已启动: http://localhost:${actualPort}（${proxy ? '转发到 Notion' : '模拟令牌'}）`)
+})
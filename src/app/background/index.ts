@@ -4,39 +4,101 @@
  */
 
 import { ConfigService } from '@/features/settings-config'
-import { EXTENSION_EVENTS } from '@/shared/config/constants'
+import {
+  IndexedDBTranslationCache,
+  TranslationService,
+  type TranslationCacheMessageMap
+} from '@/features/translation'
+import { NotionSyncService } from '@/features/notion-sync'
+import type {
+  BackgroundMessageMap,
+  BackgroundRequest,
+  ContentMessageMap,
+  TranslateWordResult
+} from '@/features/background-client'
+import { getBestTranslation } from '@/entities/translation'
+import { NotionRecordStatus, type NotionRecord } from '@/entities/notion-record'
+import notificationIconUrl from '@/shared/ui/icons/icon-48.png?url'
+import { onStorageChanged } from '@/shared/lib/storage'
+import { MessageBus, type MessageHandler, type MessageType } from '@/shared/lib/messaging'
+import { EXTENSION_EVENTS, STORAGE_KEYS } from '@/shared/config/constants'
+
+type BackgroundMessages = BackgroundMessageMap & TranslationCacheMessageMap
 
 class BackgroundScript {
   private configService: ConfigService
+  private translationCache: IndexedDBTranslationCache
+  private translationService: TranslationService
+  private notionSyncService: NotionSyncService
+  // 处理来自内容脚本和选项页的请求
+  private messageBus = new MessageBus<BackgroundMessages>()
+  // 发送消息到标签页中的内容脚本
+  private contentBus = new MessageBus<ContentMessageMap>()
+  // 服务初始化（或重新初始化）完成，事件处理前需要等待
+  private ready: Promise<void>
 
   constructor() {
     this.configService = new ConfigService()
-    this.initialize()
+    this.translationCache = new IndexedDBTranslationCache()
+    this.translationService = new TranslationService(this.translationCache)
+    this.notionSyncService = new NotionSyncService()
+    this.notionSyncService.onSync(event => {
+      if (event.type === 'auth_revoked') {
+        this.handleNotionAuthRevoked().catch(error => {
+          console.error('记录Notion授权失效失败:', error)
+        })
+      }
+    })
+
+    // Service Worker 被事件唤醒时只会分发给首轮同步注册的监听，因此必须在初始化之前注册
+    this.setupStorageListener()
+    this.setupInstallListener()
+    this.setupCommandListener()
+    this.setupMessageListener()
+    this.setupContextMenu()
+
+    this.ready = this.initialize()
   }
 
   private async initialize() {
     try {
-      // 初始化配置服务
-      await this.configService.initialize()
-      
-      // 设置扩展安装监听
-      this.setupInstallListener()
-      
-      // 设置命令监听
-      this.setupCommandListener()
-      
-      // 设置消息监听
-      this.setupMessageListener()
-      
-      // 设置右键菜单
-      this.setupContextMenu()
-      
+      // 初始化配置和服务
+      await this.initializeServices()
       console.log('Notions Words 后台脚本初始化完成')
     } catch (error) {
       console.error('后台脚本初始化失败:', error)
     }
   }
 
+  private setupStorageListener() {
+    // 选项页保存配置、修改密钥或解锁密钥库后重新初始化服务（排在进行中的初始化之后）
+    onStorageChanged((changes) => {
+      if (
+        changes[STORAGE_KEYS.USER_CONFIG] ||
+        changes[STORAGE_KEYS.SECRET_VAULT] ||
+        changes[STORAGE_KEYS.SECRET_VAULT_SESSION_KEY]
+      ) {
+        this.ready = this.ready.then(() => this.initialize())
+      }
+    })
+  }
+
+  private async initializeServices() {
+    const config = await this.configService.initialize()
+
+    // 初始化翻译服务
+    await this.translationService.initialize(config)
+
+    // 初始化Notion同步服务（如果已配置），连接失败不影响翻译功能
+    if (config.notionIntegration) {
+      try {
+        await this.notionSyncService.initialize(config.notionIntegration)
+      } catch (error) {
+        console.error('Notion同步服务初始化失败:', error)
+      }
+    }
+  }
+
   private setupInstallListener() {
     chrome.runtime.onInstalled.addListener((details) => {
       if (details.reason === 'install') {
@@ -52,13 +114,12 @@ class BackgroundScript {
   private setupCommandListener() {
     chrome.commands.onCommand.addListener(async (command, tab) => {
       if (!tab?.id) return
+      await this.ready
 
       switch (command) {
         case 'translate-selection':
           // 通知内容脚本执行翻译
-          chrome.tabs.sendMessage(tab.id, {
-            type: EXTENSION_EVENTS.TRANSLATION_REQUESTED
-          })
+          this.notifyTab(tab.id, EXTENSION_EVENTS.TRANSLATION_REQUESTED, {})
           break
           
         case 'toggle-auto-translation':
@@ -68,8 +129,7 @@ class BackgroundScript {
           await this.configService.updateConfig({ triggerMode: newTriggerMode })
           
           // 通知内容脚本
-          chrome.tabs.sendMessage(tab.id, {
-            type: EXTENSION_EVENTS.AUTO_TRANSLATION_TOGGLED,
+          this.notifyTab(tab.id, EXTENSION_EVENTS.AUTO_TRANSLATION_TOGGLED, {
             enabled: newTriggerMode === 'auto'
           })
           break
@@ -78,24 +138,32 @@ class BackgroundScript {
   }
 
   private setupMessageListener() {
-    chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
-      switch (message.type) {
-        case EXTENSION_EVENTS.CONFIG_UPDATED:
-          // 配置更新，通知所有标签页
-          this.broadcastToAllTabs(message)
-          break
-          
-        case EXTENSION_EVENTS.NOTION_SAVE_REQUESTED:
-          // 处理Notion保存请求
-          this.handleNotionSave(message.data)
-            .then(result => sendResponse({ success: true, data: result }))
-            .catch(error => sendResponse({ success: false, error: error.message }))
-          return true // 异步响应
-          
-        default:
-          console.log('未处理的消息类型:', message.type)
-      }
-    })
+    // 处理请求前等待服务初始化完成
+    const on = <T extends MessageType<BackgroundMessages>>(type: T, handler: MessageHandler<BackgroundMessages, T>) =>
+      this.messageBus.on(type, async (data, sender) => {
+        await this.ready
+        return handler(data, sender)
+      })
+
+    // 配置更新，通知所有标签页
+    on(EXTENSION_EVENTS.CONFIG_UPDATED, () =>
+      this.contentBus.broadcast(EXTENSION_EVENTS.CONFIG_UPDATED, {})
+    )
+
+    // 翻译和语言检测
+    on(EXTENSION_EVENTS.TRANSLATE_WORD, data => this.handleTranslateWord(data))
+    on(EXTENSION_EVENTS.DETECT_LANGUAGE, data => this.translationService.detectLanguage(data.text))
+    on(EXTENSION_EVENTS.AVAILABLE_PROVIDERS, () => this.translationService.getAvailableProviders())
+
+    // Notion同步
+    on(EXTENSION_EVENTS.NOTION_SAVE_REQUESTED, data => this.handleNotionSave(data))
+    on(EXTENSION_EVENTS.NOTION_QUEUE_STATUS, () => this.notionSyncService.getQueueStatus())
+
+    // 共享翻译缓存
+    on(EXTENSION_EVENTS.TRANSLATION_CACHE_GET, data => this.translationCache.get(data.key))
+    on(EXTENSION_EVENTS.TRANSLATION_CACHE_SET, data => this.translationCache.set(data.key, data.translation))
+    on(EXTENSION_EVENTS.TRANSLATION_CACHE_STATS, () => this.translationCache.getStats())
+    on(EXTENSION_EVENTS.TRANSLATION_CACHE_CLEAR, data => this.translationCache.clear(data.filter))
   }
 
   private setupContextMenu() {
@@ -110,30 +178,81 @@ class BackgroundScript {
 
     chrome.contextMenus.onClicked.addListener((info, tab) => {
       if (info.menuItemId === 'translate-selection' && tab?.id) {
-        chrome.tabs.sendMessage(tab.id, {
-          type: EXTENSION_EVENTS.TRANSLATION_REQUESTED,
+        this.notifyTab(tab.id, EXTENSION_EVENTS.TRANSLATION_REQUESTED, {
           text: info.selectionText
         })
       }
     })
   }
 
-  private async handleNotionSave(data: any) {
-    // 这里处理Notion保存逻辑
-    // 实际实现中会使用NotionSyncService
-    console.log('处理Notion保存请求:', data)
-    return { success: true }
+  private async handleTranslateWord(
+    data: BackgroundRequest<typeof EXTENSION_EVENTS.TRANSLATE_WORD>
+  ): Promise<TranslateWordResult> {
+    // 指定提供商时（例如重试或切换提供商）只请求该提供商
+    if (!data.provider && this.configService.getConfig().comparisonMode) {
+      const comparison = await this.translationService.compareWord(data.word, data.targetLanguage)
+      return { translation: getBestTranslation(comparison)!, comparison }
+    }
+
+    const translation = await this.translationService.translateWord(
+      data.word,
+      data.targetLanguage,
+      data.provider
+    )
+    return { translation }
   }
 
-  private broadcastToAllTabs(message: any) {
-    chrome.tabs.query({}, (tabs) => {
-      tabs.forEach(tab => {
-        if (tab.id) {
-          chrome.tabs.sendMessage(tab.id, message).catch(() => {
-            // 忽略无法发送消息的标签页
-          })
-        }
-      })
+  private async handleNotionSave(
+    data: BackgroundRequest<typeof EXTENSION_EVENTS.NOTION_SAVE_REQUESTED>
+  ): Promise<NotionRecord> {
+    try {
+      // 加入同步队列并等待同步结束，返回带有状态和页面ID的记录
+      const pending = await this.notionSyncService.syncRecord(data.word, data.translation, data.options)
+      const record = await this.notionSyncService.waitForSync(pending)
+
+      if (record.status === NotionRecordStatus.SYNCED) {
+        this.showNotification('已保存到Notion', `“${data.word.text}” 已同步到Notion数据库`)
+      } else if (record.status === NotionRecordStatus.FAILED) {
+        this.showNotification('保存到Notion失败', record.syncError || `“${data.word.text}” 同步失败`)
+      } else {
+        // 等待重试、授权失效或同步较慢时记录仍在队列中
+        this.showNotification('暂时无法保存到Notion', `“${data.word.text}” 已加入同步队列，稍后自动重试`)
+      }
+
+      return record
+    } catch (error) {
+      this.showNotification('保存到Notion失败', error instanceof Error ? error.message : String(error))
+      throw error
+    }
+  }
+
+  // Notion授权失效时记录到配置中，选项页提示重新连接
+  private async handleNotionAuthRevoked() {
+    const notionIntegration = this.configService.getConfig().notionIntegration
+    if (!notionIntegration || notionIntegration.authRevoked) return
+
+    await this.configService.updateConfig({
+      notionIntegration: { ...notionIntegration, authRevoked: true }
+    })
+    this.showNotification('Notion授权已失效', '集成已被移除或令牌已被撤销，请在设置中重新连接，未同步的单词会保留在队列中')
+  }
+
+  private showNotification(title: string, message: string) {
+    chrome.notifications.create({
+      type: 'basic',
+      iconUrl: chrome.runtime.getURL(notificationIconUrl.replace(/^\//, '')),
+      title,
+      message
+    })
+  }
+
+  private notifyTab<T extends keyof ContentMessageMap>(
+    tabId: number,
+    type: T,
+    data: ContentMessageMap[T]['request']
+  ) {
+    this.contentBus.sendToTab(tabId, type, data).catch(error => {
+      console.warn('通知内容脚本失败:', error)
     })
   }
 }
@@ -4,40 +4,33 @@
  */
 
 import './styles.css'
-import { TextSelectionHandler } from '@/features/text-selection'
-import { TranslationService } from '@/features/translation'
-import { NotionSyncService } from '@/features/notion-sync'
-import { ConfigService } from '@/features/settings-config'
+import { TextSelectionHandler, getSelectionBounds } from '@/features/text-selection'
+import { BackgroundClient, type ContentMessageMap } from '@/features/background-client'
+import { TranslationCardHost } from '@/widgets/TranslationCard'
+import type { Word } from '@/entities/word'
+import type { Translation, TranslationProvider } from '@/entities/translation'
+import { MessageBus } from '@/shared/lib/messaging'
 import { EXTENSION_EVENTS } from '@/shared/config/constants'
 
 class ContentScript {
   private textSelectionHandler: TextSelectionHandler
-  private translationService: TranslationService
-  private notionSyncService: NotionSyncService
-  private configService: ConfigService
+  // 翻译和Notion同步由后台脚本处理，API密钥不会进入页面环境
+  private backgroundClient: BackgroundClient
+  private messageBus = new MessageBus<ContentMessageMap>()
+  private cardHost: TranslationCardHost
+  // 当前翻译请求序号，用于丢弃过期的响应
+  private requestId = 0
 
   constructor() {
     this.textSelectionHandler = new TextSelectionHandler()
-    this.translationService = new TranslationService()
-    this.notionSyncService = new NotionSyncService()
-    this.configService = new ConfigService()
+    this.backgroundClient = new BackgroundClient()
+    this.cardHost = new TranslationCardHost()
 
     this.initialize()
   }
 
   private async initialize() {
     try {
-      // 初始化配置服务
-      const config = await this.configService.initialize()
-      
-      // 初始化翻译服务
-      await this.translationService.initialize(config)
-      
-      // 初始化Notion同步服务（如果已配置）
-      if (config.notionIntegration) {
-        await this.notionSyncService.initialize(config.notionIntegration)
-      }
-
       // 设置文本选择监听
       this.setupTextSelectionHandler()
       
@@ -51,61 +44,40 @@ class ContentScript {
   }
 
   private setupTextSelectionHandler() {
-    this.textSelectionHandler.onSelection(async (selection) => {
-      try {
-        // 将选择转换为单词实体
-        const word = {
-          text: selection.text,
-          language: 'auto',
-          context: selection.context,
-          source: selection.pageInfo,
-          timestamp: Date.now()
-        }
-
-        // 执行翻译
-        const translation = await this.translationService.translateWord(word)
-        
-        // 显示翻译卡片（这里需要实现UI层）
-        console.log('翻译完成:', translation)
-        
-      } catch (error) {
-        console.error('翻译失败:', error)
+    this.textSelectionHandler.onSelection((selection) => {
+      // 将选择转换为单词实体
+      const word: Word = {
+        text: selection.text,
+        language: 'auto',
+        context: selection.context,
+        source: selection.pageInfo,
+        timestamp: Date.now()
       }
+
+      // 显示翻译卡片
+      this.showTranslationCard(word, selection.position)
     })
   }
 
   private setupMessageListener() {
-    chrome.runtime.onMessage.addListener(async (message, sender, sendResponse) => {
-      try {
-        switch (message.type) {
-          case EXTENSION_EVENTS.TRANSLATION_REQUESTED:
-            // 处理来自后台脚本的翻译请求
-            const selectedText = message.text || this.getSelectedText()
-            if (selectedText) {
-              await this.handleTranslationRequest(selectedText)
-            } else {
-              console.warn('没有选中的文本需要翻译')
-            }
-            break
-            
-          case EXTENSION_EVENTS.CONFIG_UPDATED:
-            // 配置更新，重新初始化服务
-            const config = await this.configService.initialize()
-            await this.translationService.initialize(config)
-            console.log('配置已更新')
-            break
-            
-          case EXTENSION_EVENTS.AUTO_TRANSLATION_TOGGLED:
-            console.log('自动翻译模式已切换:', message.enabled)
-            break
-            
-          default:
-            console.log('未处理的消息类型:', message.type)
-        }
-      } catch (error) {
-        console.error('处理消息失败:', error)
+    this.messageBus.on(EXTENSION_EVENTS.TRANSLATION_REQUESTED, data => {
+      // 处理来自后台脚本的翻译请求（不等待翻译完成，避免后台请求超时）
+      const selectedText = data.text || this.getSelectedText()
+      if (selectedText) {
+        this.handleTranslationRequest(selectedText)
+      } else {
+        console.warn('没有选中的文本需要翻译')
       }
     })
+
+    this.messageBus.on(EXTENSION_EVENTS.CONFIG_UPDATED, () => {
+      // 配置由后台脚本统一管理，这里无需重新初始化
+      console.log('配置已更新')
+    })
+
+    this.messageBus.on(EXTENSION_EVENTS.AUTO_TRANSLATION_TOGGLED, data => {
+      console.log('自动翻译模式已切换:', data.enabled)
+    })
   }
 
   private getSelectedText(): string {
@@ -113,45 +85,102 @@ class ContentScript {
     return selection ? selection.toString().trim() : ''
   }
 
-  private async handleTranslationRequest(text: string) {
-    try {
-      console.log('处理翻译请求:', text)
-      
-      // 检查翻译服务是否已初始化
-      if (!this.translationService) {
-        console.error('翻译服务未初始化')
-        return
-      }
+  private handleTranslationRequest(text: string) {
+    console.log('处理翻译请求:', text)
+
+    // 创建单词实体
+    const word: Word = {
+      text: text,
+      language: 'auto',
+      context: this.getTextContext(text),
+      source: {
+        url: window.location.href,
+        title: document.title,
+        domain: window.location.hostname
+      },
+      timestamp: Date.now()
+    }
 
-      // 创建单词实体
-      const word = {
-        text: text,
-        language: 'auto',
-        context: this.getTextContext(text),
-        source: {
-          url: window.location.href,
-          title: document.title,
-          domain: window.location.hostname
-        },
-        timestamp: Date.now()
-      }
+    this.showTranslationCard(word, this.getSelectionPosition())
+  }
 
-      console.log('准备翻译单词:', word)
+  private async showTranslationCard(
+    word: Word,
+    position: { x: number; y: number },
+    provider?: TranslationProvider
+  ) {
+    const requestId = ++this.requestId
+
+    this.cardHost.show({
+      word,
+      position,
+      loading: true,
+      currentProvider: provider,
+      onRetry: (retryProvider) => this.showTranslationCard(word, position, retryProvider),
+      onSaveToNotion: (translation) => this.saveToNotion(word, translation),
+      onPlayAudio: (text) => this.playAudio(text),
+      onCopy: (text) => console.log('已复制翻译:', text),
+      onClose: () => {
+        // 关闭后忽略仍在进行中的请求
+        if (requestId === this.requestId) this.requestId++
+      }
+    })
 
-      // 执行翻译
-      const translation = await this.translationService.translateWord(word)
-      
-      // 显示翻译结果
-      console.log('翻译完成:', translation)
-      
-      // 显示翻译结果到页面（简单的alert显示）
-      alert(`翻译结果:\n原文: ${translation.originalWord.text}\n译文: ${translation.result.text}`)
-      
+    try {
+      // 执行翻译（对比模式下后台会同时请求所有启用的提供商）
+      const [{ translation, comparison }, availableProviders] = await Promise.all([
+        this.backgroundClient.translateWord(word, undefined, provider),
+        this.backgroundClient.getAvailableProviders().catch(() => [])
+      ])
+      if (requestId !== this.requestId) return
+
+      this.cardHost.update({
+        loading: false,
+        translation,
+        comparison,
+        currentProvider: translation.provider,
+        availableProviders,
+        error: undefined
+      })
     } catch (error) {
+      if (requestId !== this.requestId) return
+
       console.error('翻译请求处理失败:', error)
-      const errorMessage = error instanceof Error ? error.message : String(error)
-      alert(`翻译失败: ${errorMessage}`)
+      this.cardHost.update({
+        loading: false,
+        translation: undefined,
+        comparison: undefined,
+        error: error instanceof Error ? error.message : String(error)
+      })
+    }
+  }
+
+  private async saveToNotion(word: Word, translation: Translation) {
+    try {
+      const record = await this.backgroundClient.saveToNotion(word, translation)
+      console.log('保存到Notion完成:', record.status, record.notionPageId)
+    } catch (error) {
+      console.error('保存到Notion失败:', error)
+    }
+  }
+
+  private playAudio(text: string) {
+    if (!('speechSynthesis' in window)) return
+
+    window.speechSynthesis.cancel()
+    window.speechSynthesis.speak(new SpeechSynthesisUtterance(text))
+  }
+
+  private getSelectionPosition(): { x: number; y: number } {
+    // 卡片显示在选区下方
+    const selection = window.getSelection()
+    if (selection && selection.rangeCount > 0) {
+      const bounds = getSelectionBounds(selection.getRangeAt(0))
+      if (bounds.width > 0 || bounds.height > 0) {
+        return { x: bounds.left, y: bounds.bottom }
+      }
     }
+    return { x: window.innerWidth / 2, y: window.innerHeight / 3 }
   }
 
   private getTextContext(text: string): string {
@@ -1,23 +1,49 @@
 import React, { useState, useEffect } from 'react'
 import { createRoot } from 'react-dom/client'
-import { TypedStorage } from '@/shared/lib/storage'
 import { 
   UserConfig, 
   DEFAULT_USER_CONFIG, 
+  type NotionIntegrationConfig,
+  type NotionOAuthConfig,
+  type NotionRoutingRule,
+  type NotionTarget,
   SupportedLanguage, 
   TriggerMode,
+  DuplicateStrategy,
   createUserConfig,
-  isValidUserConfig
+  isValidUserConfig,
+  LIBRETRANSLATE_TEMPLATE,
+  type TranslationApiConfig,
+  type RestTranslationTemplate
 } from '@/entities/user-config'
+import { TranslationProvider } from '@/entities/translation'
+import { TranslationAPIFactory, RestTranslateAPI } from '@/shared/api/translation'
+import { RuntimeTranslationCache, type TranslationCacheStats } from '@/features/translation'
+import { SecureConfigStorage } from '@/features/settings-config'
+import type { SecretVaultStatus } from '@/shared/lib/secret-vault'
+import { NotionClient, type NotionDatabaseSummary } from '@/shared/api/notion/notion-client'
+import { NotionOAuthClient } from '@/shared/api/notion/notion-oauth'
+import { DEFAULT_FIELD_MAPPING, type NotionDatabaseSchema, type NotionFieldKey } from '@/entities/notion-record'
+import {
+  FIELD_RULES,
+  NOTION_FIELD_KEYS,
+  autoMapFields,
+  validateFieldMapping
+} from '@/features/notion-sync'
+import { API_ENDPOINTS, DEFAULT_VALUES, TRANSLATION_PROVIDERS } from '@/shared/config/constants'
 import { 
   extractDatabaseId, 
   isValidDatabaseId, 
   DATABASE_ID_HELP,
-  extractDatabaseIdFromClipboard 
+  extractDatabaseIdFromClipboard,
+  extractPageId
 } from '@/shared/utils/notion-helper'
 
-// 创建类型安全的存储实例
-const userConfigStorage = new TypedStorage<UserConfig>('user-config', DEFAULT_USER_CONFIG)
+// 配置存储（密钥加密保存）
+const userConfigStorage = new SecureConfigStorage()
+
+// 后台脚本中的共享翻译缓存
+const translationCache = new RuntimeTranslationCache()
 
 const OptionsApp: React.FC = () => {
   const [config, setConfig] = useState<UserConfig>(DEFAULT_USER_CONFIG)
@@ -26,25 +52,89 @@ const OptionsApp: React.FC = () => {
   const [message, setMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null)
   const [showDatabaseHelp, setShowDatabaseHelp] = useState(false)
   const [urlInput, setUrlInput] = useState('')
+  const [cacheStats, setCacheStats] = useState<TranslationCacheStats | null>(null)
+  const [cacheFilter, setCacheFilter] = useState<{ provider: string; targetLanguage: string }>({ provider: '', targetLanguage: '' })
+  const [notionSchema, setNotionSchema] = useState<NotionDatabaseSchema | null>(null)
+  const [loadingSchema, setLoadingSchema] = useState(false)
+  const [parentPageInput, setParentPageInput] = useState('')
+  const [creatingDatabase, setCreatingDatabase] = useState(false)
+  const [connectingNotion, setConnectingNotion] = useState(false)
+  const [notionDatabases, setNotionDatabases] = useState<NotionDatabaseSummary[] | null>(null)
+  const [loadingDatabases, setLoadingDatabases] = useState(false)
+  const [vaultStatus, setVaultStatus] = useState<SecretVaultStatus | null>(null)
+  const [passphraseInput, setPassphraseInput] = useState('')
 
   // 加载配置
   useEffect(() => {
-    const loadConfig = async () => {
-      try {
-        const savedConfig = await userConfigStorage.get()
-        if (isValidUserConfig(savedConfig)) {
-          setConfig(savedConfig)
-        }
-      } catch (error) {
-        console.error('加载配置失败:', error)
-        showMessage('error', '加载配置失败')
-      } finally {
-        setLoading(false)
+    loadConfig()
+    loadCacheStats()
+  }, [])
+
+  // 加载配置和密钥库状态
+  const loadConfig = async () => {
+    try {
+      const status = await userConfigStorage.vault.getStatus()
+      setVaultStatus(status)
+      if (status.locked) {
+        showMessage('error', '密钥库已锁定，请在"密钥安全"中输入密码解锁')
+      }
+
+      const savedConfig = await userConfigStorage.get()
+      if (isValidUserConfig(savedConfig)) {
+        setConfig(savedConfig)
       }
+    } catch (error) {
+      console.error('加载配置失败:', error)
+      showMessage('error', '加载配置失败')
+    } finally {
+      setLoading(false)
     }
+  }
 
-    loadConfig()
-  }, [])
+  // 解锁密钥库并重新加载密钥
+  const handleUnlockVault = async () => {
+    try {
+      await userConfigStorage.vault.unlock(passphraseInput)
+      setPassphraseInput('')
+      await loadConfig()
+      showMessage('success', '密钥库已解锁')
+    } catch (error) {
+      showMessage('error', error instanceof Error ? error.message : String(error))
+    }
+  }
+
+  // 设置或修改密码（为空时改回设备密钥）
+  const handleSetPassphrase = async (passphrase: string | null) => {
+    if (passphrase !== null && passphrase.length < 8) {
+      showMessage('error', '密码至少需要 8 个字符')
+      return
+    }
+    if (passphrase === null && !confirm('移除密码后将使用设备密钥加密，确定吗？')) return
+
+    try {
+      await userConfigStorage.vault.setPassphrase(passphrase)
+      setPassphraseInput('')
+      setVaultStatus(await userConfigStorage.vault.getStatus())
+      showMessage('success', passphrase ? '已使用密码加密密钥' : '已改为使用设备密钥加密')
+    } catch (error) {
+      showMessage('error', error instanceof Error ? error.message : String(error))
+    }
+  }
+
+  // 锁定密钥库（页面中的密钥同时清除）
+  const handleLockVault = async () => {
+    await userConfigStorage.vault.lock()
+    await loadConfig()
+  }
+
+  // 加载缓存统计
+  const loadCacheStats = async () => {
+    try {
+      setCacheStats(await translationCache.getStats())
+    } catch (error) {
+      console.error('加载缓存统计失败:', error)
+    }
+  }
 
   // 显示消息
   const showMessage = (type: 'success' | 'error', text: string) => {
@@ -57,20 +147,111 @@ const OptionsApp: React.FC = () => {
     setConfig(prev => ({ ...prev, ...updates, lastUpdated: Date.now() }))
   }
 
+  // 更新Notion集成配置
+  const updateNotionIntegration = (updates: Partial<NotionIntegrationConfig>) => {
+    const current = config.notionIntegration
+    updateConfig({
+      notionIntegration: {
+        ...current,
+        token: current?.token || '',
+        databaseId: current?.databaseId || '',
+        fieldMapping: current?.fieldMapping || DEFAULT_FIELD_MAPPING,
+        autoSync: current?.autoSync || false,
+        syncInterval: current?.syncInterval || 300,
+        ...updates
+      }
+    })
+  }
+
+  // 获取翻译API配置
+  const getTranslationApi = (provider: TranslationProvider): TranslationApiConfig => {
+    return config.translationApis.find(api => api.provider === provider) || { provider, enabled: false }
+  }
+
+  // 更新翻译API配置
+  const updateTranslationApi = (provider: TranslationProvider, updates: Partial<TranslationApiConfig>) => {
+    const exists = config.translationApis.some(api => api.provider === provider)
+    updateConfig({
+      translationApis: exists
+        ? config.translationApis.map(api => api.provider === provider ? { ...api, ...updates } : api)
+        : [...config.translationApis, { provider, enabled: false, ...updates }]
+    })
+  }
+
+  // 更新自建REST服务模板
+  const updateRestTemplate = (updates: Partial<RestTranslationTemplate>) => {
+    const current = getTranslationApi(TranslationProvider.LIBRETRANSLATE).restTemplate || LIBRETRANSLATE_TEMPLATE
+    updateTranslationApi(TranslationProvider.LIBRETRANSLATE, {
+      restTemplate: { ...current, ...updates }
+    })
+  }
+
+  // 为自定义端点申请主机权限（本地或自建服务不在默认的 host_permissions 中）
+  const requestEndpointPermissions = async () => {
+    const origins = config.translationApis
+      .filter(api => api.enabled && api.endpoint)
+      .map(api => {
+        try {
+          return `${new URL(api.endpoint!).origin}/*`
+        } catch {
+          return null
+        }
+      })
+      .filter((origin): origin is string => !!origin)
+
+    if (origins.length === 0) return true
+    return chrome.permissions.request({ origins })
+  }
+
   // 保存配置
   const handleSave = async () => {
+    const restApi = getTranslationApi(TranslationProvider.LIBRETRANSLATE)
+    if (restApi.enabled && !RestTranslateAPI.validateConfig({ endpoint: restApi.endpoint, template: restApi.restTemplate })) {
+      showMessage('error', '自建翻译服务地址未填写或请求体模板不是有效的 JSON')
+      return
+    }
+
+    const invalidTarget = config.notionIntegration?.targets?.find(target => !isValidDatabaseId(target.databaseId))
+    if (invalidTarget) {
+      showMessage('error', `「${invalidTarget.name}」的数据库 ID 无效`)
+      return
+    }
+
     setSaving(true)
     try {
+      const granted = await requestEndpointPermissions()
+      if (!granted) {
+        showMessage('error', '未授予自定义端点的访问权限，相关翻译服务可能无法使用')
+      }
       await userConfigStorage.set(config)
       showMessage('success', '设置保存成功！')
     } catch (error) {
       console.error('保存配置失败:', error)
-      showMessage('error', '保存设置失败，请重试')
+      showMessage('error', vaultStatus?.locked ? '密钥库已锁定，请先输入密码解锁' : '保存设置失败，请重试')
     } finally {
       setSaving(false)
     }
   }
 
+  // 清理翻译缓存（未选择筛选条件时清空全部）
+  const handleClearCache = async () => {
+    const filter = {
+      provider: (cacheFilter.provider || undefined) as TranslationProvider | undefined,
+      targetLanguage: cacheFilter.targetLanguage || undefined
+    }
+    const scope = filter.provider || filter.targetLanguage ? '所选范围内的' : '全部'
+    if (!confirm(`确定要清理${scope}翻译缓存吗？`)) return
+
+    try {
+      await translationCache.clear(filter)
+      await loadCacheStats()
+      showMessage('success', '翻译缓存已清理')
+    } catch (error) {
+      console.error('清理缓存失败:', error)
+      showMessage('error', '清理缓存失败，请重试')
+    }
+  }
+
   // 重置为默认配置
   const handleReset = () => {
     if (confirm('确定要重置为默认设置吗？此操作不可恢复。')) {
@@ -88,16 +269,7 @@ const OptionsApp: React.FC = () => {
 
     const extractedId = extractDatabaseId(urlInput)
     if (extractedId) {
-      updateConfig({
-        notionIntegration: {
-          ...config.notionIntegration,
-          token: config.notionIntegration?.token || '',
-          databaseId: extractedId,
-          fieldMapping: config.notionIntegration?.fieldMapping || {} as any,
-          autoSync: config.notionIntegration?.autoSync || false,
-          syncInterval: config.notionIntegration?.syncInterval || 300
-        }
-      })
+      updateNotionIntegration({ databaseId: extractedId })
       setUrlInput('')
       showMessage('success', `成功提取数据库 ID: ${extractedId}`)
     } else {
@@ -110,16 +282,7 @@ const OptionsApp: React.FC = () => {
     try {
       const extractedId = await extractDatabaseIdFromClipboard()
       if (extractedId) {
-        updateConfig({
-          notionIntegration: {
-            ...config.notionIntegration,
-            token: config.notionIntegration?.token || '',
-            databaseId: extractedId,
-            fieldMapping: config.notionIntegration?.fieldMapping || {} as any,
-            autoSync: config.notionIntegration?.autoSync || false,
-            syncInterval: config.notionIntegration?.syncInterval || 300
-          }
-        })
+        updateNotionIntegration({ databaseId: extractedId })
         showMessage('success', `从剪贴板成功提取数据库 ID: ${extractedId}`)
       } else {
         showMessage('error', '剪贴板中没有找到有效的 Notion 数据库 URL')
@@ -129,6 +292,253 @@ const OptionsApp: React.FC = () => {
     }
   }
 
+  // 更新OAuth配置
+  const updateNotionOAuth = (updates: Partial<NotionOAuthConfig>) => {
+    const current = config.notionIntegration?.oauth
+    updateNotionIntegration({
+      oauth: {
+        ...current,
+        clientId: current?.clientId || '',
+        tokenEndpoint: current?.tokenEndpoint || '',
+        ...updates
+      }
+    })
+  }
+
+  // 立即保存Notion集成配置（OAuth 登录、断开连接和创建数据库后）
+  // 只合并到已保存的配置中，其他设置中未保存的修改不会被一并保存
+  const saveNotionIntegration = async (notionIntegration: NotionIntegrationConfig) => {
+    const savedConfig = await userConfigStorage.get()
+    await userConfigStorage.set({ ...savedConfig, notionIntegration, lastUpdated: Date.now() })
+    setConfig(current => ({ ...current, notionIntegration }))
+  }
+
+  // 列出已共享给集成的数据库
+  const loadNotionDatabases = async (token: string) => {
+    setLoadingDatabases(true)
+    try {
+      const client = new NotionClient({ token, databaseId: '', fieldMapping: DEFAULT_FIELD_MAPPING })
+      setNotionDatabases(await client.searchDatabases())
+    } catch (error) {
+      console.error('列出数据库失败:', error)
+      showMessage('error', `列出数据库失败: ${error instanceof Error ? error.message : error}`)
+    } finally {
+      setLoadingDatabases(false)
+    }
+  }
+
+  // 使用 Notion 账号登录（OAuth 公开集成）
+  const handleNotionLogin = async () => {
+    const oauth = config.notionIntegration?.oauth
+    if (!oauth || !NotionOAuthClient.validateConfig(oauth)) {
+      showMessage('error', '请先填写 Client ID 和有效的令牌服务地址')
+      return
+    }
+
+    setConnectingNotion(true)
+    try {
+      // 令牌服务可能是本地或自建服务，需要先申请主机权限
+      const origins = [oauth.tokenEndpoint, oauth.revokeEndpoint]
+        .filter((endpoint): endpoint is string => !!endpoint)
+        .map(endpoint => `${new URL(endpoint).origin}/*`)
+      if (!(await chrome.permissions.request({ origins }))) {
+        showMessage('error', '未授予令牌服务的访问权限')
+        return
+      }
+
+      const { accessToken, workspace } = await new NotionOAuthClient(oauth).authorize()
+      await saveNotionIntegration({
+        ...config.notionIntegration!,
+        token: accessToken,
+        workspace,
+        authRevoked: false
+      })
+      showMessage('success', `已连接到「${workspace.name}」`)
+      await loadNotionDatabases(accessToken)
+    } catch (error) {
+      console.error('Notion登录失败:', error)
+      showMessage('error', error instanceof Error ? error.message : String(error))
+    } finally {
+      setConnectingNotion(false)
+    }
+  }
+
+  // 断开 OAuth 连接并撤销令牌
+  const handleNotionDisconnect = async () => {
+    const current = config.notionIntegration
+    if (!current?.workspace || !confirm(`确定要断开与「${current.workspace.name}」的连接吗？`)) return
+
+    try {
+      if (current.oauth && current.token) {
+        await new NotionOAuthClient(current.oauth).revoke(current.token)
+      }
+    } catch (error) {
+      // 撤销失败（例如令牌已失效）时仍然清除本地令牌
+      console.error('撤销Notion令牌失败:', error)
+    }
+
+    const { workspace, authRevoked, ...rest } = current
+    await saveNotionIntegration({ ...rest, token: '' })
+    setNotionDatabases(null)
+    showMessage('success', '已断开Notion连接')
+  }
+
+  // 选择集成可以访问的数据库
+  const handleSelectDatabase = (databaseId: string) => {
+    updateNotionIntegration({ databaseId })
+    setNotionSchema(null)
+  }
+
+  // 读取数据库字段并自动匹配字段映射
+  const handleLoadSchema = async () => {
+    const token = config.notionIntegration?.token
+    const databaseId = config.notionIntegration?.databaseId
+    if (!token || !databaseId || !isValidDatabaseId(databaseId)) {
+      showMessage('error', '请先填写 API Token 和有效的数据库 ID')
+      return
+    }
+
+    setLoadingSchema(true)
+    try {
+      const client = new NotionClient({
+        token,
+        databaseId,
+        fieldMapping: config.notionIntegration?.fieldMapping || DEFAULT_FIELD_MAPPING
+      })
+      const schema = await client.getDatabaseSchema()
+      const { mapping, issues } = autoMapFields(schema)
+
+      setNotionSchema(schema)
+      updateNotionIntegration({ fieldMapping: mapping })
+
+      if (issues.length > 0) {
+        showMessage('error', `已自动匹配字段，有 ${issues.length} 个字段需要手动确认`)
+      } else {
+        showMessage('success', `已读取「${schema.title || '数据库'}」并自动匹配全部字段`)
+      }
+    } catch (error) {
+      console.error('读取数据库结构失败:', error)
+      showMessage('error', `读取数据库结构失败: ${error instanceof Error ? error.message : error}`)
+    } finally {
+      setLoadingSchema(false)
+    }
+  }
+
+  // 在指定页面下新建生词本数据库
+  const handleCreateDatabase = async () => {
+    const token = config.notionIntegration?.token
+    if (!token) {
+      showMessage('error', '请先填写 API Token')
+      return
+    }
+
+    const parentPageId = extractPageId(parentPageInput)
+    if (!parentPageId) {
+      showMessage('error', '无法识别父页面的 URL 或 ID')
+      return
+    }
+
+    setCreatingDatabase(true)
+    try {
+      const client = new NotionClient({ token, databaseId: '', fieldMapping: DEFAULT_FIELD_MAPPING })
+      const schema = await client.createDatabase(parentPageId)
+
+      // 数据库已在 Notion 中创建，立即保存，避免未点击保存时重复创建
+      await saveNotionIntegration({
+        ...config.notionIntegration,
+        token,
+        databaseId: schema.id,
+        fieldMapping: DEFAULT_FIELD_MAPPING,
+        autoSync: config.notionIntegration?.autoSync || false,
+        syncInterval: config.notionIntegration?.syncInterval || 300
+      })
+      setNotionSchema(schema)
+      setParentPageInput('')
+      showMessage('success', `已创建数据库「${schema.title}」并保存设置`)
+    } catch (error) {
+      console.error('创建数据库失败:', error)
+      showMessage('error', `创建数据库失败: ${error instanceof Error ? error.message : error}`)
+    } finally {
+      setCreatingDatabase(false)
+    }
+  }
+
+  // 更新单个字段映射
+  const updateFieldMapping = (field: NotionFieldKey, propertyName: string) => {
+    updateNotionIntegration({
+      fieldMapping: {
+        ...(config.notionIntegration?.fieldMapping || DEFAULT_FIELD_MAPPING),
+        [field]: propertyName
+      }
+    })
+  }
+
+  const notionWorkspace = config.notionIntegration?.workspace
+  const notionTargets = config.notionIntegration?.targets || []
+
+  // 更新额外的同步目标
+  const updateNotionTarget = (id: string, updates: Partial<NotionTarget>) => {
+    updateNotionIntegration({
+      targets: notionTargets.map(target => target.id === id ? { ...target, ...updates } : target)
+    })
+  }
+
+  const addNotionTarget = () => {
+    updateNotionIntegration({
+      targets: [
+        ...notionTargets,
+        {
+          id: `target_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+          name: `数据库 ${notionTargets.length + 2}`,
+          token: '',
+          databaseId: '',
+          fieldMapping: DEFAULT_FIELD_MAPPING,
+          rules: [{}]
+        }
+      ]
+    })
+  }
+
+  const removeNotionTarget = (id: string) => {
+    updateNotionIntegration({ targets: notionTargets.filter(target => target.id !== id) })
+  }
+
+  // 更新同步目标的单条路由规则
+  const updateRoutingRule = (target: NotionTarget, index: number, updates: Partial<NotionRoutingRule>) => {
+    updateNotionTarget(target.id, {
+      rules: target.rules.map((rule, i) => i === index ? { ...rule, ...updates } : rule)
+    })
+  }
+
+  // 读取同步目标的数据库字段并自动匹配字段映射
+  const handleLoadTargetSchema = async (target: NotionTarget) => {
+    const token = target.token || config.notionIntegration?.token
+    if (!token || !isValidDatabaseId(target.databaseId)) {
+      showMessage('error', '请先填写 API Token 和有效的数据库 ID')
+      return
+    }
+
+    try {
+      const client = new NotionClient({ token, databaseId: target.databaseId, fieldMapping: target.fieldMapping })
+      const schema = await client.getDatabaseSchema()
+      const { mapping, issues } = autoMapFields(schema)
+
+      updateNotionTarget(target.id, { fieldMapping: mapping })
+
+      if (issues.length > 0) {
+        showMessage('error', `「${target.name}」有 ${issues.length} 个字段未能自动匹配：${issues.map(issue => issue.message).join('；')}`)
+      } else {
+        showMessage('success', `已读取「${schema.title || target.name}」并自动匹配全部字段`)
+      }
+    } catch (error) {
+      console.error('读取数据库结构失败:', error)
+      showMessage('error', `读取数据库结构失败: ${error instanceof Error ? error.message : error}`)
+    }
+  }
+
+  const fieldMapping = config.notionIntegration?.fieldMapping || DEFAULT_FIELD_MAPPING
+  const fieldMappingIssues = notionSchema ? validateFieldMapping(fieldMapping, notionSchema) : []
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50 flex items-center justify-center">
@@ -256,6 +666,141 @@ const OptionsApp: React.FC = () => {
                   ))}
                 </div>
               </div>
+
+              <div>
+                <label className="group flex items-center p-3 rounded-xl hover:bg-gray-50/50 transition-all duration-200 cursor-pointer">
+                  <input 
+                    type="checkbox" 
+                    checked={config.comparisonMode || false}
+                    onChange={(e) => updateConfig({ comparisonMode: e.target.checked })}
+                    className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500 focus:ring-2" 
+                  />
+                  <span className="ml-3 text-sm font-medium text-gray-700 group-hover:text-gray-900 transition-colors">
+                    对比模式（同时显示所有启用的翻译服务结果）
+                  </span>
+                </label>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-4">
+                  翻译服务
+                </label>
+                <div className="space-y-3">
+                  {TranslationAPIFactory.getSupportedProviders().map(provider => {
+                    const apiConfig = getTranslationApi(provider)
+                    const info = TRANSLATION_PROVIDERS[provider]
+                    return (
+                      <div key={provider} className="p-3 rounded-xl border border-gray-200 bg-white/50 space-y-3">
+                        <label className="group flex items-center cursor-pointer">
+                          <input 
+                            type="checkbox" 
+                            checked={apiConfig.enabled}
+                            onChange={(e) => updateTranslationApi(provider, { enabled: e.target.checked })}
+                            className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500 focus:ring-2" 
+                          />
+                          <span className="ml-3 text-sm font-medium text-gray-700 group-hover:text-gray-900 transition-colors">
+                            {info.icon} {info.name}
+                          </span>
+                        </label>
+
+                        {apiConfig.enabled && (
+                          <div className="space-y-2">
+                            {provider === TranslationProvider.LLM && (
+                              <>
+                                <input 
+                                  type="text" 
+                                  placeholder={`接口地址，默认 ${API_ENDPOINTS.OPENAI_API}`}
+                                  value={apiConfig.endpoint || ''}
+                                  onChange={(e) => updateTranslationApi(provider, { endpoint: e.target.value })}
+                                  className="w-full border border-gray-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white/50"
+                                />
+                                <input 
+                                  type="text" 
+                                  placeholder={`模型名称，默认 ${DEFAULT_VALUES.LLM_MODEL}`}
+                                  value={apiConfig.model || ''}
+                                  onChange={(e) => updateTranslationApi(provider, { model: e.target.value })}
+                                  className="w-full border border-gray-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white/50"
+                                />
+                              </>
+                            )}
+                            {provider === TranslationProvider.LIBRETRANSLATE && (
+                              <input 
+                                type="text" 
+                                placeholder="服务地址，例如 http://localhost:5000"
+                                value={apiConfig.endpoint || ''}
+                                onChange={(e) => updateTranslationApi(provider, { endpoint: e.target.value })}
+                                className="w-full border border-gray-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white/50"
+                              />
+                            )}
+                            {provider !== TranslationProvider.OFFLINE && (
+                              <input 
+                                type="password" 
+                                placeholder={provider === TranslationProvider.YOUDAO ? '应用ID (appKey)' : 'API Key'}
+                                value={apiConfig.apiKey || ''}
+                                onChange={(e) => updateTranslationApi(provider, { apiKey: e.target.value })}
+                                className="w-full border border-gray-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white/50"
+                              />
+                            )}
+                            {provider === TranslationProvider.YOUDAO && (
+                              <input 
+                                type="password" 
+                                placeholder="应用密钥 (appSecret)"
+                                value={apiConfig.appSecret || ''}
+                                onChange={(e) => updateTranslationApi(provider, { appSecret: e.target.value })}
+                                className="w-full border border-gray-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white/50"
+                              />
+                            )}
+                            {provider === TranslationProvider.DEEPL && (
+                              <select 
+                                value={apiConfig.formality || 'default'}
+                                onChange={(e) => updateTranslationApi(provider, { formality: e.target.value as TranslationApiConfig['formality'] })}
+                                className="w-full border border-gray-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white/50"
+                              >
+                                <option value="default">默认语气</option>
+                                <option value="prefer_more">偏正式</option>
+                                <option value="prefer_less">偏口语</option>
+                              </select>
+                            )}
+                            {provider === TranslationProvider.LIBRETRANSLATE && (
+                              <details className="text-xs text-gray-600">
+                                <summary className="cursor-pointer select-none">高级：请求/响应模板（默认兼容 LibreTranslate）</summary>
+                                <div className="mt-2 space-y-2">
+                                  {([
+                                    ['translatePath', '翻译接口路径'],
+                                    ['detectPath', '检测接口路径（留空表示不支持）'],
+                                    ['translationPath', '译文字段路径'],
+                                    ['sourceLanguagePath', '源语言字段路径'],
+                                    ['detectedLanguagePath', '检测结果字段路径']
+                                  ] as Array<[keyof RestTranslationTemplate, string]>).map(([field, label]) => (
+                                    <label key={field} className="block">
+                                      <span className="block mb-1">{label}</span>
+                                      <input 
+                                        type="text" 
+                                        value={(apiConfig.restTemplate || LIBRETRANSLATE_TEMPLATE)[field]}
+                                        onChange={(e) => updateRestTemplate({ [field]: e.target.value })}
+                                        className="w-full border border-gray-200 rounded-lg px-3 py-2 text-sm font-mono focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white/50"
+                                      />
+                                    </label>
+                                  ))}
+                                  <label className="block">
+                                    <span className="block mb-1">请求体模板（支持 {'{{text}}'}、{'{{source}}'}、{'{{target}}'}、{'{{apiKey}}'}）</span>
+                                    <textarea 
+                                      rows={4}
+                                      value={(apiConfig.restTemplate || LIBRETRANSLATE_TEMPLATE).requestBody}
+                                      onChange={(e) => updateRestTemplate({ requestBody: e.target.value })}
+                                      className="w-full border border-gray-200 rounded-lg px-3 py-2 text-sm font-mono focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white/50"
+                                    />
+                                  </label>
+                                </div>
+                              </details>
+                            )}
+                          </div>
+                        )}
+                      </div>
+                    )
+                  })}
+                </div>
+              </div>
             </div>
           </div>
           
@@ -271,6 +816,112 @@ const OptionsApp: React.FC = () => {
             </div>
             
             <div className="space-y-6">
+              <div className="p-4 border border-gray-200 rounded-xl bg-gray-50/50 space-y-3">
+                <div className="flex items-center justify-between">
+                  <label className="block text-sm font-medium text-gray-700">
+                    使用 Notion 账号登录
+                  </label>
+                  {notionWorkspace ? (
+                    <button
+                      type="button"
+                      onClick={handleNotionDisconnect}
+                      className="px-3 py-1.5 text-red-600 rounded-lg text-xs hover:bg-red-50 transition-colors"
+                    >
+                      断开连接
+                    </button>
+                  ) : null}
+                </div>
+
+                {config.notionIntegration?.authRevoked && (
+                  <p className="text-xs text-red-600">
+                    Notion 授权已失效（集成被移除或令牌被撤销），请重新登录或填写新的 API Token
+                  </p>
+                )}
+
+                {notionWorkspace && (
+                  <p className="text-sm text-gray-700">
+                    已连接到 {notionWorkspace.icon && !notionWorkspace.icon.startsWith('http') ? `${notionWorkspace.icon} ` : ''}
+                    <span className="font-medium">{notionWorkspace.name}</span>
+                  </p>
+                )}
+
+                <input
+                  type="text"
+                  placeholder="OAuth Client ID"
+                  value={config.notionIntegration?.oauth?.clientId || ''}
+                  onChange={(e) => updateNotionOAuth({ clientId: e.target.value })}
+                  className="w-full border border-gray-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-purple-500 bg-white/50"
+                />
+                <input
+                  type="url"
+                  placeholder="令牌服务地址，例如 http://localhost:8787/token"
+                  value={config.notionIntegration?.oauth?.tokenEndpoint || ''}
+                  onChange={(e) => updateNotionOAuth({ tokenEndpoint: e.target.value })}
+                  className="w-full border border-gray-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-purple-500 bg-white/50"
+                />
+                <div className="grid grid-cols-2 gap-2">
+                  <input
+                    type="url"
+                    placeholder="撤销服务地址（可选）"
+                    value={config.notionIntegration?.oauth?.revokeEndpoint || ''}
+                    onChange={(e) => updateNotionOAuth({ revokeEndpoint: e.target.value || undefined })}
+                    className="border border-gray-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-purple-500 bg-white/50"
+                  />
+                  <input
+                    type="url"
+                    placeholder="授权页面地址（可选）"
+                    value={config.notionIntegration?.oauth?.authorizationEndpoint || ''}
+                    onChange={(e) => updateNotionOAuth({ authorizationEndpoint: e.target.value || undefined })}
+                    className="border border-gray-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-purple-500 bg-white/50"
+                  />
+                </div>
+                <p className="text-xs text-gray-500 break-all">
+                  回调地址：{chrome.identity?.getRedirectURL('notion')}（需要在 Notion 公开集成中登记）
+                </p>
+
+                <div className="flex space-x-2">
+                  <button
+                    type="button"
+                    onClick={handleNotionLogin}
+                    disabled={connectingNotion}
+                    className="px-4 py-2 bg-purple-600 text-white rounded-lg text-sm hover:bg-purple-700 disabled:opacity-50 transition-colors"
+                  >
+                    {connectingNotion ? '连接中...' : notionWorkspace ? '重新登录' : '登录 Notion'}
+                  </button>
+                  {config.notionIntegration?.token && (
+                    <button
+                      type="button"
+                      onClick={() => loadNotionDatabases(config.notionIntegration!.token)}
+                      disabled={loadingDatabases}
+                      className="px-4 py-2 border border-purple-300 text-purple-700 rounded-lg text-sm hover:bg-purple-50 disabled:opacity-50 transition-colors"
+                    >
+                      {loadingDatabases ? '读取中...' : '列出可用数据库'}
+                    </button>
+                  )}
+                </div>
+
+                {notionDatabases && (
+                  notionDatabases.length > 0 ? (
+                    <select
+                      value={notionDatabases.some(database => database.id === config.notionIntegration?.databaseId)
+                        ? config.notionIntegration?.databaseId
+                        : ''}
+                      onChange={(e) => handleSelectDatabase(e.target.value)}
+                      className="w-full border border-gray-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-purple-500 bg-white/50"
+                    >
+                      <option value="" disabled>选择数据库</option>
+                      {notionDatabases.map(database => (
+                        <option key={database.id} value={database.id}>{database.title}</option>
+                      ))}
+                    </select>
+                  ) : (
+                    <p className="text-xs text-gray-500">
+                      没有可用的数据库，请在 Notion 中把数据库共享给集成，或在下方新建生词本数据库
+                    </p>
+                  )
+                )}
+              </div>
+
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-3">
                   API Token
@@ -279,16 +930,7 @@ const OptionsApp: React.FC = () => {
                   type="password" 
                   placeholder="输入 Notion API Token"
                   value={config.notionIntegration?.token || ''}
-                  onChange={(e) => updateConfig({
-                    notionIntegration: {
-                      ...config.notionIntegration,
-                      token: e.target.value,
-                      databaseId: config.notionIntegration?.databaseId || '',
-                      fieldMapping: config.notionIntegration?.fieldMapping || {} as any,
-                      autoSync: config.notionIntegration?.autoSync || false,
-                      syncInterval: config.notionIntegration?.syncInterval || 300
-                    }
-                  })}
+                  onChange={(e) => updateNotionIntegration({ token: e.target.value, workspace: undefined, authRevoked: undefined })}
                   className="w-full border border-gray-200 rounded-xl px-4 py-3 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent transition-all duration-200 bg-white/50 backdrop-blur-sm"
                 />
               </div>
@@ -372,16 +1014,7 @@ const OptionsApp: React.FC = () => {
                     type="text" 
                     placeholder="输入 Notion 数据库 ID 或使用上方工具自动提取"
                     value={config.notionIntegration?.databaseId || ''}
-                    onChange={(e) => updateConfig({
-                      notionIntegration: {
-                        ...config.notionIntegration,
-                        token: config.notionIntegration?.token || '',
-                        databaseId: e.target.value,
-                        fieldMapping: config.notionIntegration?.fieldMapping || {} as any,
-                        autoSync: config.notionIntegration?.autoSync || false,
-                        syncInterval: config.notionIntegration?.syncInterval || 300
-                      }
-                    })}
+                    onChange={(e) => updateNotionIntegration({ databaseId: e.target.value })}
                     className={`w-full border rounded-xl px-4 py-3 focus:outline-none focus:ring-2 focus:border-transparent transition-all duration-200 bg-white/50 backdrop-blur-sm ${
                       config.notionIntegration?.databaseId && !isValidDatabaseId(config.notionIntegration.databaseId)
                         ? 'border-red-300 focus:ring-red-500' 
@@ -419,26 +1052,305 @@ const OptionsApp: React.FC = () => {
                 )}
               </div>
 
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-3">
+                  还没有数据库？
+                </label>
+                <div className="flex space-x-2">
+                  <input
+                    type="text"
+                    placeholder="父页面 URL 或 ID"
+                    value={parentPageInput}
+                    onChange={(e) => setParentPageInput(e.target.value)}
+                    className="flex-1 border border-gray-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-purple-500 bg-white/50"
+                  />
+                  <button
+                    type="button"
+                    onClick={handleCreateDatabase}
+                    disabled={creatingDatabase || !parentPageInput.trim()}
+                    className="px-4 py-2 bg-purple-600 text-white rounded-lg text-sm hover:bg-purple-700 disabled:opacity-50 transition-colors"
+                  >
+                    {creatingDatabase ? '创建中...' : '创建生词本数据库'}
+                  </button>
+                </div>
+                <p className="text-xs text-gray-500 mt-2">
+                  将在该页面下创建包含全部字段的数据库，请先在 Notion 中把该页面共享给你的集成
+                </p>
+              </div>
+
+              <div>
+                <div className="flex items-center justify-between mb-3">
+                  <label className="block text-sm font-medium text-gray-700">
+                    字段映射
+                  </label>
+                  <button
+                    type="button"
+                    onClick={handleLoadSchema}
+                    disabled={loadingSchema}
+                    className="px-3 py-1.5 bg-purple-600 text-white rounded-lg text-xs hover:bg-purple-700 disabled:opacity-50 transition-colors"
+                  >
+                    {loadingSchema ? '读取中...' : '读取数据库字段'}
+                  </button>
+                </div>
+
+                {notionSchema ? (
+                  <div className="space-y-2">
+                    {NOTION_FIELD_KEYS.map(field => {
+                      const issue = fieldMappingIssues.find(item => item.field === field)
+                      return (
+                        <div key={field}>
+                          <div className="flex items-center space-x-3">
+                            <span className="w-20 text-sm text-gray-600">{FIELD_RULES[field].label}</span>
+                            <select
+                              value={fieldMapping[field]}
+                              onChange={(e) => updateFieldMapping(field, e.target.value)}
+                              className={`flex-1 border rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-purple-500 bg-white/50 ${
+                                issue ? 'border-yellow-400' : 'border-gray-200'
+                              }`}
+                            >
+                              <option value="">不映射</option>
+                              {fieldMapping[field] && !notionSchema.properties.some(property => property.name === fieldMapping[field]) && (
+                                <option value={fieldMapping[field]}>{fieldMapping[field]}</option>
+                              )}
+                              {notionSchema.properties.map(property => (
+                                <option key={property.id} value={property.name}>
+                                  {property.name} ({property.type})
+                                </option>
+                              ))}
+                            </select>
+                          </div>
+                          {issue && (
+                            <p className="text-xs text-yellow-700 mt-1 ml-24">{issue.message}</p>
+                          )}
+                        </div>
+                      )
+                    })}
+                  </div>
+                ) : (
+                  <p className="text-xs text-gray-500">
+                    填写 Token 和数据库 ID 后点击"读取数据库字段"，将按名称和类型自动匹配字段
+                  </p>
+                )}
+              </div>
+
+              <div>
+                <div className="flex items-center justify-between mb-3">
+                  <label className="block text-sm font-medium text-gray-700">
+                    其他数据库
+                  </label>
+                  <button
+                    type="button"
+                    onClick={addNotionTarget}
+                    className="px-3 py-1.5 bg-purple-600 text-white rounded-lg text-xs hover:bg-purple-700 transition-colors"
+                  >
+                    添加数据库
+                  </button>
+                </div>
+
+                {notionTargets.length === 0 ? (
+                  <p className="text-xs text-gray-500">
+                    可按源语言、目标语言、来源域名或标签把单词保存到不同的数据库，都不匹配时保存到上方的数据库
+                  </p>
+                ) : (
+                  <div className="space-y-4">
+                    {notionTargets.map(target => (
+                      <div key={target.id} className="p-4 border border-gray-200 rounded-xl bg-white/50 space-y-3">
+                        <div className="flex items-center space-x-2">
+                          <input
+                            type="text"
+                            placeholder="名称"
+                            value={target.name}
+                            onChange={(e) => updateNotionTarget(target.id, { name: e.target.value })}
+                            className="flex-1 border border-gray-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-purple-500 bg-white/50"
+                          />
+                          <button
+                            type="button"
+                            onClick={() => removeNotionTarget(target.id)}
+                            className="px-3 py-2 text-red-600 rounded-lg text-sm hover:bg-red-50 transition-colors"
+                          >
+                            删除
+                          </button>
+                        </div>
+                        <input
+                          type="password"
+                          placeholder="留空则使用上方的 Token"
+                          value={target.token}
+                          onChange={(e) => updateNotionTarget(target.id, { token: e.target.value })}
+                          className="w-full border border-gray-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-purple-500 bg-white/50"
+                        />
+                        <div className="flex space-x-2">
+                          <input
+                            type="text"
+                            placeholder="数据库 URL 或 ID"
+                            value={target.databaseId}
+                            onChange={(e) => updateNotionTarget(target.id, {
+                              databaseId: extractDatabaseId(e.target.value) || e.target.value
+                            })}
+                            className={`flex-1 border rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-purple-500 bg-white/50 ${
+                              target.databaseId && !isValidDatabaseId(target.databaseId) ? 'border-red-300' : 'border-gray-200'
+                            }`}
+                          />
+                          <button
+                            type="button"
+                            onClick={() => handleLoadTargetSchema(target)}
+                            className="px-3 py-2 bg-purple-600 text-white rounded-lg text-xs hover:bg-purple-700 transition-colors"
+                          >
+                            读取字段
+                          </button>
+                        </div>
+
+                        <div className="space-y-2">
+                          <p className="text-xs text-gray-500">满足任一规则时保存到该数据库（同一规则内的条件需全部满足）</p>
+                          {target.rules.map((rule, index) => (
+                            <div key={index} className="flex items-center space-x-2">
+                              <input
+                                type="text"
+                                placeholder="源语言"
+                                value={rule.sourceLanguage || ''}
+                                onChange={(e) => updateRoutingRule(target, index, { sourceLanguage: e.target.value })}
+                                className="w-20 border border-gray-200 rounded-lg px-2 py-1.5 text-xs focus:outline-none focus:ring-2 focus:ring-purple-500 bg-white/50"
+                              />
+                              <input
+                                type="text"
+                                placeholder="目标语言"
+                                value={rule.targetLanguage || ''}
+                                onChange={(e) => updateRoutingRule(target, index, { targetLanguage: e.target.value })}
+                                className="w-20 border border-gray-200 rounded-lg px-2 py-1.5 text-xs focus:outline-none focus:ring-2 focus:ring-purple-500 bg-white/50"
+                              />
+                              <input
+                                type="text"
+                                placeholder="来源域名"
+                                value={rule.sourceDomain || ''}
+                                onChange={(e) => updateRoutingRule(target, index, { sourceDomain: e.target.value })}
+                                className="flex-1 border border-gray-200 rounded-lg px-2 py-1.5 text-xs focus:outline-none focus:ring-2 focus:ring-purple-500 bg-white/50"
+                              />
+                              <input
+                                type="text"
+                                placeholder="标签"
+                                value={rule.tag || ''}
+                                onChange={(e) => updateRoutingRule(target, index, { tag: e.target.value })}
+                                className="w-24 border border-gray-200 rounded-lg px-2 py-1.5 text-xs focus:outline-none focus:ring-2 focus:ring-purple-500 bg-white/50"
+                              />
+                              <button
+                                type="button"
+                                onClick={() => updateNotionTarget(target.id, { rules: target.rules.filter((_, i) => i !== index) })}
+                                className="px-2 py-1.5 text-gray-500 rounded-lg text-xs hover:bg-gray-100 transition-colors"
+                              >
+                                移除
+                              </button>
+                            </div>
+                          ))}
+                          <button
+                            type="button"
+                            onClick={() => updateNotionTarget(target.id, { rules: [...target.rules, {}] })}
+                            className="text-xs text-purple-600 hover:text-purple-700"
+                          >
+                            + 添加规则
+                          </button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
               <div>
                 <label className="group flex items-center p-3 rounded-xl hover:bg-gray-50/50 transition-all duration-200 cursor-pointer">
                   <input 
                     type="checkbox" 
                     checked={config.notionIntegration?.autoSync || false}
-                    onChange={(e) => updateConfig({
-                      notionIntegration: {
-                        ...config.notionIntegration,
-                        token: config.notionIntegration?.token || '',
-                        databaseId: config.notionIntegration?.databaseId || '',
-                        fieldMapping: config.notionIntegration?.fieldMapping || {} as any,
-                        autoSync: e.target.checked,
-                        syncInterval: config.notionIntegration?.syncInterval || 300
-                      }
-                    })}
+                    onChange={(e) => updateNotionIntegration({ autoSync: e.target.checked })}
                     className="w-4 h-4 text-purple-600 border-gray-300 rounded focus:ring-purple-500 focus:ring-2" 
                   />
                   <span className="ml-3 text-sm font-medium text-gray-700 group-hover:text-gray-900 transition-colors">启用自动同步</span>
                 </label>
               </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-3">
+                  单词已存在时
+                </label>
+                <select
+                  value={config.notionIntegration?.duplicateStrategy || DuplicateStrategy.APPEND_EXAMPLE}
+                  onChange={(e) => updateNotionIntegration({ duplicateStrategy: e.target.value as DuplicateStrategy })}
+                  className="w-full border border-gray-200 rounded-xl px-4 py-3 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent transition-all duration-200 bg-white/50 backdrop-blur-sm"
+                >
+                  <option value={DuplicateStrategy.APPEND_EXAMPLE}>追加新的例句和来源</option>
+                  <option value={DuplicateStrategy.UPDATE}>更新标签和熟练度</option>
+                  <option value={DuplicateStrategy.SKIP}>跳过，不做修改</option>
+                </select>
+              </div>
+            </div>
+          </div>
+
+          {/* 密钥安全卡片 */}
+          <div className="bg-white/80 backdrop-blur-sm rounded-2xl shadow-xl p-6 border border-white/20 hover:shadow-2xl transition-all duration-300 lg:col-span-2">
+            <div className="flex items-center space-x-3 mb-6">
+              <div className="w-10 h-10 bg-gradient-to-br from-gray-500 to-gray-700 rounded-xl flex items-center justify-center">
+                <svg className="w-5 h-5 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
+                </svg>
+              </div>
+              <h2 className="text-xl font-semibold text-gray-800">密钥安全</h2>
+            </div>
+
+            <div className="space-y-4">
+              <p className="text-sm text-gray-600">
+                API 密钥和 Notion Token 使用 AES-GCM 加密保存，导出的配置中不包含密钥。
+                {vaultStatus?.keySource === 'passphrase'
+                  ? vaultStatus.locked
+                    ? '当前使用密码加密，已锁定。'
+                    : '当前使用密码加密，已解锁（关闭浏览器后需要重新输入）。'
+                  : '当前使用本机生成的设备密钥加密，可以设置密码进一步保护。'}
+              </p>
+
+              <div className="flex space-x-2">
+                <input
+                  type="password"
+                  placeholder={vaultStatus?.locked ? '输入密码解锁' : '新密码（至少 8 个字符）'}
+                  value={passphraseInput}
+                  onChange={(e) => setPassphraseInput(e.target.value)}
+                  className="flex-1 border border-gray-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-gray-500 bg-white/50"
+                />
+                {vaultStatus?.locked ? (
+                  <button
+                    type="button"
+                    onClick={handleUnlockVault}
+                    disabled={!passphraseInput}
+                    className="px-4 py-2 bg-gray-700 text-white rounded-lg text-sm hover:bg-gray-800 disabled:opacity-50 transition-colors"
+                  >
+                    解锁
+                  </button>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => handleSetPassphrase(passphraseInput)}
+                    disabled={!passphraseInput}
+                    className="px-4 py-2 bg-gray-700 text-white rounded-lg text-sm hover:bg-gray-800 disabled:opacity-50 transition-colors"
+                  >
+                    {vaultStatus?.keySource === 'passphrase' ? '修改密码' : '设置密码'}
+                  </button>
+                )}
+              </div>
+
+              {vaultStatus?.keySource === 'passphrase' && !vaultStatus.locked && (
+                <div className="flex space-x-4">
+                  <button
+                    type="button"
+                    onClick={handleLockVault}
+                    className="text-xs text-gray-600 hover:text-gray-800 underline"
+                  >
+                    立即锁定
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleSetPassphrase(null)}
+                    className="text-xs text-red-600 hover:text-red-800 underline"
+                  >
+                    移除密码
+                  </button>
+                </div>
+              )}
             </div>
           </div>
 
@@ -486,6 +1398,97 @@ const OptionsApp: React.FC = () => {
               </div>
             </div>
           </div>
+          {/* 缓存管理卡片 */}
+          <div className="bg-white/80 backdrop-blur-sm rounded-2xl shadow-xl p-6 border border-white/20 hover:shadow-2xl transition-all duration-300 lg:col-span-2">
+            <div className="flex items-center justify-between mb-6">
+              <div className="flex items-center space-x-3">
+                <div className="w-10 h-10 bg-gradient-to-br from-orange-400 to-red-500 rounded-xl flex items-center justify-center">
+                  <svg className="w-5 h-5 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 7v10c0 2.21 3.582 4 8 4s8-1.79 8-4V7M4 7c0 2.21 3.582 4 8 4s8-1.79 8-4M4 7c0-2.21 3.582-4 8-4s8 1.79 8 4" />
+                  </svg>
+                </div>
+                <h2 className="text-xl font-semibold text-gray-800">缓存管理</h2>
+              </div>
+              <button
+                onClick={loadCacheStats}
+                className="text-sm text-gray-500 hover:text-gray-800 transition-colors"
+              >
+                刷新
+              </button>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+              {[
+                { label: '缓存条目', value: cacheStats ? String(cacheStats.size) : '-' },
+                { label: '命中率', value: cacheStats ? `${(cacheStats.hitRate * 100).toFixed(1)}%` : '-' },
+                { label: '命中次数', value: cacheStats ? String(cacheStats.hits) : '-' },
+                { label: '总请求数', value: cacheStats ? String(cacheStats.totalRequests) : '-' }
+              ].map(item => (
+                <div key={item.label} className="p-4 rounded-xl bg-gray-50/50 border border-gray-100">
+                  <div className="text-xs text-gray-500 mb-1">{item.label}</div>
+                  <div className="text-lg font-semibold text-gray-800">{item.value}</div>
+                </div>
+              ))}
+            </div>
+
+            {cacheStats && cacheStats.size > 0 && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6 text-sm text-gray-600">
+                <div>
+                  <div className="font-medium text-gray-700 mb-2">按翻译服务</div>
+                  {Object.entries(cacheStats.byProvider).map(([provider, count]) => (
+                    <div key={provider} className="flex justify-between py-1">
+                      <span>{TRANSLATION_PROVIDERS[provider as keyof typeof TRANSLATION_PROVIDERS]?.name || provider}</span>
+                      <span>{count}</span>
+                    </div>
+                  ))}
+                </div>
+                <div>
+                  <div className="font-medium text-gray-700 mb-2">按目标语言</div>
+                  {Object.entries(cacheStats.byLanguage).map(([language, count]) => (
+                    <div key={language} className="flex justify-between py-1">
+                      <span>{language}</span>
+                      <span>{count}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="flex flex-col md:flex-row md:items-end gap-4">
+              <div className="flex-1">
+                <label className="block text-sm font-medium text-gray-700 mb-2">翻译服务</label>
+                <select
+                  value={cacheFilter.provider}
+                  onChange={(e) => setCacheFilter(prev => ({ ...prev, provider: e.target.value }))}
+                  className="w-full border border-gray-200 rounded-xl px-4 py-3 focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-transparent transition-all duration-200 bg-white/50 backdrop-blur-sm"
+                >
+                  <option value="">全部</option>
+                  {Object.entries(TRANSLATION_PROVIDERS).map(([provider, info]) => (
+                    <option key={provider} value={provider}>{info.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex-1">
+                <label className="block text-sm font-medium text-gray-700 mb-2">目标语言</label>
+                <select
+                  value={cacheFilter.targetLanguage}
+                  onChange={(e) => setCacheFilter(prev => ({ ...prev, targetLanguage: e.target.value }))}
+                  className="w-full border border-gray-200 rounded-xl px-4 py-3 focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-transparent transition-all duration-200 bg-white/50 backdrop-blur-sm"
+                >
+                  <option value="">全部</option>
+                  {Object.keys(cacheStats?.byLanguage || {}).map(language => (
+                    <option key={language} value={language}>{language}</option>
+                  ))}
+                </select>
+              </div>
+              <button
+                onClick={handleClearCache}
+                className="px-6 py-3 border border-red-200 text-red-600 rounded-xl hover:bg-red-50 transition-all duration-200 font-medium"
+              >
+                清理缓存
+              </button>
+            </div>
+          </div>
         </div>
         
         {/* 底部操作区域 */}
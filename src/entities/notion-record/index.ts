@@ -1 +1,2 @@
-export * from './model' 
\ No newline at end of file
+export * from './model'
+export * from './rich-text'
\ No newline at end of file
@@ -1,5 +1,6 @@
 import type { Word } from '../word/model'
 import type { Translation } from '../translation/model'
+import { MAX_RICH_TEXT_ITEMS, toRichText, type RichTextOptions } from './rich-text'
 
 /**
  * Notion记录状态
@@ -25,6 +26,8 @@ export interface NotionRecord {
   status: NotionRecordStatus
   /** Notion页面ID（同步成功后设置） */
   notionPageId?: string
+  /** 同步目标ID（未设置时为主数据库） */
+  targetId?: string
   /** 用户标签 */
   tags?: string[]
   /** 用户备注 */
@@ -33,6 +36,8 @@ export interface NotionRecord {
   proficiency?: number
   /** 创建时间 */
   createdAt: number
+  /** 本地最后修改时间（晚于最后同步时间表示有未推送的修改） */
+  updatedAt?: number
   /** 最后同步时间 */
   lastSyncAt?: number
   /** 同步错误信息 */
@@ -40,7 +45,7 @@ export interface NotionRecord {
 }
 
 /**
- * Notion数据库字段映射
+ * Notion数据库字段映射（字段名为空表示不写入该字段）
  */
 export interface NotionDatabaseFields {
   /** 单词字段名 */
@@ -61,6 +66,53 @@ export interface NotionDatabaseFields {
   createdAtField: string
 }
 
+export type NotionFieldKey = keyof NotionDatabaseFields
+
+/**
+ * 默认字段映射（与 README 中推荐的数据库字段一致）
+ */
+export const DEFAULT_FIELD_MAPPING: NotionDatabaseFields = {
+  wordField: '单词',
+  translationField: '翻译',
+  contextField: '例句',
+  sourceUrlField: '来源链接',
+  tagsField: '标签',
+  notesField: '备注',
+  proficiencyField: '熟练度',
+  createdAtField: '创建时间'
+}
+
+/**
+ * 熟练度等级（新建数据库时作为熟练度字段的选项，0 表示未评估）
+ */
+export const PROFICIENCY_LEVELS = [0, 1, 2, 3, 4, 5]
+
+/**
+ * Notion数据库属性（字段）
+ */
+export interface NotionDatabaseProperty {
+  /** 属性ID */
+  id: string
+  /** 属性名称 */
+  name: string
+  /** 属性类型，例如 title、rich_text、select */
+  type: string
+  /** select / multi_select / status 的可选值 */
+  options?: string[]
+}
+
+/**
+ * Notion数据库结构
+ */
+export interface NotionDatabaseSchema {
+  /** 数据库ID */
+  id: string
+  /** 数据库标题 */
+  title: string
+  /** 数据库属性 */
+  properties: NotionDatabaseProperty[]
+}
+
 /**
  * 创建Notion记录
  */
@@ -130,39 +182,308 @@ export function isValidNotionRecord(record: unknown): record is NotionRecord {
   )
 }
 
+/**
+ * 写入前的字段值
+ */
+export type NotionFieldValue = string | string[] | number | boolean | null | undefined
+
+/**
+ * 支持写入的 Notion 属性类型
+ */
+export const WRITABLE_PROPERTY_TYPES = [
+  'title',
+  'rich_text',
+  'select',
+  'multi_select',
+  'status',
+  'checkbox',
+  'url',
+  'date',
+  'number'
+]
+
+/**
+ * 提取记录中各字段的值
+ */
+export function getRecordFieldValues(record: NotionRecord): Record<NotionFieldKey, NotionFieldValue> {
+  const { word, translation } = record
+
+  return {
+    wordField: word.text,
+    translationField: translation.result.text,
+    contextField: word.context,
+    sourceUrlField: word.source.url,
+    tagsField: record.tags || [],
+    notesField: record.notes,
+    proficiencyField: record.proficiency ?? 0,
+    createdAtField: new Date(record.createdAt).toISOString()
+  }
+}
+
+/**
+ * 按属性的实际类型转换字段值，不支持的类型返回 undefined
+ */
+export function toNotionPropertyValue(
+  property: NotionDatabaseProperty,
+  value: NotionFieldValue,
+  textOptions?: RichTextOptions
+): Record<string, any> | undefined {
+  switch (property.type) {
+    case 'title':
+    case 'rich_text':
+      return { [property.type]: toRichText(toText(value), textOptions) }
+    case 'select': {
+      const [name] = toOptionNames(value)
+      return { select: name ? { name } : null }
+    }
+    case 'status': {
+      // 状态选项无法通过 API 创建，只写入数据库中已有的选项
+      const [name] = toOptionNames(value)
+      return name && property.options?.includes(name) ? { status: { name } } : undefined
+    }
+    case 'multi_select':
+      return { multi_select: toOptionNames(value).map(name => ({ name })) }
+    case 'checkbox':
+      return { checkbox: Array.isArray(value) ? value.length > 0 : !!value }
+    case 'url':
+      return { url: toText(value) || null }
+    case 'number': {
+      const number = typeof value === 'number' ? value : parseFloat(toText(value))
+      return { number: Number.isFinite(number) ? number : null }
+    }
+    case 'date': {
+      const text = toText(value)
+      const date = text ? new Date(text) : null
+      return { date: date && !isNaN(date.getTime()) ? { start: date.toISOString() } : null }
+    }
+    default:
+      return undefined
+  }
+}
+
+/**
+ * 按数据库结构构建页面属性，跳过未映射、不存在或类型不支持的字段
+ * highlights 为文本字段中需要加粗的词
+ */
+export function toNotionProperties(
+  values: Partial<Record<NotionFieldKey, NotionFieldValue>>,
+  fieldMapping: Partial<NotionDatabaseFields>,
+  schema: NotionDatabaseSchema,
+  highlights: Partial<Record<NotionFieldKey, string>> = {}
+): Record<string, any> {
+  const properties: Record<string, any> = {}
+
+  ;(Object.keys(values) as NotionFieldKey[]).forEach(field => {
+    const name = fieldMapping[field]
+    const property = name ? schema.properties.find(item => item.name === name) : undefined
+    if (!property) return
+
+    const propertyValue = toNotionPropertyValue(property, values[field], { highlight: highlights[field] })
+    if (propertyValue) {
+      properties[property.name] = propertyValue
+    }
+  })
+
+  return properties
+}
+
 /**
  * 转换为Notion页面属性
  */
 export function toNotionPageProperties(
   record: NotionRecord,
-  fieldMapping: NotionDatabaseFields
+  fieldMapping: Partial<NotionDatabaseFields>,
+  schema: NotionDatabaseSchema
 ): Record<string, any> {
-  const { word, translation } = record
-  
+  return toNotionProperties(getRecordFieldValues(record), fieldMapping, schema, {
+    contextField: record.word.text
+  })
+}
+
+/**
+ * 读取Notion页面属性的值（toNotionPropertyValue 的逆操作）
+ */
+export function fromNotionPropertyValue(value: Record<string, any> | undefined): NotionFieldValue {
+  if (!value) return undefined
+
+  switch (value.type) {
+    case 'title':
+    case 'rich_text':
+      return (value[value.type] as Array<{ plain_text: string }>).map(item => item.plain_text).join('')
+    case 'select':
+    case 'status':
+      return value[value.type]?.name ?? null
+    case 'multi_select':
+      return (value.multi_select as Array<{ name: string }>).map(option => option.name)
+    case 'checkbox':
+      return value.checkbox
+    case 'url':
+    case 'number':
+      return value[value.type]
+    case 'date':
+      return value.date?.start ?? null
+    default:
+      return undefined
+  }
+}
+
+/**
+ * 从Notion数据库读取的单词页面
+ */
+export interface NotionPageRecord {
+  /** Notion页面ID */
+  pageId: string
+  /** 页面链接 */
+  url: string
+  word: string
+  translation?: string
+  context?: string
+  sourceUrl?: string
+  tags: string[]
+  notes?: string
+  proficiency?: number
+  /** 创建时间（未映射创建时间字段时使用页面的创建时间） */
+  createdAt: number
+  /** 最后编辑时间 */
+  lastEditedAt: number
+}
+
+/**
+ * Notion页面对象中解析记录需要的部分
+ */
+export interface NotionPageObject {
+  id: string
+  url: string
+  created_time: string
+  last_edited_time: string
+  properties: Record<string, any>
+}
+
+/**
+ * 按字段映射解析Notion页面
+ */
+export function fromNotionPage(
+  page: NotionPageObject,
+  fieldMapping: Partial<NotionDatabaseFields>
+): NotionPageRecord {
+  const read = (field: NotionFieldKey): NotionFieldValue => {
+    const name = fieldMapping[field]
+    return name ? fromNotionPropertyValue(page.properties[name]) : undefined
+  }
+  const text = (field: NotionFieldKey): string | undefined => toText(read(field)) || undefined
+
+  const tags = read('tagsField')
+  const proficiency = parseFloat(toText(read('proficiencyField')))
+  const createdAt = Date.parse(toText(read('createdAtField')))
+
   return {
-    [fieldMapping.wordField]: {
-      title: [{ text: { content: word.text } }]
-    },
-    [fieldMapping.translationField]: {
-      rich_text: [{ text: { content: translation.result.text } }]
-    },
-    [fieldMapping.contextField]: {
-      rich_text: word.context ? [{ text: { content: word.context } }] : []
-    },
-    [fieldMapping.sourceUrlField]: {
-      url: word.source.url
-    },
-    [fieldMapping.tagsField]: {
-      multi_select: record.tags?.map(tag => ({ name: tag })) || []
-    },
-    [fieldMapping.notesField]: {
-      rich_text: record.notes ? [{ text: { content: record.notes } }] : []
-    },
-    [fieldMapping.proficiencyField]: {
-      number: record.proficiency || 0
-    },
-    [fieldMapping.createdAtField]: {
-      date: { start: new Date(record.createdAt).toISOString() }
-    }
+    pageId: page.id,
+    url: page.url,
+    word: text('wordField') || '',
+    translation: text('translationField'),
+    context: text('contextField'),
+    sourceUrl: text('sourceUrlField'),
+    tags: Array.isArray(tags) ? tags : toText(tags).split(',').map(tag => tag.trim()).filter(Boolean),
+    notes: text('notesField'),
+    proficiency: Number.isFinite(proficiency) ? proficiency : undefined,
+    createdAt: Number.isFinite(createdAt) ? createdAt : Date.parse(page.created_time),
+    lastEditedAt: Date.parse(page.last_edited_time)
+  }
+}
+
+/**
+ * 单个页面最多写入的块数（Notion 单次请求的上限）
+ */
+const MAX_PAGE_BLOCKS = 100
+
+/**
+ * 生成页面正文：单词和音标、按词性分组的释义、例句、原文上下文和发音
+ */
+export function toNotionPageBlocks(record: NotionRecord): Record<string, any>[] {
+  const { word, translation } = record
+  const { phonetic, definitions, examples, audioUrl } = translation.result
+  const blocks: Record<string, any>[] = []
+
+  blocks.push(block('heading_2', [
+    ...toRichText(word.text),
+    ...(phonetic ? toRichText(` /${phonetic.replace(/^\/|\/$/g, '')}/`, { annotations: { color: 'gray' } }) : [])
+  ]))
+  blocks.push(block('paragraph', toRichText(translation.result.text)))
+
+  const audioFileUrl = toAudioFileUrl(audioUrl)
+  if (audioFileUrl) {
+    blocks.push({ type: 'audio', audio: { type: 'external', external: { url: audioFileUrl } } })
+  }
+
+  const groups = new Map<string, string[]>()
+  definitions?.forEach(({ partOfSpeech, meanings }) => {
+    groups.set(partOfSpeech, [...(groups.get(partOfSpeech) || []), ...meanings])
+  })
+  if (groups.size > 0) {
+    blocks.push(block('heading_3', toRichText('释义')))
+    groups.forEach((meanings, partOfSpeech) => {
+      blocks.push(block('bulleted_list_item', [
+        ...(partOfSpeech ? toRichText(`${partOfSpeech} `, { annotations: { bold: true } }) : []),
+        ...toRichText(meanings.join('；'))
+      ]))
+    })
+  }
+
+  if (examples && examples.length > 0) {
+    blocks.push(block('heading_3', toRichText('例句')))
+    examples.forEach(example => blocks.push(block('quote', toRichText(example, { highlight: word.text }))))
+  }
+
+  if (word.context) {
+    const sourceLabel = word.source.title || word.source.domain || word.source.url
+    blocks.push(block('heading_3', toRichText('原文')))
+    blocks.push(block('quote', [
+      ...toRichText(word.context, { highlight: word.text }),
+      ...(isHttpUrl(word.source.url)
+        ? [
+            ...toRichText('\n—— '),
+            ...toRichText(sourceLabel, { annotations: { color: 'gray' }, link: word.source.url })
+          ]
+        : [])
+    ]))
+  }
+
+  return blocks.slice(0, MAX_PAGE_BLOCKS)
+}
+
+function block(type: string, richTextItems: Record<string, any>[]): Record<string, any> {
+  // 拼接多段文本后仍需遵守 rich_text 数组的长度上限
+  return { type, [type]: { rich_text: richTextItems.slice(0, MAX_RICH_TEXT_ITEMS) } }
+}
+
+function isHttpUrl(url: string | undefined): url is string {
+  return !!url && /^https?:\/\//i.test(url)
+}
+
+/**
+ * 只保存音频文件链接，并去掉查询参数和片段
+ * 发音接口地址（例如有道 ttsapi）的查询参数中带有应用ID和签名，不能写入 Notion
+ */
+function toAudioFileUrl(url: string | undefined): string | undefined {
+  if (!isHttpUrl(url)) return undefined
+
+  try {
+    const { origin, pathname } = new URL(url)
+    return /\.(mp3|wav|ogg|oga|m4a)$/i.test(pathname) ? origin + pathname : undefined
+  } catch {
+    return undefined
   }
-} 
\ No newline at end of file
+}
+
+function toText(value: NotionFieldValue): string {
+  if (value === null || value === undefined) return ''
+  return Array.isArray(value) ? value.join(', ') : String(value)
+}
+
+/**
+ * 转换为选项名称（Notion 选项名称不能包含逗号）
+ */
+function toOptionNames(value: NotionFieldValue): string[] {
+  const names = Array.isArray(value) ? value : [toText(value)]
+  return names.map(name => name.replace(/,/g, ' ').trim()).filter(Boolean)
+}
@@ -0,0 +1,151 @@
+/**
+ * Notion 单个文本对象的最大长度
+ */
+export const MAX_RICH_TEXT_LENGTH = 2000
+
+/**
+ * Notion 单个 rich_text 数组的最大长度
+ */
+export const MAX_RICH_TEXT_ITEMS = 100
+
+/**
+ * 超过数组上限时，代替被截掉内容的省略号
+ */
+export const TRUNCATION_MARK = '…'
+
+/**
+ * Notion 文本对象
+ */
+export interface NotionRichText {
+  type: 'text'
+  text: {
+    content: string
+    link?: { url: string }
+  }
+  annotations?: {
+    bold?: boolean
+    italic?: boolean
+    code?: boolean
+    color?: string
+  }
+}
+
+/**
+ * 文本编码选项
+ */
+export interface RichTextOptions {
+  /** 加粗显示的词（不区分大小写，只匹配完整的词） */
+  highlight?: string
+  /** 整段文本的样式 */
+  annotations?: NotionRichText['annotations']
+  /** 整段文本的链接 */
+  link?: string
+}
+
+/**
+ * 编码为 Notion 文本对象数组
+ * 移除控制字符、按 2000 字符分段（不拆开代理对），并加粗选中的单词
+ * 超过 100 个文本对象时截断，并以省略号结尾
+ */
+export function toRichText(text: string, options: RichTextOptions = {}): NotionRichText[] {
+  const content = sanitizeText(text)
+  if (!content) return []
+
+  const items: NotionRichText[] = []
+  splitHighlight(content, options.highlight).forEach(({ text: segment, highlighted }) => {
+    const annotations = highlighted
+      ? { ...options.annotations, bold: true }
+      : options.annotations
+
+    chunkText(segment, MAX_RICH_TEXT_LENGTH).forEach(chunk => {
+      items.push({
+        type: 'text',
+        text: { content: chunk, ...(options.link ? { link: { url: options.link } } : {}) },
+        ...(annotations ? { annotations } : {})
+      })
+    })
+  })
+
+  if (items.length <= MAX_RICH_TEXT_ITEMS) return items
+
+  return [
+    ...items.slice(0, MAX_RICH_TEXT_ITEMS - 1),
+    {
+      type: 'text',
+      text: { content: TRUNCATION_MARK },
+      ...(options.annotations ? { annotations: options.annotations } : {})
+    }
+  ]
+}
+
+/**
+ * 移除 Notion 不支持的控制字符（保留换行和制表符）
+ */
+export function sanitizeText(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F]/g, '')
+}
+
+/**
+ * 按最大长度分段，不拆开 UTF-16 代理对
+ */
+export function chunkText(text: string, maxLength: number): string[] {
+  const chunks: string[] = []
+  let start = 0
+
+  while (start < text.length) {
+    let end = Math.min(start + maxLength, text.length)
+    if (end < text.length && isHighSurrogate(text.charCodeAt(end - 1))) {
+      end--
+    }
+    chunks.push(text.slice(start, end))
+    start = end
+  }
+
+  return chunks
+}
+
+/**
+ * 按高亮词拆分文本
+ * 词的首尾是字母或数字时要求前后不紧邻其他字母或数字，避免 art 匹配 start 中的一部分；
+ * 中文、日文不以空格分词，不做此限制
+ */
+function splitHighlight(text: string, highlight?: string): Array<{ text: string; highlighted: boolean }> {
+  const word = highlight?.trim()
+  if (!word) return [{ text, highlighted: false }]
+
+  const escaped = word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  const chars = Array.from(word)
+  const before = needsWordBoundary(chars[0]) ? `(?<!${WORD_CHAR.source})` : ''
+  const after = needsWordBoundary(chars[chars.length - 1]) ? `(?!${WORD_CHAR.source})` : ''
+  const pattern = new RegExp(`${before}${escaped}${after}`, 'giu')
+  const segments: Array<{ text: string; highlighted: boolean }> = []
+  let lastIndex = 0
+
+  for (const match of text.matchAll(pattern)) {
+    const index = match.index ?? 0
+    if (index > lastIndex) {
+      segments.push({ text: text.slice(lastIndex, index), highlighted: false })
+    }
+    segments.push({ text: match[0], highlighted: true })
+    lastIndex = index + match[0].length
+  }
+
+  if (lastIndex < text.length) {
+    segments.push({ text: text.slice(lastIndex), highlighted: false })
+  }
+
+  return segments
+}
+
+const WORD_CHAR = /[\p{L}\p{N}_]/u
+const UNSPACED_CHAR = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]/u
+
+function needsWordBoundary(char = ''): boolean {
+  return WORD_CHAR.test(char) && !UNSPACED_CHAR.test(char)
+}
+
+function isHighSurrogate(code: number): boolean {
+  return code >= 0xd800 && code <= 0xdbff
+}
@@ -6,7 +6,10 @@ import type { Word } from '../word/model'
 export enum TranslationProvider {
   GOOGLE = 'google',
   DEEPL = 'deepl',
-  YOUDAO = 'youdao'
+  YOUDAO = 'youdao',
+  LLM = 'llm',
+  OFFLINE = 'offline',
+  LIBRETRANSLATE = 'libretranslate'
 }
 
 /**
@@ -30,6 +33,8 @@ export interface Translation {
     }>
     /** 例句 */
     examples?: string[]
+    /** 发音音频地址 */
+    audioUrl?: string
   }
   /** 翻译提供商 */
   provider: TranslationProvider
@@ -41,6 +46,34 @@ export interface Translation {
   id: string
 }
 
+/**
+ * 多提供商对比中的单个结果
+ */
+export interface TranslationComparisonItem {
+  /** 翻译提供商 */
+  provider: TranslationProvider
+  /** 翻译结果（失败时为空） */
+  translation?: Translation
+  /** 错误信息 */
+  error?: string
+  /** 耗时（毫秒） */
+  duration: number
+}
+
+/**
+ * 多提供商对比翻译结果
+ */
+export interface TranslationComparison {
+  /** 原始单词 */
+  originalWord: Word
+  /** 目标语言 */
+  targetLanguage: string
+  /** 各提供商的结果 */
+  results: TranslationComparisonItem[]
+  /** 对比时间 */
+  timestamp: number
+}
+
 /**
  * 创建翻译实体
  */
@@ -99,4 +132,24 @@ export function formatTranslationText(translation: Translation): string {
   }
   
   return formatted
-} 
\ No newline at end of file
+} 
+
+/**
+ * 获取对比结果中成功的翻译
+ */
+export function getSuccessfulTranslations(comparison: TranslationComparison): Translation[] {
+  return comparison.results
+    .map(item => item.translation)
+    .filter((translation): translation is Translation => !!translation)
+}
+
+/**
+ * 获取对比结果中置信度最高的翻译
+ */
+export function getBestTranslation(comparison: TranslationComparison): Translation | undefined {
+  return getSuccessfulTranslations(comparison)
+    .reduce<Translation | undefined>((best, translation) => {
+      if (!best) return translation
+      return (translation.confidence ?? 0) > (best.confidence ?? 0) ? translation : best
+    }, undefined)
+}
@@ -1 +1,2 @@
-export * from './model' 
\ No newline at end of file
+export * from './model'
+export * from './secrets'
\ No newline at end of file
@@ -24,6 +24,51 @@ export enum TriggerMode {
   HOTKEY = 'hotkey' // 快捷键
 }
 
+/**
+ * 保存已存在于 Notion 的单词时的处理方式
+ */
+export enum DuplicateStrategy {
+  SKIP = 'skip', // 跳过
+  APPEND_EXAMPLE = 'append_example', // 追加例句和来源
+  UPDATE = 'update' // 更新标签和熟练度
+}
+
+/**
+ * 自建REST翻译服务的请求/响应模板
+ */
+export interface RestTranslationTemplate {
+  /** 翻译接口路径 */
+  translatePath: string
+  /** 语言检测接口路径（留空表示不支持检测） */
+  detectPath: string
+  /** 请求体JSON模板，字符串中支持 {{text}}、{{source}}、{{target}}、{{apiKey}} 占位符 */
+  requestBody: string
+  /** 译文在响应中的路径，例如 "translatedText" 或 "data.0.text" */
+  translationPath: string
+  /** 检测到的源语言在翻译响应中的路径 */
+  sourceLanguagePath: string
+  /** 检测接口响应中语言代码的路径 */
+  detectedLanguagePath: string
+}
+
+/**
+ * 默认模板（LibreTranslate）
+ */
+export const LIBRETRANSLATE_TEMPLATE: RestTranslationTemplate = {
+  translatePath: '/translate',
+  detectPath: '/detect',
+  requestBody: JSON.stringify({
+    q: '{{text}}',
+    source: '{{source}}',
+    target: '{{target}}',
+    format: 'text',
+    api_key: '{{apiKey}}'
+  }),
+  translationPath: 'translatedText',
+  sourceLanguagePath: 'detectedLanguage.language',
+  detectedLanguagePath: '0.language'
+}
+
 /**
  * 翻译API配置
  */
@@ -32,13 +77,80 @@ export interface TranslationApiConfig {
   apiKey?: string
   endpoint?: string
   enabled: boolean
+  /** 应用密钥（有道） */
+  appSecret?: string
+  /** 语气正式程度（DeepL） */
+  formality?: 'default' | 'more' | 'less' | 'prefer_more' | 'prefer_less'
+  /** 模型名称（OpenAI兼容接口） */
+  model?: string
+  /** 请求/响应模板（自建REST服务，默认为LibreTranslate格式） */
+  restTemplate?: RestTranslationTemplate
+}
+
+/**
+ * Notion路由规则（所有已填写的条件都满足时匹配）
+ */
+export interface NotionRoutingRule {
+  /** 源语言，例如 en、ja */
+  sourceLanguage?: string
+  /** 目标语言 */
+  targetLanguage?: string
+  /** 来源域名（包含子域名） */
+  sourceDomain?: string
+  /** 标签 */
+  tag?: string
+}
+
+/**
+ * 额外的Notion同步目标
+ */
+export interface NotionTarget {
+  /** 目标ID */
+  id: string
+  /** 显示名称 */
+  name: string
+  /** Notion API Token（为空时使用主数据库的 Token） */
+  token: string
+  /** 数据库ID */
+  databaseId: string
+  /** 字段映射 */
+  fieldMapping: NotionDatabaseFields
+  /** 路由规则，任一规则匹配时保存到该目标 */
+  rules: NotionRoutingRule[]
+}
+
+/**
+ * Notion OAuth配置（公开集成）
+ */
+export interface NotionOAuthConfig {
+  /** 公开集成的 OAuth client ID */
+  clientId: string
+  /** 用授权码换取访问令牌的服务地址（client secret 保存在该服务中） */
+  tokenEndpoint: string
+  /** 撤销令牌的服务地址（未填写时只清除本地令牌） */
+  revokeEndpoint?: string
+  /** 授权页面地址（默认为 Notion，可替换为本地测试服务） */
+  authorizationEndpoint?: string
+}
+
+/**
+ * 通过OAuth授权的Notion工作区
+ */
+export interface NotionWorkspace {
+  id: string
+  name: string
+  icon?: string
+  /** 集成在该工作区中的机器人ID */
+  botId: string
+  /** 授权时间 */
+  connectedAt: number
 }
 
 /**
  * Notion集成配置
  */
 export interface NotionIntegrationConfig {
-  /** Notion API Token */
+  /** Notion API Token（OAuth 登录时为访问令牌） */
   token: string
   /** 数据库ID */
   databaseId: string
@@ -48,6 +160,16 @@ export interface NotionIntegrationConfig {
   autoSync: boolean
   /** 同步间隔（秒） */
   syncInterval: number
+  /** 重复单词的处理方式（默认追加例句） */
+  duplicateStrategy?: DuplicateStrategy
+  /** 额外的同步目标（按顺序匹配路由规则，都不匹配时保存到主数据库） */
+  targets?: NotionTarget[]
+  /** OAuth配置 */
+  oauth?: NotionOAuthConfig
+  /** OAuth授权的工作区（使用内部集成 Token 时为空） */
+  workspace?: NotionWorkspace
+  /** 授权已失效（集成被移除或令牌被撤销），需要重新连接 */
+  authRevoked?: boolean
 }
 
 /**
@@ -88,6 +210,8 @@ export interface UserConfig {
   defaultTargetLanguage: SupportedLanguage
   /** 翻译触发模式 */
   triggerMode: TriggerMode
+  /** 多提供商对比模式 */
+  comparisonMode: boolean
   /** 翻译API配置 */
   translationApis: TranslationApiConfig[]
   /** Notion集成配置 */
@@ -107,10 +231,15 @@ export const DEFAULT_USER_CONFIG: UserConfig = {
   version: '1.0.0',
   defaultTargetLanguage: SupportedLanguage.ZH,
   triggerMode: TriggerMode.MANUAL,
+  comparisonMode: false,
   translationApis: [
     {
       provider: TranslationProvider.GOOGLE,
       enabled: true
+    },
+    {
+      provider: TranslationProvider.OFFLINE,
+      enabled: true
     }
   ],
   hotkeys: {
@@ -0,0 +1,83 @@
+import type { TranslationApiConfig, UserConfig } from './model'
+
+/**
+ * 导出配置时替换密钥的占位符
+ */
+export const REDACTED_SECRET = '[REDACTED]'
+
+/**
+ * 配置中的密钥（键为密钥ID，例如 notion.token、translation.deepl.apiKey）
+ */
+export type ConfigSecrets = Record<string, string>
+
+/**
+ * 翻译API配置中的密钥字段
+ */
+const TRANSLATION_SECRET_FIELDS: Array<'apiKey' | 'appSecret'> = ['apiKey', 'appSecret']
+
+/**
+ * 遍历配置中的所有密钥字段，用 replace 的返回值替换（返回空值时删除该字段）
+ */
+export function mapSecrets(
+  config: UserConfig,
+  replace: (id: string, value: string | undefined) => string | undefined
+): UserConfig {
+  const translationApis = config.translationApis.map(api => {
+    const next: TranslationApiConfig = { ...api }
+    TRANSLATION_SECRET_FIELDS.forEach(field => {
+      const value = replace(`translation.${api.provider}.${field}`, api[field])
+      if (value) {
+        next[field] = value
+      } else {
+        delete next[field]
+      }
+    })
+    return next
+  })
+
+  const notion = config.notionIntegration
+  const notionIntegration = notion && {
+    ...notion,
+    token: replace('notion.token', notion.token) || '',
+    ...(notion.targets ? {
+      targets: notion.targets.map(target => ({
+        ...target,
+        token: replace(`notion.targets.${target.id}.token`, target.token) || ''
+      }))
+    } : {})
+  }
+
+  return {
+    ...config,
+    translationApis,
+    ...(notionIntegration ? { notionIntegration } : {})
+  }
+}
+
+/**
+ * 从配置中取出密钥，返回不含密钥的配置
+ */
+export function extractSecrets(config: UserConfig): { config: UserConfig; secrets: ConfigSecrets } {
+  const secrets: ConfigSecrets = {}
+  const stripped = mapSecrets(config, (id, value) => {
+    if (value && value !== REDACTED_SECRET) {
+      secrets[id] = value
+    }
+    return undefined
+  })
+  return { config: stripped, secrets }
+}
+
+/**
+ * 把密钥填回配置（配置中已有的值优先被 secrets 覆盖）
+ */
+export function applySecrets(config: UserConfig, secrets: ConfigSecrets): UserConfig {
+  return mapSecrets(config, (id, value) => secrets[id] || value)
+}
+
+/**
+ * 用占位符替换配置中的密钥（用于导出）
+ */
+export function redactSecrets(config: UserConfig): UserConfig {
+  return mapSecrets(config, (_, value) => value ? REDACTED_SECRET : undefined)
+}
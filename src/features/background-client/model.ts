@@ -0,0 +1,127 @@
+import type { Word } from '@/entities/word'
+import type { Translation, TranslationComparison, TranslationProvider } from '@/entities/translation'
+import type { NotionRecord } from '@/entities/notion-record'
+import { EXTENSION_EVENTS } from '@/shared/config/constants'
+import { MessageBus, type MessageRequest } from '@/shared/lib/messaging'
+
+/**
+ * 翻译请求结果（对比模式下同时返回所有提供商的结果）
+ */
+export interface TranslateWordResult {
+  translation: Translation
+  comparison?: TranslationComparison
+}
+
+/**
+ * Notion同步队列状态
+ */
+export interface NotionQueueStatus {
+  pending: number
+  processing: boolean
+  failed: number
+}
+
+/**
+ * 后台脚本消息协议：消息类型 => 请求数据与响应数据
+ */
+export type BackgroundMessageMap = {
+  [EXTENSION_EVENTS.TRANSLATE_WORD]: {
+    request: { word: Word; targetLanguage?: string; provider?: TranslationProvider }
+    response: TranslateWordResult
+  }
+  [EXTENSION_EVENTS.DETECT_LANGUAGE]: {
+    request: { text: string }
+    response: string
+  }
+  [EXTENSION_EVENTS.AVAILABLE_PROVIDERS]: {
+    request: Record<string, never>
+    response: TranslationProvider[]
+  }
+  [EXTENSION_EVENTS.NOTION_SAVE_REQUESTED]: {
+    request: {
+      word: Word
+      translation: Translation
+      options?: { tags?: string[]; notes?: string; proficiency?: number }
+    }
+    response: NotionRecord
+  }
+  [EXTENSION_EVENTS.NOTION_QUEUE_STATUS]: {
+    request: Record<string, never>
+    response: NotionQueueStatus
+  }
+  [EXTENSION_EVENTS.CONFIG_UPDATED]: {
+    request: Record<string, never>
+    response: void
+  }
+}
+
+/**
+ * 内容脚本消息协议：由后台脚本发送到标签页
+ */
+export type ContentMessageMap = {
+  [EXTENSION_EVENTS.TRANSLATION_REQUESTED]: {
+    request: { text?: string }
+    response: void
+  }
+  [EXTENSION_EVENTS.CONFIG_UPDATED]: {
+    request: Record<string, never>
+    response: void
+  }
+  [EXTENSION_EVENTS.AUTO_TRANSLATION_TOGGLED]: {
+    request: { enabled: boolean }
+    response: void
+  }
+}
+
+export type BackgroundRequest<T extends keyof BackgroundMessageMap> = MessageRequest<BackgroundMessageMap, T>
+
+/**
+ * 后台脚本客户端
+ * 翻译和Notion请求统一由后台脚本处理，内容脚本不持有任何API密钥
+ */
+export class BackgroundClient {
+  constructor(private bus = new MessageBus<BackgroundMessageMap>()) {}
+
+  /**
+   * 翻译单词（对比模式由后台根据用户配置决定）
+   */
+  translateWord(
+    word: Word,
+    targetLanguage?: string,
+    provider?: TranslationProvider
+  ): Promise<TranslateWordResult> {
+    return this.bus.request(EXTENSION_EVENTS.TRANSLATE_WORD, { word, targetLanguage, provider })
+  }
+
+  /**
+   * 检测语言
+   */
+  detectLanguage(text: string): Promise<string> {
+    return this.bus.request(EXTENSION_EVENTS.DETECT_LANGUAGE, { text })
+  }
+
+  /**
+   * 获取已启用的翻译提供商
+   */
+  getAvailableProviders(): Promise<TranslationProvider[]> {
+    return this.bus.request(EXTENSION_EVENTS.AVAILABLE_PROVIDERS, {})
+  }
+
+  /**
+   * 保存到Notion
+   */
+  saveToNotion(
+    word: Word,
+    translation: Translation,
+    options?: BackgroundRequest<typeof EXTENSION_EVENTS.NOTION_SAVE_REQUESTED>['options']
+  ): Promise<NotionRecord> {
+    return this.bus.request(EXTENSION_EVENTS.NOTION_SAVE_REQUESTED, { word, translation, options })
+  }
+
+  /**
+   * 获取Notion同步队列状态
+   */
+  getQueueStatus(): Promise<NotionQueueStatus> {
+    return this.bus.request(EXTENSION_EVENTS.NOTION_QUEUE_STATUS, {})
+  }
+}
@@ -0,0 +1,76 @@
+import { DEFAULT_VALUES } from '@/shared/config/constants'
+
+/**
+ * 自动同步闹钟名称
+ */
+export const NOTION_SYNC_ALARM = 'notions-words-notion-sync'
+
+/**
+ * chrome.alarms 允许的最短周期（分钟）
+ */
+export const MIN_ALARM_PERIOD_MINUTES = 0.5
+
+/**
+ * 自动同步依赖的 chrome.alarms 子集
+ */
+export interface AlarmsApi {
+  get(name: string): Promise<{ name: string; periodInMinutes?: number } | undefined>
+  create(name: string, alarmInfo: { delayInMinutes?: number; periodInMinutes?: number }): Promise<void>
+  clear(name: string): Promise<boolean>
+  onAlarm: {
+    addListener(callback: (alarm: { name: string }) => void): void
+  }
+}
+
+/**
+ * 将同步间隔（秒）转换为闹钟周期（分钟）
+ */
+export function getSyncPeriodInMinutes(syncIntervalSeconds?: number): number {
+  const seconds = syncIntervalSeconds && syncIntervalSeconds > 0
+    ? syncIntervalSeconds
+    : DEFAULT_VALUES.NOTION_SYNC_INTERVAL / 1000
+
+  return Math.max(seconds / 60, MIN_ALARM_PERIOD_MINUTES)
+}
+
+/**
+ * 基于 chrome.alarms 的自动同步调度器
+ * Service Worker 被挂起后闹钟仍会触发并唤醒后台脚本，因此需要在后台脚本启动时同步创建
+ */
+export class AutoSyncScheduler {
+  constructor(
+    private onTick: () => void,
+    private alarms: AlarmsApi = chrome.alarms as unknown as AlarmsApi
+  ) {
+    // 必须在后台脚本首次运行时注册监听，否则唤醒后的闹钟事件会丢失
+    this.alarms.onAlarm.addListener(alarm => {
+      if (alarm.name === NOTION_SYNC_ALARM) {
+        this.onTick()
+      }
+    })
+  }
+
+  /**
+   * 启动自动同步
+   * 后台脚本每次唤醒都会调用，周期未变时保留已有闹钟，避免下次触发时间被不断推迟
+   */
+  async start(syncIntervalSeconds?: number): Promise<void> {
+    const periodInMinutes = getSyncPeriodInMinutes(syncIntervalSeconds)
+
+    const existing = await this.alarms.get(NOTION_SYNC_ALARM)
+    if (existing?.periodInMinutes === periodInMinutes) return
+
+    await this.alarms.clear(NOTION_SYNC_ALARM)
+    await this.alarms.create(NOTION_SYNC_ALARM, {
+      delayInMinutes: periodInMinutes,
+      periodInMinutes
+    })
+  }
+
+  /**
+   * 停止自动同步
+   */
+  async stop(): Promise<void> {
+    await this.alarms.clear(NOTION_SYNC_ALARM)
+  }
+}
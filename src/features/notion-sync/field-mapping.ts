@@ -0,0 +1,176 @@
+import type {
+  NotionDatabaseFields,
+  NotionDatabaseProperty,
+  NotionDatabaseSchema,
+  NotionFieldKey
+} from '@/entities/notion-record'
+
+/**
+ * 字段匹配规则
+ */
+interface FieldRule {
+  /** 显示名称 */
+  label: string
+  /** 用于按名称匹配的关键词（小写） */
+  keywords: string[]
+  /** 可写入的 Notion 属性类型（第一个为推荐类型） */
+  types: string[]
+}
+
+/**
+ * 各字段的匹配规则
+ */
+export const FIELD_RULES: Record<NotionFieldKey, FieldRule> = {
+  wordField: {
+    label: '单词',
+    keywords: ['单词', '词汇', 'word', 'term', 'vocabulary'],
+    types: ['title', 'rich_text', 'select']
+  },
+  translationField: {
+    label: '翻译',
+    keywords: ['翻译', '释义', '译文', '含义', 'translation', 'meaning', 'definition'],
+    types: ['rich_text', 'title']
+  },
+  contextField: {
+    label: '例句',
+    keywords: ['例句', '上下文', '语境', 'context', 'example', 'sentence'],
+    types: ['rich_text', 'title']
+  },
+  sourceUrlField: {
+    label: '来源链接',
+    keywords: ['来源', '链接', '网址', 'source', 'url', 'link'],
+    types: ['url', 'rich_text']
+  },
+  tagsField: {
+    label: '标签',
+    keywords: ['标签', '分类', 'tags', 'tag', 'category'],
+    types: ['multi_select', 'select', 'status', 'rich_text']
+  },
+  notesField: {
+    label: '备注',
+    keywords: ['备注', '笔记', 'notes', 'note', 'remark', 'memo'],
+    types: ['rich_text', 'title']
+  },
+  proficiencyField: {
+    label: '熟练度',
+    keywords: ['熟练度', '掌握', '等级', 'proficiency', 'level', 'mastery'],
+    types: ['number', 'select', 'status', 'checkbox', 'rich_text']
+  },
+  createdAtField: {
+    label: '创建时间',
+    keywords: ['创建时间', '添加时间', '日期', '时间', 'created', 'date', 'added'],
+    types: ['date', 'rich_text']
+  }
+}
+
+export const NOTION_FIELD_KEYS = Object.keys(FIELD_RULES) as NotionFieldKey[]
+
+/**
+ * 字段映射问题
+ */
+export interface FieldMappingIssue {
+  field: NotionFieldKey
+  type: 'missing' | 'not_found' | 'type_mismatch'
+  message: string
+}
+
+/**
+ * 自动映射结果
+ */
+export interface FieldMappingResult {
+  /** 未匹配到的字段为空字符串 */
+  mapping: NotionDatabaseFields
+  issues: FieldMappingIssue[]
+}
+
+/**
+ * 根据数据库结构自动匹配字段
+ * 按名称和类型打分，每个数据库属性只分配给一个字段
+ */
+export function autoMapFields(schema: NotionDatabaseSchema): FieldMappingResult {
+  const mapping = {} as NotionDatabaseFields
+  NOTION_FIELD_KEYS.forEach(field => {
+    mapping[field] = ''
+  })
+  const used = new Set<string>()
+
+  // 先为所有字段计算候选，再按分数从高到低分配，避免先匹配的字段抢走更合适的属性
+  const candidates = NOTION_FIELD_KEYS.flatMap(field =>
+    schema.properties.map(property => ({
+      field,
+      property,
+      score: scoreProperty(field, property)
+    }))
+  )
+    .filter(candidate => candidate.score > 0)
+    .sort((a, b) => b.score - a.score)
+
+  candidates.forEach(({ field, property }) => {
+    if (mapping[field] || used.has(property.name)) return
+    mapping[field] = property.name
+    used.add(property.name)
+  })
+
+  return {
+    mapping,
+    issues: validateFieldMapping(mapping, schema)
+  }
+}
+
+/**
+ * 检查字段映射：未映射、属性不存在、类型不匹配
+ */
+export function validateFieldMapping(
+  mapping: Partial<NotionDatabaseFields>,
+  schema: NotionDatabaseSchema
+): FieldMappingIssue[] {
+  const issues: FieldMappingIssue[] = []
+
+  NOTION_FIELD_KEYS.forEach(field => {
+    const rule = FIELD_RULES[field]
+    const name = mapping[field]
+
+    if (!name) {
+      issues.push({ field, type: 'missing', message: `「${rule.label}」未映射，保存时不会写入` })
+      return
+    }
+
+    const property = schema.properties.find(item => item.name === name)
+    if (!property) {
+      issues.push({ field, type: 'not_found', message: `数据库中不存在属性「${name}」` })
+      return
+    }
+
+    if (!rule.types.includes(property.type)) {
+      issues.push({
+        field,
+        type: 'type_mismatch',
+        message: `「${name}」的类型为 ${property.type}，「${rule.label}」需要 ${rule.types.join(' / ')}`
+      })
+    }
+  })
+
+  return issues
+}
+
+/**
+ * 计算属性与字段的匹配分数（0 表示不匹配）
+ */
+function scoreProperty(field: NotionFieldKey, property: NotionDatabaseProperty): number {
+  const rule = FIELD_RULES[field]
+  const name = property.name.trim().toLowerCase()
+  const typeMatches = rule.types.includes(property.type)
+
+  let score = 0
+  if (rule.keywords.includes(name)) {
+    score = 4
+  } else if (rule.keywords.some(keyword => name.includes(keyword))) {
+    score = 2
+  }
+
+  // 名称匹配时类型一致的优先；标题属性每个数据库只有一个，名称不符时也作为单词字段
+  if (score > 0 && typeMatches) score += 1
+  if (score === 0 && field === 'wordField' && property.type === 'title') score = 1
+
+  return score
+}
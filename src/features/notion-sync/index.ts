@@ -1,2 +1,7 @@
 export * from './model'
-export { NotionSyncService } from './model' 
\ No newline at end of file
+export * from './auto-sync'
+export * from './field-mapping'
+export * from './pull-sync'
+export * from './word-store'
+export * from './routing'
+export { NotionSyncService } from './model'
\ No newline at end of file
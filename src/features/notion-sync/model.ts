@@ -1,20 +1,29 @@
-import { NotionClient } from '@/shared/api/notion/notion-client'
+import { NotionClient, type NotionQuery } from '@/shared/api/notion/notion-client'
+import { isRetryableError, isUnauthorizedError } from '@/shared/api/notion/errors'
+import { getBackoffDelay } from '@/shared/api/notion/request-scheduler'
+import { TypedStorage } from '@/shared/lib/storage'
+import { AutoSyncScheduler, type AlarmsApi } from './auto-sync'
+import { PULL_OVERLAP_MS, mergeRemoteChanges, type NotionSyncConflict } from './pull-sync'
+import { LocalWordStore } from './word-store'
+import { DEFAULT_TARGET_ID, resolveTargetId } from './routing'
+import { DEFAULT_VALUES, STORAGE_KEYS } from '@/shared/config/constants'
 import { 
   createNotionRecord, 
   updateRecordStatus, 
   NotionRecordStatus,
   type NotionRecord,
-  type NotionDatabaseFields 
+  type NotionPageRecord,
+  type NotionDatabaseFields
 } from '@/entities/notion-record'
-import type { Word } from '@/entities/word'
+import { cleanWordText, type Word } from '@/entities/word'
 import type { Translation } from '@/entities/translation'
-import type { NotionIntegrationConfig } from '@/entities/user-config'
+import { DuplicateStrategy, type NotionIntegrationConfig } from '@/entities/user-config'
 
 /**
  * 同步事件类型
  */
 export interface NotionSyncEvent {
-  type: 'sync_started' | 'sync_completed' | 'sync_failed' | 'sync_progress'
+  type: 'sync_started' | 'sync_completed' | 'sync_failed' | 'sync_retry_scheduled' | 'sync_progress' | 'auth_revoked'
   record: NotionRecord
   progress?: {
     current: number
@@ -24,45 +33,98 @@ export interface NotionSyncEvent {
 }
 
 /**
- * 同步队列项
+ * 同步队列项（持久化到 STORAGE_KEYS.NOTION_RECORDS）
  */
-interface SyncQueueItem {
+export interface SyncQueueItem {
   record: NotionRecord
   retryCount: number
   maxRetries: number
+  /** 下次重试时间（指数退避） */
+  nextAttemptAt?: number
+}
+
+/**
+ * 同步目标（主数据库或额外的数据库）
+ */
+interface SyncTarget {
+  id: string
+  name: string
+  client: NotionClient
+  fieldMapping: NotionDatabaseFields
 }
 
 /**
  * Notion同步服务
  */
 export class NotionSyncService {
-  private client: NotionClient | null = null
+  private targets = new Map<string, SyncTarget>()
   private syncQueue: SyncQueueItem[] = []
+  private queueStorage = new TypedStorage<SyncQueueItem[]>(STORAGE_KEYS.NOTION_RECORDS, [])
+  private restorePromise: Promise<void> | null = null
   private isProcessing = false
+  private isPulling = false
+  /** 授权已失效，重新初始化并连接成功前暂停同步 */
+  private authRevoked = false
+  private wordStore = new LocalWordStore()
+  private retryTimer: ReturnType<typeof setTimeout> | null = null
   private listeners: Array<(event: NotionSyncEvent) => void> = []
   private config: NotionIntegrationConfig | null = null
-  private syncInterval: number | null = null
+  /** 首次加载配置并恢复队列后完成（闹钟可能在初始化之前唤醒后台脚本） */
+  private configured: Promise<void>
+  private markConfigured: () => void = () => {}
+  private autoSyncScheduler: AutoSyncScheduler
+
+  constructor(alarms?: AlarmsApi) {
+    this.configured = new Promise(resolve => {
+      this.markConfigured = resolve
+    })
+    this.autoSyncScheduler = new AutoSyncScheduler(() => this.syncPending(), alarms)
+  }
 
   /**
    * 初始化同步服务
    */
   async initialize(config: NotionIntegrationConfig): Promise<void> {
     this.config = config
-    this.client = new NotionClient({
-      token: config.token,
-      databaseId: config.databaseId,
-      fieldMapping: config.fieldMapping
-    })
+    this.targets = new Map(
+      [
+        { id: DEFAULT_TARGET_ID, name: '主数据库', token: config.token, databaseId: config.databaseId, fieldMapping: config.fieldMapping },
+        ...(config.targets || [])
+      ].map(target => [target.id, {
+        id: target.id,
+        name: target.name,
+        fieldMapping: target.fieldMapping,
+        client: new NotionClient({
+          token: target.token || config.token,
+          databaseId: target.databaseId,
+          fieldMapping: target.fieldMapping
+        })
+      }])
+    )
+
+    // 恢复上次未完成的同步队列（离线时也要先恢复，保证新记录不会覆盖旧队列）
+    await this.restoreQueue()
+    this.markConfigured()
+
+    // 启动或停止自动同步（在测试连接之前，离线启动时也能按时重试）
+    if (config.autoSync) {
+      await this.startAutoSync()
+    } else {
+      await this.stopAutoSync()
+    }
 
-    // 测试连接
-    const isConnected = await this.client.testConnection()
-    if (!isConnected) {
-      throw new Error('无法连接到Notion数据库，请检查配置')
+    // 测试所有目标的连接
+    const targets = Array.from(this.targets.values())
+    const results = await Promise.all(targets.map(target => target.client.testConnection()))
+    const disconnected = targets.filter((_, index) => !results[index]).map(target => target.name)
+    if (disconnected.length > 0) {
+      throw new Error(`无法连接到Notion数据库（${disconnected.join('、')}），请检查配置`)
     }
+    this.authRevoked = false
 
-    // 启动自动同步
-    if (config.autoSync) {
-      this.startAutoSync()
+    // 继续处理恢复的队列
+    if (!this.isProcessing) {
+      this.processQueue()
     }
   }
 
@@ -78,21 +140,21 @@ export class NotionSyncService {
       proficiency?: number
     }
   ): Promise<NotionRecord> {
-    if (!this.client) {
+    if (!this.config) {
       throw new Error('Notion同步服务未初始化')
     }
 
     // 创建记录
-    const record = createNotionRecord({
+    const record = this.routeRecord(createNotionRecord({
       word,
       translation,
       tags: options?.tags,
       notes: options?.notes,
       proficiency: options?.proficiency
-    })
+    }))
 
-    // 添加到同步队列
-    this.addToQueue(record)
+    // 添加到同步队列（持久化后再返回）
+    await this.addToQueue([record])
 
     // 如果没有在处理，立即开始处理
     if (!this.isProcessing) {
@@ -116,20 +178,15 @@ export class NotionSyncService {
       }
     }>
   ): Promise<NotionRecord[]> {
-    const records: NotionRecord[] = []
-
-    for (const item of items) {
-      const record = createNotionRecord({
-        word: item.word,
-        translation: item.translation,
-        tags: item.options?.tags,
-        notes: item.options?.notes,
-        proficiency: item.options?.proficiency
-      })
+    const records = items.map(item => this.routeRecord(createNotionRecord({
+      word: item.word,
+      translation: item.translation,
+      tags: item.options?.tags,
+      notes: item.options?.notes,
+      proficiency: item.options?.proficiency
+    })))
 
-      this.addToQueue(record)
-      records.push(record)
-    }
+    await this.addToQueue(records)
 
     // 开始处理队列
     if (!this.isProcessing) {
@@ -150,32 +207,72 @@ export class NotionSyncService {
       proficiency?: number
     }
   ): Promise<void> {
-    if (!this.client || !record.notionPageId) {
+    if (!this.config || !record.notionPageId) {
       throw new Error('记录尚未同步到Notion或服务未初始化')
     }
 
+    // 先保存本地修改，推送失败时由下次拉取同步继续推送
+    const updated: NotionRecord = { ...record, ...updates, updatedAt: Date.now() }
+    await this.saveToWordStore([updated])
+
     try {
-      await this.client.updatePage(record.notionPageId, {
-        ...record,
-        ...updates
-      })
+      await this.getTarget(record.targetId).client.updatePage(record.notionPageId, updated)
     } catch (error) {
       throw new Error(`更新Notion记录失败: ${error}`)
     }
+
+    await this.saveToWordStore([{ ...updated, lastSyncAt: Date.now() }])
+  }
+
+  /**
+   * 拉取 Notion 中的修改（标签、备注、熟练度）到本地单词库
+   * 只处理本地已有的记录；两边都有修改时按最后写入者优先，并写入冲突日志
+   */
+  async pullChanges(): Promise<{ updated: number; conflicts: NotionSyncConflict[] }> {
+    if (!this.config) {
+      throw new Error('Notion同步服务未初始化')
+    }
+    if (this.isPulling) {
+      return { updated: 0, conflicts: [] }
+    }
+
+    this.isPulling = true
+    try {
+      const records = (await this.wordStore.getAll()).filter(record => record.notionPageId)
+      let updated = 0
+      const conflicts: NotionSyncConflict[] = []
+
+      for (const target of this.targets.values()) {
+        const result = await this.pullTarget(
+          target,
+          records.filter(record => this.getTarget(record.targetId) === target)
+        )
+        updated += result.updated
+        conflicts.push(...result.conflicts)
+      }
+
+      return { updated, conflicts }
+    } finally {
+      this.isPulling = false
+    }
   }
 
   /**
-   * 查询Notion数据库
+   * 获取同步冲突日志
    */
-  async queryRecords(filter?: {
-    word?: string
-    dateRange?: { start: string; end: string }
-  }): Promise<any[]> {
-    if (!this.client) {
+  async getConflicts(): Promise<NotionSyncConflict[]> {
+    return (await this.wordStore.getState()).conflicts
+  }
+
+  /**
+   * 查询Notion数据库（默认查询主数据库）
+   */
+  async queryRecords(query?: NotionQuery, targetId?: string): Promise<NotionPageRecord[]> {
+    if (!this.config) {
       throw new Error('Notion同步服务未初始化')
     }
 
-    return this.client.queryDatabase(filter)
+    return this.getTarget(targetId).client.queryDatabase(query)
   }
 
   /**
@@ -192,6 +289,37 @@ export class NotionSyncService {
     }
   }
 
+  /**
+   * 等待记录的同步结果（成功、失败或等待重试）
+   * 授权已失效、记录在退避中或超时仍未完成时，直接返回队列中的待同步记录
+   */
+  waitForSync(record: NotionRecord, timeout: number = DEFAULT_VALUES.NOTION_SYNC_WAIT_TIMEOUT): Promise<NotionRecord> {
+    const getQueuedRecord = () =>
+      this.syncQueue.find(item => item.record.id === record.id)?.record ?? record
+
+    return new Promise(resolve => {
+      const finish = (result: NotionRecord) => {
+        clearTimeout(timer)
+        unsubscribe()
+        resolve(result)
+      }
+
+      const unsubscribe = this.onSync(event => {
+        if (event.record.id !== record.id) return
+        if (['sync_completed', 'sync_failed', 'sync_retry_scheduled', 'auth_revoked'].includes(event.type)) {
+          finish(event.record)
+        }
+      })
+      const timer = setTimeout(() => finish(getQueuedRecord()), timeout)
+
+      // 队列已暂停或记录正在退避等待时不会很快有结果
+      const queued = this.syncQueue.find(item => item.record.id === record.id)
+      if (this.authRevoked || (queued?.nextAttemptAt && queued.nextAttemptAt > Date.now())) {
+        finish(getQueuedRecord())
+      }
+    })
+  }
+
   /**
    * 获取队列状态
    */
@@ -200,33 +328,42 @@ export class NotionSyncService {
     processing: boolean
     failed: number
   } {
-    const failed = this.syncQueue.filter(item => 
-      item.retryCount >= item.maxRetries
-    ).length
+    const failed = this.syncQueue.filter(item => this.isFailed(item)).length
 
     return {
-      pending: this.syncQueue.length,
+      pending: this.syncQueue.length - failed,
       processing: this.isProcessing,
       failed
     }
   }
 
+  /**
+   * 获取失败的记录
+   */
+  getFailedRecords(): NotionRecord[] {
+    return this.syncQueue.filter(item => this.isFailed(item)).map(item => item.record)
+  }
+
   /**
    * 清理队列
    */
-  clearQueue(): void {
+  async clearQueue(): Promise<void> {
     this.syncQueue = []
+    await this.persistQueue()
   }
 
   /**
    * 重试失败的项
    */
-  retryFailedItems(): void {
+  async retryFailedItems(): Promise<void> {
     this.syncQueue.forEach(item => {
-      if (item.retryCount >= item.maxRetries) {
+      if (this.isFailed(item)) {
         item.retryCount = 0
+        item.nextAttemptAt = undefined
+        item.record = updateRecordStatus(item.record, NotionRecordStatus.PENDING)
       }
     })
+    await this.persistQueue()
 
     if (!this.isProcessing) {
       this.processQueue()
@@ -234,90 +371,204 @@ export class NotionSyncService {
   }
 
   /**
-   * 启动自动同步
+   * 处理待同步的记录（由自动同步闹钟触发，初始化完成前触发时等待初始化）
    */
-  private startAutoSync(): void {
-    if (this.syncInterval) {
-      clearInterval(this.syncInterval)
+  async syncPending(): Promise<void> {
+    await this.configured
+    if (!this.config || this.authRevoked) return
+
+    if (!this.isProcessing && this.syncQueue.some(item => !this.isFailed(item))) {
+      this.processQueue()
     }
 
-    const interval = this.config?.syncInterval || 30000 // 默认30秒
-    this.syncInterval = window.setInterval(() => {
-      if (!this.isProcessing && this.syncQueue.length > 0) {
-        this.processQueue()
-      }
-    }, interval)
+    this.pullChanges().catch(error => {
+      console.error('拉取Notion修改失败:', error)
+    })
+  }
+
+  /**
+   * 启动自动同步（syncInterval 单位为秒）
+   */
+  private async startAutoSync(): Promise<void> {
+    try {
+      await this.autoSyncScheduler.start(this.config?.syncInterval)
+    } catch (error) {
+      console.error('启动自动同步失败:', error)
+    }
   }
 
   /**
    * 停止自动同步
    */
-  private stopAutoSync(): void {
-    if (this.syncInterval) {
-      clearInterval(this.syncInterval)
-      this.syncInterval = null
+  private async stopAutoSync(): Promise<void> {
+    try {
+      await this.autoSyncScheduler.stop()
+    } catch (error) {
+      console.error('停止自动同步失败:', error)
     }
   }
 
   /**
    * 添加到同步队列
    */
-  private addToQueue(record: NotionRecord): void {
-    const queueItem: SyncQueueItem = {
-      record,
-      retryCount: 0,
-      maxRetries: 3
+  private async addToQueue(records: NotionRecord[]): Promise<void> {
+    records.forEach(record => {
+      this.syncQueue.push({
+        record,
+        retryCount: 0,
+        maxRetries: 3
+      })
+    })
+
+    await this.persistQueue()
+  }
+
+  /**
+   * 从存储中恢复同步队列（只恢复一次）
+   */
+  private restoreQueue(): Promise<void> {
+    if (!this.restorePromise) {
+      this.restorePromise = this.queueStorage.get().then(stored => {
+        const queuedIds = new Set(this.syncQueue.map(item => item.record.id))
+        const restored = stored
+          .filter(item => !queuedIds.has(item.record.id))
+          .map(item => item.record.status === NotionRecordStatus.SYNCING
+            // 上次同步过程中被中断，重新同步
+            ? { ...item, record: updateRecordStatus(item.record, NotionRecordStatus.PENDING) }
+            : item
+          )
+
+        this.syncQueue = [...restored, ...this.syncQueue]
+      })
+    }
+    return this.restorePromise
+  }
+
+  /**
+   * 持久化同步队列（只保存待同步和失败的记录）
+   */
+  private async persistQueue(): Promise<void> {
+    try {
+      await this.queueStorage.set(this.syncQueue)
+    } catch (error) {
+      console.error('保存同步队列失败:', error)
     }
+  }
 
-    this.syncQueue.push(queueItem)
+  /**
+   * 是否已重试耗尽
+   */
+  private isFailed(item: SyncQueueItem): boolean {
+    return item.retryCount > item.maxRetries
   }
 
   /**
    * 处理同步队列
+   * 记录同步成功后才从队列中移除，中途崩溃时下次启动会继续同步
    */
   private async processQueue(): Promise<void> {
-    if (this.isProcessing || this.syncQueue.length === 0) {
+    if (this.isProcessing) {
       return
     }
 
     this.isProcessing = true
 
-    while (this.syncQueue.length > 0) {
-      const item = this.syncQueue.shift()
-      if (!item) continue
-
-      try {
-        await this.processSyncItem(item)
-      } catch (error) {
-        console.error('同步队列处理失败:', error)
-        
-        // 重试逻辑
-        if (item.retryCount < item.maxRetries) {
-          item.retryCount++
-          this.syncQueue.push(item) // 重新加入队列
-        } else {
-          // 标记为失败
-          item.record = updateRecordStatus(item.record, NotionRecordStatus.FAILED, {
-            syncError: error instanceof Error ? error.message : '同步失败'
-          })
-
-          this.notifyListeners({
-            type: 'sync_failed',
-            record: item.record,
-            error: error instanceof Error ? error.message : '同步失败'
-          })
+    try {
+      let item: SyncQueueItem | undefined
+      while (!this.authRevoked && (item = this.getNextReadyItem())) {
+        try {
+          await this.processSyncItem(item)
+          this.syncQueue = this.syncQueue.filter(queued => queued !== item)
+        } catch (error) {
+          console.error('同步队列处理失败:', error)
+
+          // 授权失效时保留记录，重新连接后继续同步
+          if (isUnauthorizedError(error)) {
+            this.authRevoked = true
+            item.record = updateRecordStatus(item.record, NotionRecordStatus.PENDING, {
+              syncError: 'Notion授权已失效，请重新连接'
+            })
+            this.notifyListeners({
+              type: 'auth_revoked',
+              record: item.record,
+              error: error instanceof Error ? error.message : undefined
+            })
+            await this.persistQueue()
+            break
+          }
+
+          // 重试逻辑：永久错误（400/401/404等）不再重试，其他错误按指数退避后重试
+          item.retryCount = isRetryableError(error) ? item.retryCount + 1 : item.maxRetries + 1
+          item.nextAttemptAt = Date.now() + getBackoffDelay(item.retryCount - 1)
+          this.syncQueue = [...this.syncQueue.filter(queued => queued !== item), item]
+
+          const errorMessage = error instanceof Error ? error.message : '同步失败'
+          if (this.isFailed(item)) {
+            this.notifyListeners({
+              type: 'sync_failed',
+              record: item.record,
+              error: errorMessage
+            })
+          } else {
+            // 等待重试的记录保持待同步状态
+            item.record = updateRecordStatus(item.record, NotionRecordStatus.PENDING, {
+              syncError: errorMessage
+            })
+            this.notifyListeners({
+              type: 'sync_retry_scheduled',
+              record: item.record,
+              error: errorMessage
+            })
+          }
         }
+
+        await this.persistQueue()
       }
+    } finally {
+      this.isProcessing = false
     }
 
-    this.isProcessing = false
+    this.scheduleRetry()
+  }
+
+  /**
+   * 获取下一个可以同步的记录（跳过失败和退避中的记录）
+   */
+  private getNextReadyItem(): SyncQueueItem | undefined {
+    const now = Date.now()
+    return this.syncQueue.find(item =>
+      !this.isFailed(item) && (!item.nextAttemptAt || item.nextAttemptAt <= now)
+    )
+  }
+
+  /**
+   * 在最早的退避时间到达后继续处理队列
+   * Service Worker 被挂起时定时器会丢失，此时由自动同步闹钟继续处理
+   */
+  private scheduleRetry(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer)
+      this.retryTimer = null
+    }
+
+    const nextAttemptAt = Math.min(
+      ...this.syncQueue
+        .filter(item => !this.isFailed(item) && item.nextAttemptAt)
+        .map(item => item.nextAttemptAt!)
+    )
+    if (!Number.isFinite(nextAttemptAt)) return
+
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null
+      this.processQueue()
+    }, Math.max(0, nextAttemptAt - Date.now()))
   }
 
   /**
    * 处理单个同步项
    */
   private async processSyncItem(item: SyncQueueItem): Promise<void> {
-    if (!this.client) {
+    if (!this.config) {
       throw new Error('Notion客户端未初始化')
     }
 
@@ -331,15 +582,17 @@ export class NotionSyncService {
 
     // 更新状态为同步中
     item.record = updateRecordStatus(record, NotionRecordStatus.SYNCING)
+    await this.persistQueue()
 
     try {
-      // 执行同步
-      const pageId = await this.client.createPage(record)
+      // 执行同步（单词已存在时按配置处理，不重复创建）
+      const pageId = await this.savePage(record)
 
       // 更新状态为已同步
       item.record = updateRecordStatus(item.record, NotionRecordStatus.SYNCED, {
         notionPageId: pageId
       })
+      await this.saveToWordStore([item.record])
 
       // 通知同步完成
       this.notifyListeners({
@@ -357,6 +610,132 @@ export class NotionSyncService {
     }
   }
 
+  /**
+   * 保存记录到Notion，返回页面ID
+   */
+  private async savePage(record: NotionRecord): Promise<string> {
+    const target = this.getTarget(record.targetId)
+    const { client } = target
+    const existing = await this.findExistingPage(record, target)
+    if (!existing) {
+      return client.createPage(record)
+    }
+
+    switch (this.config?.duplicateStrategy ?? DuplicateStrategy.APPEND_EXAMPLE) {
+      case DuplicateStrategy.APPEND_EXAMPLE: {
+        const example = formatExample(record)
+        const current = existing.context || ''
+        if (example && !current.includes(example)) {
+          await client.updatePageFields(existing.pageId, {
+            contextField: current ? `${current}\n${example}` : example
+          })
+        }
+        break
+      }
+      case DuplicateStrategy.UPDATE: {
+        await client.updatePage(existing.pageId, {
+          tags: Array.from(new Set([...existing.tags, ...(record.tags || [])])),
+          proficiency: record.proficiency
+        })
+        break
+      }
+      case DuplicateStrategy.SKIP:
+        break
+    }
+
+    return existing.pageId
+  }
+
+  /**
+   * 查找数据库中已存在的同一单词（按原文或规范化后的写法精确查询，再按 cleanWordText 规范化后比较）
+   * 单词字段的属性类型不支持查询时跳过去重，避免每次保存都查询失败
+   */
+  private async findExistingPage(record: NotionRecord, target: SyncTarget): Promise<NotionPageRecord | undefined> {
+    const word = normalizeWord(record.word.text)
+    if (!word || !(await target.client.canQueryByWord())) return undefined
+
+    const pages = await target.client.findPagesByWord([record.word.text.trim(), word])
+    return pages.find(page => normalizeWord(page.word) === word)
+  }
+
+  /**
+   * 按路由规则为记录选择同步目标
+   */
+  private routeRecord(record: NotionRecord): NotionRecord {
+    return { ...record, targetId: resolveTargetId(record, this.config?.targets) }
+  }
+
+  /**
+   * 获取同步目标（目标已被删除时使用主数据库）
+   */
+  private getTarget(targetId?: string): SyncTarget {
+    return this.targets.get(targetId ?? DEFAULT_TARGET_ID) ?? this.targets.get(DEFAULT_TARGET_ID)!
+  }
+
+  /**
+   * 拉取单个同步目标中的修改
+   */
+  private async pullTarget(
+    target: SyncTarget,
+    records: NotionRecord[]
+  ): Promise<{ updated: number; conflicts: NotionSyncConflict[] }> {
+    const startedAt = Date.now()
+    const lastPulledAt = (await this.wordStore.getState()).lastPulledAt[target.id]
+    const localByPageId = new Map(records.map(record => [record.notionPageId!, record]))
+    const visited = new Set<string>()
+    const updated: NotionRecord[] = []
+    const conflicts: NotionSyncConflict[] = []
+
+    if (localByPageId.size > 0) {
+      const pages = target.client.iterateDatabase({
+        editedAfter: lastPulledAt ? new Date(lastPulledAt - PULL_OVERLAP_MS).toISOString() : undefined,
+        sorts: [{ field: 'last_edited_time', direction: 'ascending' }]
+      })
+
+      for await (const remote of pages) {
+        const local = localByPageId.get(remote.pageId)
+        if (!local) continue
+        visited.add(remote.pageId)
+
+        const result = mergeRemoteChanges(local, remote, target.fieldMapping)
+        if (!result) continue
+
+        if (result.conflict) {
+          conflicts.push(result.conflict)
+        }
+        if (result.pushLocal) {
+          await target.client.updatePage(remote.pageId, result.record)
+          updated.push({ ...result.record, lastSyncAt: Date.now() })
+        } else {
+          updated.push(result.record)
+        }
+      }
+    }
+
+    // Notion 中未改动但本地有未推送修改的记录
+    for (const record of records) {
+      if (visited.has(record.notionPageId!) || (record.updatedAt ?? 0) <= (record.lastSyncAt ?? 0)) continue
+      await target.client.updatePage(record.notionPageId!, record)
+      updated.push({ ...record, lastSyncAt: Date.now() })
+    }
+
+    await this.wordStore.upsert(updated)
+    await this.wordStore.savePullResult(target.id, startedAt, conflicts)
+
+    return { updated: updated.length, conflicts }
+  }
+
+  /**
+   * 保存到本地单词库（失败不影响同步结果）
+   */
+  private async saveToWordStore(records: NotionRecord[]): Promise<void> {
+    try {
+      await this.wordStore.upsert(records)
+    } catch (error) {
+      console.error('保存本地单词库失败:', error)
+    }
+  }
+
   /**
    * 通知监听器
    */
@@ -375,13 +754,35 @@ export class NotionSyncService {
    */
   destroy(): void {
     this.stopAutoSync()
-    this.clearQueue()
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer)
+      this.retryTimer = null
+    }
+    // 只清理内存中的队列，已持久化的记录在下次启动时恢复
+    this.syncQueue = []
+    this.restorePromise = null
     this.listeners = []
-    this.client = null
+    this.targets.clear()
     this.config = null
   }
 }
 
+/**
+ * 规范化单词用于比较（cleanWordText 会移除中文等非 ASCII 字符，此时退回到忽略大小写比较）
+ */
+function normalizeWord(text: string): string {
+  return cleanWordText(text) || text.trim().toLowerCase()
+}
+
+/**
+ * 格式化追加到例句字段的内容：例句和来源链接
+ */
+function formatExample(record: NotionRecord): string {
+  const { context, source } = record.word
+  if (context && source.url) return `${context} (${source.url})`
+  return context || source.url || ''
+}
+
 /**
  * 验证Notion配置
  */
@@ -403,15 +804,20 @@ export function validateNotionConfig(config: Partial<NotionIntegrationConfig>):
 
   if (!config.fieldMapping) {
     errors.push('字段映射配置不能为空')
-  } else {
-    const requiredFields = ['wordField', 'translationField', 'contextField', 'sourceUrlField']
-    for (const field of requiredFields) {
-      if (!config.fieldMapping[field as keyof NotionDatabaseFields]) {
-        errors.push(`缺少必需的字段映射: ${field}`)
-      }
-    }
+  } else if (!Object.values(config.fieldMapping).some(Boolean)) {
+    errors.push('至少需要映射一个字段')
   }
 
+  config.targets?.forEach(target => {
+    const name = target.name || target.databaseId || target.id
+    if (!target.databaseId) {
+      errors.push(`同步目标「${name}」的数据库ID 不能为空`)
+    }
+    if (!target.rules.some(rule => Object.values(rule).some(value => value?.trim()))) {
+      errors.push(`同步目标「${name}」至少需要一条路由规则`)
+    }
+  })
+
   return {
     isValid: errors.length === 0,
     errors
@@ -0,0 +1,133 @@
+import type {
+  NotionDatabaseFields,
+  NotionPageRecord,
+  NotionRecord
+} from '@/entities/notion-record'
+
+/**
+ * 从 Notion 拉取的字段
+ */
+export type PulledField = 'tags' | 'notes' | 'proficiency'
+
+/**
+ * 拉取字段对应的字段映射
+ */
+const PULLED_FIELDS: Record<PulledField, keyof NotionDatabaseFields> = {
+  tags: 'tagsField',
+  notes: 'notesField',
+  proficiency: 'proficiencyField'
+}
+
+/**
+ * 查询编辑时间时向前多取的时长
+ * Notion 的 last_edited_time 只精确到分钟，重复拉取的页面会因字段相同被忽略
+ */
+export const PULL_OVERLAP_MS = 60 * 1000
+
+/**
+ * 同步冲突记录
+ */
+export interface NotionSyncConflict {
+  recordId: string
+  pageId: string
+  word: string
+  fields: PulledField[]
+  local: Pick<NotionRecord, PulledField>
+  remote: Pick<NotionRecord, PulledField>
+  /** 本地最后修改时间 */
+  localUpdatedAt: number
+  /** Notion 最后编辑时间 */
+  remoteEditedAt: number
+  /** 采用的一方（最后写入者优先） */
+  resolution: 'local' | 'remote'
+  resolvedAt: number
+}
+
+/**
+ * 拉取同步状态
+ */
+export interface NotionPullState {
+  /** 各同步目标上次拉取开始的时间 */
+  lastPulledAt: Record<string, number>
+  conflicts: NotionSyncConflict[]
+}
+
+/**
+ * 合并结果
+ */
+export interface PullMergeResult {
+  record: NotionRecord
+  /** 本地修改更新，需要推送到 Notion */
+  pushLocal: boolean
+  conflict?: NotionSyncConflict
+}
+
+/**
+ * 将 Notion 中的修改合并到本地记录，字段相同时返回 null
+ * 只比较已映射的字段；两边都有修改时按最后写入者优先并记录冲突
+ */
+export function mergeRemoteChanges(
+  local: NotionRecord,
+  remote: NotionPageRecord,
+  fieldMapping: Partial<NotionDatabaseFields>,
+  now = Date.now()
+): PullMergeResult | null {
+  // 推送时未设置的熟练度写入为 0
+  const localValue = (field: PulledField) => field === 'proficiency' ? local.proficiency ?? 0 : local[field]
+  const fields = (Object.keys(PULLED_FIELDS) as PulledField[])
+    .filter(field => !!fieldMapping[PULLED_FIELDS[field]])
+    .filter(field => !isSameValue(localValue(field), remote[field]))
+
+  if (fields.length === 0) return null
+
+  const remoteValues = pickFields(remote, fields)
+  const localUpdatedAt = local.updatedAt ?? 0
+  const localChanged = localUpdatedAt > (local.lastSyncAt ?? 0)
+
+  if (!localChanged) {
+    return {
+      record: { ...local, ...remoteValues, lastSyncAt: now },
+      pushLocal: false
+    }
+  }
+
+  const resolution = remote.lastEditedAt > localUpdatedAt ? 'remote' : 'local'
+  const conflict: NotionSyncConflict = {
+    recordId: local.id,
+    pageId: remote.pageId,
+    word: remote.word || local.word.text,
+    fields,
+    local: pickFields(local, fields),
+    remote: remoteValues,
+    localUpdatedAt,
+    remoteEditedAt: remote.lastEditedAt,
+    resolution,
+    resolvedAt: now
+  }
+
+  return resolution === 'remote'
+    ? { record: { ...local, ...remoteValues, lastSyncAt: now }, pushLocal: false, conflict }
+    : { record: local, pushLocal: true, conflict }
+}
+
+function pickFields(source: Partial<Pick<NotionRecord, PulledField>>, fields: PulledField[]) {
+  const values: Partial<Pick<NotionRecord, PulledField>> = {}
+  fields.forEach(field => copyField(values, source, field))
+  return values
+}
+
+function copyField<T, K extends keyof T>(target: T, source: T, key: K): void {
+  target[key] = source[key]
+}
+
+/**
+ * 比较字段值（标签忽略顺序，空值视为相同）
+ */
+function isSameValue(a: unknown, b: unknown): boolean {
+  if (Array.isArray(a) || Array.isArray(b)) {
+    const left = [...((a as string[]) || [])].sort()
+    const right = [...((b as string[]) || [])].sort()
+    return left.length === right.length && left.every((value, index) => value === right[index])
+  }
+  return (a ?? '') === (b ?? '')
+}
@@ -0,0 +1,69 @@
+import type { NotionRecord } from '@/entities/notion-record'
+import type { NotionRoutingRule, NotionTarget } from '@/entities/user-config'
+
+/**
+ * 默认同步目标（notionIntegration 中的主数据库）
+ */
+export const DEFAULT_TARGET_ID = 'default'
+
+/**
+ * 判断记录是否满足路由规则（规则中的所有条件都要满足，空规则不匹配）
+ */
+export function matchesRoutingRule(rule: NotionRoutingRule, record: NotionRecord): boolean {
+  const results: boolean[] = []
+
+  if (rule.sourceLanguage) {
+    const language = record.translation.originalWord?.language || record.word.language
+    results.push(matchesLanguage(rule.sourceLanguage, language))
+  }
+  if (rule.targetLanguage) {
+    results.push(matchesLanguage(rule.targetLanguage, record.translation.result.targetLanguage))
+  }
+  if (rule.sourceDomain) {
+    results.push(matchesDomain(rule.sourceDomain, getRecordDomain(record)))
+  }
+  if (rule.tag) {
+    const tag = rule.tag.trim().toLowerCase()
+    results.push((record.tags || []).some(item => item.toLowerCase() === tag))
+  }
+
+  return results.length > 0 && results.every(Boolean)
+}
+
+/**
+ * 选择记录的同步目标：按顺序匹配各目标的规则，都不匹配时使用默认目标
+ */
+export function resolveTargetId(record: NotionRecord, targets: NotionTarget[] = []): string {
+  const target = targets.find(item => item.rules.some(rule => matchesRoutingRule(rule, record)))
+  return target?.id ?? DEFAULT_TARGET_ID
+}
+
+/**
+ * 语言匹配（不区分大小写，"en" 匹配 "en-US"）
+ */
+function matchesLanguage(expected: string, actual: string | undefined): boolean {
+  if (!actual) return false
+  const a = expected.trim().toLowerCase()
+  const b = actual.toLowerCase()
+  return b === a || b.startsWith(`${a}-`)
+}
+
+/**
+ * 域名匹配（包含子域名）
+ */
+function matchesDomain(expected: string, actual: string): boolean {
+  const domain = expected.trim().toLowerCase().replace(/^www\./, '')
+  const host = actual.toLowerCase().replace(/^www\./, '')
+  return !!host && (host === domain || host.endsWith(`.${domain}`))
+}
+
+function getRecordDomain(record: NotionRecord): string {
+  const { domain, url } = record.word.source
+  if (domain) return domain
+
+  try {
+    return new URL(url).hostname
+  } catch {
+    return ''
+  }
+}
@@ -0,0 +1,72 @@
+import { TypedStorage } from '@/shared/lib/storage'
+import { STORAGE_KEYS } from '@/shared/config/constants'
+import type { NotionRecord } from '@/entities/notion-record'
+import type { NotionPullState, NotionSyncConflict } from './pull-sync'
+
+/**
+ * 冲突日志最多保留的条数
+ */
+const MAX_CONFLICT_LOG_SIZE = 100
+
+/**
+ * 本地单词库：保存已同步到 Notion 的记录（按页面ID对应）
+ */
+export class LocalWordStore {
+  private storage = new TypedStorage<NotionRecord[]>(STORAGE_KEYS.WORD_STORE, [])
+  private stateStorage = new TypedStorage<NotionPullState>(STORAGE_KEYS.NOTION_SYNC_STATE, {
+    lastPulledAt: {},
+    conflicts: []
+  })
+
+  /**
+   * 获取全部记录
+   */
+  getAll(): Promise<NotionRecord[]> {
+    return this.storage.get()
+  }
+
+  /**
+   * 按 Notion 页面ID 查找记录
+   */
+  async findByPageId(pageId: string): Promise<NotionRecord | undefined> {
+    const records = await this.storage.get()
+    return records.find(record => record.notionPageId === pageId)
+  }
+
+  /**
+   * 新增或替换记录（按记录ID）
+   */
+  async upsert(records: NotionRecord[]): Promise<void> {
+    if (records.length === 0) return
+
+    await this.storage.update(current => {
+      const updated = new Map(current.map(record => [record.id, record]))
+      records.forEach(record => updated.set(record.id, record))
+      return Array.from(updated.values())
+    })
+  }
+
+  /**
+   * 获取拉取状态
+   */
+  getState(): Promise<NotionPullState> {
+    return this.stateStorage.get()
+  }
+
+  /**
+   * 更新同步目标的上次拉取时间并追加冲突日志
+   */
+  async savePullResult(targetId: string, lastPulledAt: number, conflicts: NotionSyncConflict[]): Promise<void> {
+    await this.stateStorage.update(state => ({
+      lastPulledAt: { ...state.lastPulledAt, [targetId]: lastPulledAt },
+      conflicts: [...state.conflicts, ...conflicts].slice(-MAX_CONFLICT_LOG_SIZE)
+    }))
+  }
+
+  /**
+   * 清空冲突日志
+   */
+  async clearConflicts(): Promise<void> {
+    await this.stateStorage.update(state => ({ ...state, conflicts: [] }))
+  }
+}
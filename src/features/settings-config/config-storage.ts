@@ -0,0 +1,85 @@
+import { TypedStorage, type StorageArea } from '@/shared/lib/storage'
+import { SecretVault, SecretVaultLockedError } from '@/shared/lib/secret-vault'
+import {
+  applySecrets,
+  extractSecrets,
+  DEFAULT_USER_CONFIG,
+  type UserConfig
+} from '@/entities/user-config'
+import { STORAGE_KEYS } from '@/shared/config/constants'
+
+/**
+ * 旧版本选项页保存配置使用的存储键
+ */
+const LEGACY_USER_CONFIG_KEY = 'user-config'
+
+/**
+ * 用户配置存储
+ * API 密钥和 Notion Token 加密保存在密钥库中，STORAGE_KEYS.USER_CONFIG 中只保存不含密钥的配置
+ */
+export class SecureConfigStorage {
+  private storage: TypedStorage<UserConfig>
+  private legacyStorage: TypedStorage<Partial<UserConfig> | null>
+  private migration: Promise<void> | null = null
+
+  constructor(readonly vault = new SecretVault(), area?: StorageArea) {
+    this.storage = new TypedStorage(STORAGE_KEYS.USER_CONFIG, DEFAULT_USER_CONFIG, area)
+    this.legacyStorage = new TypedStorage<Partial<UserConfig> | null>(LEGACY_USER_CONFIG_KEY, null, area)
+  }
+
+  /**
+   * 读取配置并填入解密后的密钥（密钥库锁定时密钥为空）
+   */
+  async get(): Promise<UserConfig> {
+    await this.migrateLegacyConfig()
+    const stored = await this.storage.get()
+    const { config, secrets: plaintext } = extractSecrets(stored)
+
+    let secrets: Record<string, string>
+    try {
+      secrets = await this.vault.getAll()
+    } catch (error) {
+      if (!(error instanceof SecretVaultLockedError)) throw error
+      return config
+    }
+
+    const merged = applySecrets(config, { ...secrets, ...plaintext })
+
+    // 迁移旧版本中明文保存的密钥
+    if (Object.keys(plaintext).length > 0) {
+      await this.set(merged)
+    }
+
+    return merged
+  }
+
+  /**
+   * 加密保存密钥后保存不含密钥的配置（密钥库锁定时抛出 SecretVaultLockedError）
+   */
+  async set(config: UserConfig): Promise<void> {
+    const { config: stripped, secrets } = extractSecrets(config)
+    await this.vault.setAll(secrets)
+    await this.storage.set(stripped)
+  }
+
+  /**
+   * 迁移旧版本选项页保存在 LEGACY_USER_CONFIG_KEY 中的配置（只执行一次）
+   * 旧版本的选项页和后台脚本使用了不同的存储键，选项页中保存的设置优先
+   */
+  private migrateLegacyConfig(): Promise<void> {
+    if (!this.migration) {
+      this.migration = (async () => {
+        const legacy = await this.legacyStorage.get()
+        if (!legacy) return
+
+        const current = await this.storage.get()
+        await this.storage.set({ ...current, ...legacy })
+        await this.legacyStorage.remove()
+      })().catch(error => {
+        this.migration = null
+        throw error
+      })
+    }
+    return this.migration
+  }
+}
@@ -1,2 +1,3 @@
 export * from './model'
-export { ConfigService } from './model' 
\ No newline at end of file
+export { ConfigService } from './model'
+export * from './config-storage'
\ No newline at end of file
@@ -1,12 +1,14 @@
-import { TypedStorage } from '@/shared/lib/storage'
 import { 
   createUserConfig, 
   updateUserConfig, 
   isValidUserConfig,
+  applySecrets,
+  extractSecrets,
+  redactSecrets,
   DEFAULT_USER_CONFIG,
   type UserConfig 
 } from '@/entities/user-config'
-import { STORAGE_KEYS } from '@/shared/config/constants'
+import { SecureConfigStorage } from './config-storage'
 
 /**
  * 配置变更事件
@@ -30,13 +32,11 @@ export interface ConfigValidationResult {
  * 配置管理服务
  */
 export class ConfigService {
-  private storage = new TypedStorage<UserConfig>(
-    STORAGE_KEYS.USER_CONFIG,
-    DEFAULT_USER_CONFIG
-  )
   private currentConfig: UserConfig = DEFAULT_USER_CONFIG
   private listeners: Array<(event: ConfigChangeEvent) => void> = []
 
+  constructor(private storage = new SecureConfigStorage()) {}
+
   /**
    * 初始化配置服务
    */
@@ -132,14 +132,15 @@ export class ConfigService {
   }
 
   /**
-   * 导出配置
+   * 导出配置（API 密钥和 Notion Token 以占位符代替）
    */
   exportConfig(): string {
-    return JSON.stringify(this.currentConfig, null, 2)
+    return JSON.stringify(redactSecrets(this.currentConfig), null, 2)
   }
 
   /**
    * 导入配置
+   * 文件中的密钥不会被导入：已配置的提供商和 Notion 数据库沿用密钥库中的密钥，新增的需要重新填写
    */
   async importConfig(configJson: string): Promise<UserConfig> {
     try {
@@ -151,7 +152,9 @@ export class ConfigService {
         throw new Error(`导入的配置无效: ${validation.errors.join(', ')}`)
       }
 
-      return await this.updateConfig(config)
+      // updateConfig 会替换密钥库中的全部密钥，先按密钥ID填回现有的密钥
+      const existingSecrets = await this.storage.vault.getAll()
+      return await this.updateConfig(applySecrets(extractSecrets(config).config, existingSecrets))
     } catch (error) {
       console.error('导入配置失败:', error)
       throw error
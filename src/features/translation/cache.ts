@@ -0,0 +1,302 @@
+import type { Translation, TranslationProvider } from '@/entities/translation'
+import { DEFAULT_VALUES, EXTENSION_EVENTS } from '@/shared/config/constants'
+import { openDatabase, requestToPromise, runTransaction } from '@/shared/lib/indexed-db'
+import { MessageBus } from '@/shared/lib/messaging'
+
+/**
+ * 缓存统计
+ */
+export interface TranslationCacheStats {
+  /** 缓存条目数 */
+  size: number
+  /** 命中率（0-1） */
+  hitRate: number
+  /** 总请求数 */
+  totalRequests: number
+  /** 命中次数 */
+  hits: number
+  /** 未命中次数 */
+  misses: number
+  /** 按提供商统计的条目数 */
+  byProvider: Record<string, number>
+  /** 按目标语言统计的条目数 */
+  byLanguage: Record<string, number>
+}
+
+/**
+ * 缓存清理条件
+ */
+export interface TranslationCacheFilter {
+  provider?: TranslationProvider
+  targetLanguage?: string
+}
+
+/**
+ * 翻译缓存接口
+ */
+export interface TranslationCache {
+  get(key: string): Promise<Translation | null>
+  set(key: string, translation: Translation): Promise<void>
+  clear(filter?: TranslationCacheFilter): Promise<void>
+  getStats(): Promise<TranslationCacheStats>
+}
+
+/**
+ * 翻译缓存消息协议
+ */
+export type TranslationCacheMessageMap = {
+  [EXTENSION_EVENTS.TRANSLATION_CACHE_GET]: {
+    request: { key: string }
+    response: Translation | null
+  }
+  [EXTENSION_EVENTS.TRANSLATION_CACHE_SET]: {
+    request: { key: string; translation: Translation }
+    response: void
+  }
+  [EXTENSION_EVENTS.TRANSLATION_CACHE_STATS]: {
+    request: Record<string, never>
+    response: TranslationCacheStats
+  }
+  [EXTENSION_EVENTS.TRANSLATION_CACHE_CLEAR]: {
+    request: { filter?: TranslationCacheFilter }
+    response: void
+  }
+}
+
+/**
+ * 缓存记录
+ */
+interface TranslationCacheRecord {
+  key: string
+  translation: Translation
+  provider: TranslationProvider
+  targetLanguage: string
+  timestamp: number
+  accessCount: number
+}
+
+/**
+ * 命中统计记录
+ */
+interface CacheCounterRecord {
+  key: 'counters'
+  hits: number
+  misses: number
+}
+
+const DB_NAME = 'notions-words-translation-cache'
+const DB_VERSION = 1
+const ENTRY_STORE = 'entries'
+const META_STORE = 'meta'
+
+/**
+ * 基于 IndexedDB 的持久化翻译缓存（运行在后台脚本中，所有标签页共享）
+ */
+export class IndexedDBTranslationCache implements TranslationCache {
+  private dbPromise: Promise<IDBDatabase> | null = null
+
+  constructor(
+    private maxSize: number = DEFAULT_VALUES.MAX_CACHE_SIZE,
+    private expiryTime: number = 24 * 60 * 60 * 1000 // 24小时
+  ) {}
+
+  /**
+   * 获取缓存的翻译
+   */
+  async get(key: string): Promise<Translation | null> {
+    const db = await this.openDatabase()
+    const record = await requestToPromise<TranslationCacheRecord | undefined>(
+      db.transaction(ENTRY_STORE).objectStore(ENTRY_STORE).get(key)
+    )
+
+    const expired = record && Date.now() - record.timestamp > this.expiryTime
+    const hit = !!record && !expired
+
+    await runTransaction(db, [ENTRY_STORE, META_STORE], 'readwrite', tx => {
+      if (record && expired) {
+        tx.objectStore(ENTRY_STORE).delete(key)
+      } else if (record) {
+        tx.objectStore(ENTRY_STORE).put({ ...record, accessCount: record.accessCount + 1 })
+      }
+      this.incrementCounter(tx, hit)
+    })
+
+    return hit ? record!.translation : null
+  }
+
+  /**
+   * 写入缓存
+   */
+  async set(key: string, translation: Translation): Promise<void> {
+    const db = await this.openDatabase()
+    const size = await requestToPromise<number>(
+      db.transaction(ENTRY_STORE).objectStore(ENTRY_STORE).count()
+    )
+
+    // 如果缓存已满，删除最少使用的项
+    if (size >= this.maxSize) {
+      await this.evictLeastUsedItems(db)
+    }
+
+    const record: TranslationCacheRecord = {
+      key,
+      translation,
+      provider: translation.provider,
+      targetLanguage: translation.result.targetLanguage,
+      timestamp: Date.now(),
+      accessCount: 1
+    }
+
+    await runTransaction(db, [ENTRY_STORE], 'readwrite', tx => {
+      tx.objectStore(ENTRY_STORE).put(record)
+    })
+  }
+
+  /**
+   * 清理缓存（可按提供商或目标语言筛选）
+   */
+  async clear(filter?: TranslationCacheFilter): Promise<void> {
+    const db = await this.openDatabase()
+
+    if (!filter?.provider && !filter?.targetLanguage) {
+      await runTransaction(db, [ENTRY_STORE, META_STORE], 'readwrite', tx => {
+        tx.objectStore(ENTRY_STORE).clear()
+        tx.objectStore(META_STORE).delete('counters')
+      })
+      return
+    }
+
+    const records = await this.getAllRecords(db)
+    const toDelete = records.filter(record =>
+      (!filter.provider || record.provider === filter.provider) &&
+      (!filter.targetLanguage || record.targetLanguage === filter.targetLanguage)
+    )
+
+    await runTransaction(db, [ENTRY_STORE], 'readwrite', tx => {
+      const store = tx.objectStore(ENTRY_STORE)
+      toDelete.forEach(record => store.delete(record.key))
+    })
+  }
+
+  /**
+   * 获取缓存统计
+   */
+  async getStats(): Promise<TranslationCacheStats> {
+    const db = await this.openDatabase()
+    const [records, counters] = await Promise.all([
+      this.getAllRecords(db),
+      requestToPromise<CacheCounterRecord | undefined>(
+        db.transaction(META_STORE).objectStore(META_STORE).get('counters')
+      )
+    ])
+
+    const byProvider: Record<string, number> = {}
+    const byLanguage: Record<string, number> = {}
+    records.forEach(record => {
+      byProvider[record.provider] = (byProvider[record.provider] || 0) + 1
+      byLanguage[record.targetLanguage] = (byLanguage[record.targetLanguage] || 0) + 1
+    })
+
+    const hits = counters?.hits || 0
+    const misses = counters?.misses || 0
+    const totalRequests = hits + misses
+
+    return {
+      size: records.length,
+      hitRate: totalRequests > 0 ? hits / totalRequests : 0,
+      totalRequests,
+      hits,
+      misses,
+      byProvider,
+      byLanguage
+    }
+  }
+
+  /**
+   * 更新命中计数
+   */
+  private incrementCounter(tx: IDBTransaction, hit: boolean): void {
+    const store = tx.objectStore(META_STORE)
+    const request = store.get('counters')
+    request.onsuccess = () => {
+      const counters: CacheCounterRecord = request.result || { key: 'counters', hits: 0, misses: 0 }
+      if (hit) counters.hits++
+      else counters.misses++
+      store.put(counters)
+    }
+  }
+
+  /**
+   * 清理最少使用的缓存项
+   */
+  private async evictLeastUsedItems(db: IDBDatabase): Promise<void> {
+    const records = await this.getAllRecords(db)
+
+    // 优先清理访问次数少的，访问次数相同时清理较旧的
+    records.sort((a, b) => {
+      if (a.accessCount !== b.accessCount) {
+        return a.accessCount - b.accessCount
+      }
+      return a.timestamp - b.timestamp
+    })
+
+    // 删除前10%的项
+    const toDelete = records.slice(0, Math.ceil(records.length * 0.1))
+    await runTransaction(db, [ENTRY_STORE], 'readwrite', tx => {
+      const store = tx.objectStore(ENTRY_STORE)
+      toDelete.forEach(record => store.delete(record.key))
+    })
+  }
+
+  /**
+   * 读取全部缓存记录
+   */
+  private getAllRecords(db: IDBDatabase): Promise<TranslationCacheRecord[]> {
+    return requestToPromise<TranslationCacheRecord[]>(
+      db.transaction(ENTRY_STORE).objectStore(ENTRY_STORE).getAll()
+    )
+  }
+
+  /**
+   * 打开数据库
+   */
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = openDatabase(DB_NAME, DB_VERSION, db => {
+        if (!db.objectStoreNames.contains(ENTRY_STORE)) {
+          db.createObjectStore(ENTRY_STORE, { keyPath: 'key' })
+        }
+        if (!db.objectStoreNames.contains(META_STORE)) {
+          db.createObjectStore(META_STORE, { keyPath: 'key' })
+        }
+      }).catch(error => {
+        this.dbPromise = null
+        throw error
+      })
+    }
+    return this.dbPromise
+  }
+}
+
+/**
+ * 通过消息访问后台脚本中的共享缓存（用于内容脚本和选项页）
+ */
+export class RuntimeTranslationCache implements TranslationCache {
+  constructor(private bus = new MessageBus<TranslationCacheMessageMap>()) {}
+
+  async get(key: string): Promise<Translation | null> {
+    return this.bus.request(EXTENSION_EVENTS.TRANSLATION_CACHE_GET, { key })
+  }
+
+  async set(key: string, translation: Translation): Promise<void> {
+    await this.bus.request(EXTENSION_EVENTS.TRANSLATION_CACHE_SET, { key, translation })
+  }
+
+  async clear(filter?: TranslationCacheFilter): Promise<void> {
+    await this.bus.request(EXTENSION_EVENTS.TRANSLATION_CACHE_CLEAR, { filter })
+  }
+
+  async getStats(): Promise<TranslationCacheStats> {
+    return this.bus.request(EXTENSION_EVENTS.TRANSLATION_CACHE_STATS, {})
+  }
+}
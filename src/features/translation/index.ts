@@ -1,2 +1,3 @@
 export * from './model'
-export { TranslationService } from './model' 
\ No newline at end of file
+export { TranslationService } from './model'
+export * from './cache' 
\ No newline at end of file
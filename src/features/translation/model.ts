@@ -1,7 +1,18 @@
 import { TranslationServiceManager } from '@/shared/api/translation'
 import type { Word } from '@/entities/word'
-import type { Translation, TranslationProvider } from '@/entities/translation'
+import {
+  getBestTranslation,
+  type Translation,
+  type TranslationComparison,
+  type TranslationProvider
+} from '@/entities/translation'
 import type { UserConfig, TranslationApiConfig } from '@/entities/user-config'
+import {
+  RuntimeTranslationCache,
+  type TranslationCache,
+  type TranslationCacheFilter,
+  type TranslationCacheStats
+} from './cache'
 
 /**
  * 翻译状态
@@ -23,25 +34,15 @@ export interface TranslationEvent {
   error?: string
 }
 
-/**
- * 翻译缓存项
- */
-interface TranslationCacheItem {
-  translation: Translation
-  timestamp: number
-  accessCount: number
-}
-
 /**
  * 翻译服务
  */
 export class TranslationService {
   private serviceManager = new TranslationServiceManager()
-  private cache = new Map<string, TranslationCacheItem>()
   private listeners: Array<(event: TranslationEvent) => void> = []
   private currentConfig: UserConfig | null = null
-  private maxCacheSize = 1000
-  private cacheExpiryTime = 24 * 60 * 60 * 1000 // 24小时
+
+  constructor(private cache: TranslationCache = new RuntimeTranslationCache()) {}
 
   /**
    * 初始化翻译服务
@@ -61,9 +62,9 @@ export class TranslationService {
   ): Promise<Translation> {
     const target = targetLanguage || this.currentConfig?.defaultTargetLanguage || 'zh-CN'
     
-    // 检查缓存
-    const cacheKey = this.getCacheKey(word.text, word.language, target)
-    const cached = this.getFromCache(cacheKey)
+    // 检查缓存（指定提供商时只使用该提供商的缓存）
+    const cacheKey = this.getCacheKey(word.text, word.language, target, preferredProvider)
+    const cached = await this.readCache(cacheKey)
     if (cached) {
       this.notifyListeners({
         type: 'translation_completed',
@@ -96,8 +97,13 @@ export class TranslationService {
         preferredProvider
       )
 
-      // 缓存结果
-      this.addToCache(cacheKey, translation)
+      // 缓存结果（指定的提供商失败时，结果来自其他提供商，按实际提供商缓存）
+      await this.writeCache(
+        preferredProvider
+          ? this.getCacheKey(word.text, word.language, target, translation.provider)
+          : cacheKey,
+        translation
+      )
 
       // 通知完成
       this.notifyListeners({
@@ -121,6 +127,70 @@ export class TranslationService {
     }
   }
 
+  /**
+   * 对比翻译：同时请求所有启用的提供商
+   */
+  async compareWord(
+    word: Word,
+    targetLanguage?: string,
+    providers?: TranslationProvider[]
+  ): Promise<TranslationComparison> {
+    const target = targetLanguage || this.currentConfig?.defaultTargetLanguage || 'zh-CN'
+
+    this.notifyListeners({
+      type: 'translation_started',
+      word
+    })
+
+    try {
+      let sourceLanguage = word.language
+      if (sourceLanguage === 'auto') {
+        sourceLanguage = await this.serviceManager.detectLanguage(word.text)
+      }
+
+      const updatedWord: Word = { ...word, language: sourceLanguage }
+      const comparison = await this.serviceManager.compareTranslations(updatedWord, target, providers)
+
+      const best = getBestTranslation(comparison)
+      if (!best) {
+        throw new Error('所有翻译API都不可用')
+      }
+
+      // 缓存置信度最高的结果，供普通翻译模式复用；各提供商的结果供切换提供商时复用
+      await this.writeCache(this.getCacheKey(word.text, word.language, target), best)
+      for (const { provider, translation } of comparison.results) {
+        if (translation) {
+          await this.writeCache(this.getCacheKey(word.text, word.language, target, provider), translation)
+        }
+      }
+
+      this.notifyListeners({
+        type: 'translation_completed',
+        word: updatedWord,
+        translation: best
+      })
+
+      return comparison
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : '翻译失败'
+
+      this.notifyListeners({
+        type: 'translation_failed',
+        word,
+        error: errorMessage
+      })
+
+      throw error
+    }
+  }
+
+  /**
+   * 检测语言
+   */
+  async detectLanguage(text: string): Promise<string> {
+    return this.serviceManager.detectLanguage(text)
+  }
+
   /**
    * 批量翻译
    */
@@ -173,26 +243,17 @@ export class TranslationService {
   }
 
   /**
-   * 清理缓存
+   * 清理缓存（可按提供商或目标语言筛选）
    */
-  clearCache(): void {
-    this.cache.clear()
+  async clearCache(filter?: TranslationCacheFilter): Promise<void> {
+    await this.cache.clear(filter)
   }
 
   /**
    * 获取缓存统计
    */
-  getCacheStats(): {
-    size: number
-    hitRate: number
-    totalRequests: number
-  } {
-    // 这里可以添加更详细的统计逻辑
-    return {
-      size: this.cache.size,
-      hitRate: 0, // TODO: 实现命中率计算
-      totalRequests: 0 // TODO: 实现请求计数
-    }
+  async getCacheStats(): Promise<TranslationCacheStats> {
+    return this.cache.getStats()
   }
 
   /**
@@ -202,82 +263,43 @@ export class TranslationService {
     this.serviceManager.clear()
     
     config.translationApis.forEach(apiConfig => {
-      if (apiConfig.enabled) {
-        this.serviceManager.registerAPI(apiConfig)
-      }
+      this.serviceManager.registerAPI(apiConfig)
     })
   }
 
   /**
-   * 生成缓存键
+   * 生成缓存键（指定提供商时加上提供商前缀）
    */
-  private getCacheKey(text: string, sourceLanguage: string, targetLanguage: string): string {
-    return `${text}|${sourceLanguage}|${targetLanguage}`.toLowerCase()
+  private getCacheKey(
+    text: string,
+    sourceLanguage: string,
+    targetLanguage: string,
+    provider?: TranslationProvider
+  ): string {
+    const key = `${text}|${sourceLanguage}|${targetLanguage}`.toLowerCase()
+    return provider ? `${provider}|${key}` : key
   }
 
   /**
-   * 从缓存获取翻译
+   * 从缓存获取翻译（缓存不可用时视为未命中）
    */
-  private getFromCache(key: string): Translation | null {
-    const item = this.cache.get(key)
-    if (!item) return null
-
-    // 检查是否过期
-    if (Date.now() - item.timestamp > this.cacheExpiryTime) {
-      this.cache.delete(key)
+  private async readCache(key: string): Promise<Translation | null> {
+    try {
+      return await this.cache.get(key)
+    } catch (error) {
+      console.warn('读取翻译缓存失败:', error)
       return null
     }
-
-    // 更新访问计数
-    item.accessCount++
-    
-    return item.translation
-  }
-
-  /**
-   * 添加到缓存
-   */
-  private addToCache(key: string, translation: Translation): void {
-    // 如果缓存已满，删除最少使用的项
-    if (this.cache.size >= this.maxCacheSize) {
-      this.evictLeastUsedItems()
-    }
-
-    this.cache.set(key, {
-      translation,
-      timestamp: Date.now(),
-      accessCount: 1
-    })
   }
 
   /**
-   * 清理最少使用的缓存项
+   * 写入缓存（失败不影响翻译结果）
    */
-  private evictLeastUsedItems(): void {
-    const entries = Array.from(this.cache.entries())
-    
-    // 按访问次数和时间排序
-    entries.sort((a, b) => {
-      const [, itemA] = a
-      const [, itemB] = b
-      
-      // 优先清理访问次数少的
-      if (itemA.accessCount !== itemB.accessCount) {
-        return itemA.accessCount - itemB.accessCount
-      }
-      
-      // 访问次数相同时，清理较旧的
-      return itemA.timestamp - itemB.timestamp
-    })
-
-    // 删除前10%的项
-    const toDelete = Math.ceil(entries.length * 0.1)
-    for (let i = 0; i < toDelete && i < entries.length; i++) {
-      const entry = entries[i]
-      if (entry) {
-        const [key] = entry
-        this.cache.delete(key)
-      }
+  private async writeCache(key: string, translation: Translation): Promise<void> {
+    try {
+      await this.cache.set(key, translation)
+    } catch (error) {
+      console.warn('写入翻译缓存失败:', error)
     }
   }
 
@@ -299,7 +321,6 @@ export class TranslationService {
    */
   destroy(): void {
     this.serviceManager.clear()
-    this.cache.clear()
     this.listeners = []
   }
 }
@@ -0,0 +1,56 @@
+/**
+ * Notion API错误
+ */
+export class NotionAPIError extends Error {
+  /** HTTP 状态码（网络错误时为空） */
+  readonly status?: number
+  /** Notion 错误码，例如 rate_limited、object_not_found */
+  readonly code?: string
+  /** 是否可以重试（429、5xx 和网络错误） */
+  readonly retryable: boolean
+  /** 服务端要求的重试等待时间（毫秒） */
+  readonly retryAfter?: number
+
+  constructor(params: {
+    message: string
+    status?: number
+    code?: string
+    retryable: boolean
+    retryAfter?: number
+  }) {
+    super(params.message)
+    this.name = 'NotionAPIError'
+    this.status = params.status
+    this.code = params.code
+    this.retryable = params.retryable
+    this.retryAfter = params.retryAfter
+  }
+}
+
+/**
+ * 判断是否为Notion API错误
+ */
+export function isNotionAPIError(error: unknown): error is NotionAPIError {
+  return error instanceof NotionAPIError
+}
+
+/**
+ * 判断HTTP状态码是否可以重试
+ */
+export function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500
+}
+
+/**
+ * 判断是否为授权失效（Token 无效、集成被移除或令牌被撤销）
+ */
+export function isUnauthorizedError(error: unknown): boolean {
+  return isNotionAPIError(error) && error.status === 401
+}
+
+/**
+ * 判断错误是否可以重试（未知错误按可重试处理，避免记录被永久丢弃）
+ */
+export function isRetryableError(error: unknown): boolean {
+  return isNotionAPIError(error) ? error.retryable : true
+}
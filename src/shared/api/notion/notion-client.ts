@@ -1,4 +1,30 @@
-import type { NotionRecord, NotionDatabaseFields } from '@/entities/notion-record'
+import {
+  PROFICIENCY_LEVELS,
+  fromNotionPage,
+  toNotionPageBlocks,
+  toNotionPageProperties,
+  toNotionProperties,
+  type NotionRecord,
+  type NotionDatabaseFields,
+  type NotionDatabaseSchema,
+  type NotionDatabaseProperty,
+  type NotionFieldKey,
+  type NotionFieldValue,
+  type NotionPageObject,
+  type NotionPageRecord
+} from '@/entities/notion-record'
+import { NotionAPIError, isNotionAPIError, isRetryableStatus } from './errors'
+import { RequestScheduler, getBackoffDelay, parseRetryAfter } from './request-scheduler'
+
+/**
+ * 可以按单词查询的单词字段属性类型
+ */
+const WORD_QUERY_TYPES = ['title', 'rich_text', 'select']
+
+/**
+ * 按单词精确查询时最多读取的页面数（只请求一页）
+ */
+const WORD_LOOKUP_PAGE_SIZE = 10
 
 /**
  * Notion API配置
@@ -19,6 +45,65 @@ interface NotionCreatePageResponse {
   properties: Record<string, any>
 }
 
+/**
+ * 数据库查询条件（多个条件同时满足）
+ */
+export interface NotionQuery {
+  /** 单词包含 */
+  word?: string
+  /** 创建时间范围 */
+  dateRange?: { start: string; end: string }
+  /** 包含任一标签 */
+  tags?: string[]
+  /** 熟练度范围（含边界） */
+  proficiency?: { min?: number; max?: number }
+  /** 来源域名 */
+  sourceDomain?: string
+  /** 在此时间之后编辑过的页面 */
+  editedAfter?: string
+  /** 排序，字段名或页面时间戳 */
+  sorts?: Array<{
+    field: NotionFieldKey | 'created_time' | 'last_edited_time'
+    direction: 'ascending' | 'descending'
+  }>
+}
+
+/**
+ * 集成可以访问的数据库
+ */
+export interface NotionDatabaseSummary {
+  id: string
+  title: string
+  url: string
+}
+
+interface NotionSearchResponse {
+  results: Array<{
+    id: string
+    url: string
+    title: Array<{ plain_text: string }>
+  }>
+  has_more: boolean
+  next_cursor: string | null
+}
+
+interface NotionQueryResponse {
+  results: NotionPageObject[]
+  has_more: boolean
+  next_cursor: string | null
+}
+
+interface NotionDatabaseResponse {
+  id: string
+  title: Array<{ plain_text: string }>
+  properties: Record<string, {
+    id: string
+    name: string
+    type: string
+    [type: string]: any
+  }>
+}
+
 interface NotionErrorResponse {
   object: 'error'
   status: number
@@ -26,6 +111,32 @@ interface NotionErrorResponse {
   message: string
 }
 
+/**
+ * 新建生词本数据库时各字段的属性定义
+ */
+const VOCABULARY_DATABASE_PROPERTIES: Record<NotionFieldKey, Record<string, any>> = {
+  wordField: { title: {} },
+  translationField: { rich_text: {} },
+  contextField: { rich_text: {} },
+  sourceUrlField: { url: {} },
+  tagsField: { multi_select: { options: [] } },
+  notesField: { rich_text: {} },
+  proficiencyField: {
+    select: { options: PROFICIENCY_LEVELS.map(level => ({ name: String(level) })) }
+  },
+  createdAtField: { date: {} }
+}
+
+/**
+ * 单个请求的最大重试次数（不含首次请求）
+ */
+const MAX_REQUEST_RETRIES = 2
+
+/**
+ * 所有客户端共享的请求调度器（Notion 限制平均约 3 次/秒）
+ */
+const notionScheduler = new RequestScheduler({ requestsPerSecond: 3 })
+
 /**
  * Notion API客户端
  */
@@ -33,6 +144,7 @@ export class NotionClient {
   private config: NotionConfig
   private readonly baseUrl = 'https://api.notion.com/v1'
   private readonly version = '2022-06-28'
+  private schemaPromise: Promise<NotionDatabaseSchema> | null = null
 
   constructor(config: NotionConfig) {
     this.config = config
@@ -43,7 +155,7 @@ export class NotionClient {
    */
   async createPage(record: NotionRecord): Promise<string> {
     try {
-      const properties = this.buildPageProperties(record)
+      const properties = await this.buildPageProperties(record)
       
       const response = await this.makeRequest('/pages', {
         method: 'POST',
@@ -51,76 +163,249 @@ export class NotionClient {
           parent: {
             database_id: this.config.databaseId
           },
-          properties
+          properties,
+          children: toNotionPageBlocks(record)
         })
       })
 
-      if (!response.ok) {
-        const error: NotionErrorResponse = await response.json()
-        throw new Error(`Notion API错误: ${error.message}`)
-      }
-
       const data: NotionCreatePageResponse = await response.json()
       return data.id
     } catch (error) {
+      if (isNotionAPIError(error)) throw error
       throw new Error(`创建Notion页面失败: ${error}`)
     }
   }
 
   /**
-   * 查询数据库中的页面
+   * 查询数据库中的全部匹配页面
    */
-  async queryDatabase(filter?: {
-    word?: string
-    dateRange?: { start: string; end: string }
-  }): Promise<any[]> {
-    try {
-      const body: any = {
-        page_size: 100
-      }
+  async queryDatabase(query: NotionQuery = {}): Promise<NotionPageRecord[]> {
+    const records: NotionPageRecord[] = []
+    for await (const record of this.iterateDatabase(query)) {
+      records.push(record)
+    }
+    return records
+  }
 
-      if (filter) {
-        body.filter = this.buildFilter(filter)
-      }
+  /**
+   * 单词字段是否映射到可以按单词查询的属性
+   */
+  async canQueryByWord(): Promise<boolean> {
+    return !!(await this.loadWordProperty())
+  }
 
-      const response = await this.makeRequest(`/databases/${this.config.databaseId}/query`, {
-        method: 'POST',
-        body: JSON.stringify(body)
-      })
+  /**
+   * 按单词精确查询（单词字段等于任一写法），只读取第一页
+   * 用于保存前去重：按包含匹配时，常见的短单词会读取数据库中的大部分页面
+   */
+  async findPagesByWord(words: string[]): Promise<NotionPageRecord[]> {
+    const property = await this.loadWordProperty()
+    if (!property) {
+      throw new Error('单词字段未映射到文本或单选属性，无法按单词查询')
+    }
 
-      if (!response.ok) {
-        const error: NotionErrorResponse = await response.json()
-        throw new Error(`Notion API错误: ${error.message}`)
+    const conditions = Array.from(new Set(words.filter(Boolean)))
+      .map(word => ({ property: property.name, [property.type]: { equals: word } }))
+    if (conditions.length === 0) return []
+
+    const data = await this.requestQuery({
+      page_size: WORD_LOOKUP_PAGE_SIZE,
+      filter: conditions.length === 1 ? conditions[0] : { or: conditions }
+    })
+    return data.results.map(page => fromNotionPage(page, this.config.fieldMapping))
+  }
+
+  /**
+   * 逐页查询数据库（按 next_cursor 翻页，每页最多 100 条）
+   */
+  async *iterateDatabase(query: NotionQuery = {}): AsyncGenerator<NotionPageRecord> {
+    let cursor: string | undefined
+
+    do {
+      const body: Record<string, any> = {
+        page_size: 100,
+        ...(await this.buildQuery(query))
+      }
+      if (cursor) {
+        body.start_cursor = cursor
       }
 
-      const data = await response.json()
-      return data.results
-    } catch (error) {
-      throw new Error(`查询Notion数据库失败: ${error}`)
-    }
+      const data = await this.requestQuery(body)
+      for (const page of data.results) {
+        yield fromNotionPage(page, this.config.fieldMapping)
+      }
+
+      cursor = data.has_more && data.next_cursor ? data.next_cursor : undefined
+    } while (cursor)
   }
 
   /**
    * 更新页面
    */
   async updatePage(pageId: string, updates: Partial<NotionRecord>): Promise<void> {
+    const values: Partial<Record<NotionFieldKey, NotionFieldValue>> = {}
+
+    if (updates.tags) {
+      values.tagsField = updates.tags
+    }
+
+    if (updates.notes) {
+      values.notesField = updates.notes
+    }
+
+    if (updates.proficiency !== undefined) {
+      values.proficiencyField = updates.proficiency
+    }
+
+    await this.updatePageFields(pageId, values)
+  }
+
+  /**
+   * 按字段更新页面属性
+   */
+  async updatePageFields(
+    pageId: string,
+    values: Partial<Record<NotionFieldKey, NotionFieldValue>>
+  ): Promise<void> {
     try {
-      const properties = this.buildUpdateProperties(updates)
-      
-      const response = await this.makeRequest(`/pages/${pageId}`, {
+      const schema = await this.loadSchema()
+      const properties = toNotionProperties(values, this.config.fieldMapping, schema)
+      if (Object.keys(properties).length === 0) return
+
+      await this.makeRequest(`/pages/${pageId}`, {
         method: 'PATCH',
         body: JSON.stringify({ properties })
       })
+    } catch (error) {
+      if (isNotionAPIError(error)) throw error
+      throw new Error(`更新Notion页面失败: ${error}`)
+    }
+  }
 
-      if (!response.ok) {
-        const error: NotionErrorResponse = await response.json()
-        throw new Error(`Notion API错误: ${error.message}`)
+  /**
+   * 读取数据库结构（字段名称、类型和选项）
+   */
+  async getDatabaseSchema(): Promise<NotionDatabaseSchema> {
+    try {
+      const response = await this.makeRequest(`/databases/${this.config.databaseId}`, {
+        method: 'GET'
+      })
+
+      const data: NotionDatabaseResponse = await response.json()
+      return this.toDatabaseSchema(data)
+    } catch (error) {
+      if (isNotionAPIError(error)) throw error
+      throw new Error(`读取Notion数据库结构失败: ${error}`)
+    }
+  }
+
+  /**
+   * 列出已共享给集成的全部数据库
+   */
+  async searchDatabases(): Promise<NotionDatabaseSummary[]> {
+    const databases: NotionDatabaseSummary[] = []
+    let cursor: string | undefined
+
+    do {
+      let data: NotionSearchResponse
+      try {
+        const response = await this.makeRequest('/search', {
+          method: 'POST',
+          body: JSON.stringify({
+            filter: { property: 'object', value: 'database' },
+            page_size: 100,
+            ...(cursor ? { start_cursor: cursor } : {})
+          })
+        })
+        data = await response.json()
+      } catch (error) {
+        if (isNotionAPIError(error)) throw error
+        throw new Error(`列出Notion数据库失败: ${error}`)
+      }
+
+      data.results.forEach(database => {
+        databases.push({
+          id: database.id,
+          title: database.title.map(item => item.plain_text).join('') || '未命名数据库',
+          url: database.url
+        })
+      })
+
+      cursor = data.has_more && data.next_cursor ? data.next_cursor : undefined
+    } while (cursor)
+
+    return databases
+  }
+
+  /**
+   * 在指定页面下新建生词本数据库，字段名称使用当前的字段映射
+   */
+  async createDatabase(parentPageId: string, title = '生词本'): Promise<NotionDatabaseSchema> {
+    const mapping = this.config.fieldMapping
+    if (!mapping.wordField) {
+      throw new Error('新建数据库需要映射单词字段')
+    }
+
+    const properties: Record<string, any> = {}
+    ;(Object.keys(VOCABULARY_DATABASE_PROPERTIES) as NotionFieldKey[]).forEach(field => {
+      if (mapping[field]) {
+        properties[mapping[field]] = VOCABULARY_DATABASE_PROPERTIES[field]
       }
+    })
+
+    try {
+      const response = await this.makeRequest('/databases', {
+        method: 'POST',
+        body: JSON.stringify({
+          parent: {
+            type: 'page_id',
+            page_id: parentPageId
+          },
+          title: [{ type: 'text', text: { content: title } }],
+          properties
+        })
+      })
+
+      const data: NotionDatabaseResponse = await response.json()
+      return this.toDatabaseSchema(data)
     } catch (error) {
-      throw new Error(`更新Notion页面失败: ${error}`)
+      if (isNotionAPIError(error)) throw error
+      throw new Error(`创建Notion数据库失败: ${error}`)
     }
   }
 
+  /**
+   * 转换数据库响应为数据库结构
+   */
+  private toDatabaseSchema(data: NotionDatabaseResponse): NotionDatabaseSchema {
+    return {
+      id: data.id,
+      title: data.title.map(item => item.plain_text).join(''),
+      properties: Object.values(data.properties).map(property => {
+        const options = property[property.type]?.options as Array<{ name: string }> | undefined
+        return {
+          id: property.id,
+          name: property.name,
+          type: property.type,
+          ...(options ? { options: options.map(option => option.name) } : {})
+        }
+      })
+    }
+  }
+
+  /**
+   * 获取缓存的数据库结构（每个客户端只读取一次）
+   */
+  private loadSchema(): Promise<NotionDatabaseSchema> {
+    if (!this.schemaPromise) {
+      this.schemaPromise = this.getDatabaseSchema().catch(error => {
+        this.schemaPromise = null
+        throw error
+      })
+    }
+    return this.schemaPromise
+  }
+
   /**
    * 测试数据库连接
    */
@@ -139,6 +424,7 @@ export class NotionClient {
 
   /**
    * 发起API请求
+   * 请求经过共享调度器限速；429 按 Retry-After 暂停，5xx 和网络错误按指数退避重试
    */
   private async makeRequest(
     endpoint: string,
@@ -147,115 +433,199 @@ export class NotionClient {
       body?: string
     }
   ): Promise<Response> {
-    return fetch(`${this.baseUrl}${endpoint}`, {
-      method: options.method,
-      headers: {
-        'Authorization': `Bearer ${this.config.token}`,
-        'Content-Type': 'application/json',
-        'Notion-Version': this.version
-      },
-      body: options.body
-    })
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await notionScheduler.schedule(() => this.sendRequest(endpoint, options))
+      } catch (error) {
+        if (!isNotionAPIError(error) || !error.retryable || attempt >= MAX_REQUEST_RETRIES) {
+          throw error
+        }
+
+        const delay = error.retryAfter ?? getBackoffDelay(attempt)
+        if (error.status === 429) {
+          // 限流时暂停所有请求，而不只是当前请求
+          notionScheduler.pause(delay)
+        } else {
+          await new Promise(resolve => setTimeout(resolve, delay))
+        }
+      }
+    }
   }
 
   /**
-   * 构建页面属性
+   * 发送单个请求，失败时转换为 NotionAPIError
    */
-  private buildPageProperties(record: NotionRecord): Record<string, any> {
-    const { word, translation } = record
-    const mapping = this.config.fieldMapping
+  private async sendRequest(
+    endpoint: string,
+    options: {
+      method: string
+      body?: string
+    }
+  ): Promise<Response> {
+    let response: Response
+    try {
+      response = await fetch(`${this.baseUrl}${endpoint}`, {
+        method: options.method,
+        headers: {
+          'Authorization': `Bearer ${this.config.token}`,
+          'Content-Type': 'application/json',
+          'Notion-Version': this.version
+        },
+        body: options.body
+      })
+    } catch (error) {
+      throw new NotionAPIError({
+        message: `Notion网络错误: ${error}`,
+        retryable: true
+      })
+    }
 
-    return {
-      [mapping.wordField]: {
-        title: [{ text: { content: word.text } }]
-      },
-      [mapping.translationField]: {
-        rich_text: [{ text: { content: translation.result.text } }]
-      },
-      [mapping.contextField]: {
-        rich_text: word.context ? [{ text: { content: word.context } }] : []
-      },
-      [mapping.sourceUrlField]: {
-        url: word.source.url
-      },
-      [mapping.tagsField]: {
-        multi_select: record.tags?.map(tag => ({ name: tag })) || []
-      },
-      [mapping.notesField]: {
-        rich_text: record.notes ? [{ text: { content: record.notes } }] : []
-      },
-      [mapping.proficiencyField]: {
-        number: record.proficiency || 0
-      },
-      [mapping.createdAtField]: {
-        date: { start: new Date(record.createdAt).toISOString() }
+    if (!response.ok) {
+      let detail = response.statusText
+      let code: string | undefined
+      try {
+        const error: NotionErrorResponse = await response.json()
+        detail = error.message
+        code = error.code
+      } catch {
+        // 响应体不是JSON时使用状态文本
       }
+
+      throw new NotionAPIError({
+        message: `Notion API错误 (HTTP ${response.status}): ${detail}`,
+        status: response.status,
+        code,
+        retryable: isRetryableStatus(response.status),
+        retryAfter: parseRetryAfter(response.headers.get('Retry-After'))
+      })
     }
+
+    return response
   }
 
   /**
-   * 构建更新属性
+   * 请求一页查询结果
    */
-  private buildUpdateProperties(updates: Partial<NotionRecord>): Record<string, any> {
-    const properties: Record<string, any> = {}
-    const mapping = this.config.fieldMapping
+  private async requestQuery(body: Record<string, any>): Promise<NotionQueryResponse> {
+    try {
+      const response = await this.makeRequest(`/databases/${this.config.databaseId}/query`, {
+        method: 'POST',
+        body: JSON.stringify(body)
+      })
+      return await response.json()
+    } catch (error) {
+      if (isNotionAPIError(error)) throw error
+      throw new Error(`查询Notion数据库失败: ${error}`)
+    }
+  }
 
-    if (updates.tags) {
-      properties[mapping.tagsField] = {
-        multi_select: updates.tags.map(tag => ({ name: tag }))
+  /**
+   * 获取可以按单词查询的单词字段属性（未映射或类型不支持时返回 undefined）
+   */
+  private async loadWordProperty(): Promise<NotionDatabaseProperty | undefined> {
+    const name = this.config.fieldMapping.wordField
+    if (!name) return undefined
+
+    const schema = await this.loadSchema()
+    const property = schema.properties.find(item => item.name === name)
+    return property && WORD_QUERY_TYPES.includes(property.type) ? property : undefined
+  }
+
+  /**
+   * 按数据库中各属性的实际类型构建页面属性
+   */
+  private async buildPageProperties(record: NotionRecord): Promise<Record<string, any>> {
+    const schema = await this.loadSchema()
+    return toNotionPageProperties(record, this.config.fieldMapping, schema)
+  }
+
+  /**
+   * 构建查询的过滤和排序条件
+   */
+  private async buildQuery(query: NotionQuery): Promise<Record<string, any>> {
+    const schema = await this.loadSchema()
+    const getProperty = (field: NotionFieldKey) => {
+      const name = this.config.fieldMapping[field]
+      return name ? schema.properties.find(item => item.name === name) : undefined
+    }
+
+    const conditions: any[] = []
+
+    if (query.word) {
+      const property = getProperty('wordField')
+      if (!property || !WORD_QUERY_TYPES.includes(property.type)) {
+        throw new Error('单词字段未映射到文本或单选属性，无法按单词查询')
       }
+      // 文本属性按包含匹配，单选属性按选项名称精确匹配
+      conditions.push(optionCondition(property, query.word))
     }
 
-    if (updates.notes) {
-      properties[mapping.notesField] = {
-        rich_text: [{ text: { content: updates.notes } }]
+    if (query.dateRange) {
+      const property = getProperty('createdAtField')
+      const range = {
+        on_or_after: query.dateRange.start,
+        on_or_before: query.dateRange.end
       }
+      // 未映射日期类型的创建时间字段时按页面创建时间筛选
+      conditions.push(property?.type === 'date'
+        ? { property: property.name, date: range }
+        : { timestamp: 'created_time', created_time: range })
     }
 
-    if (updates.proficiency !== undefined) {
-      properties[mapping.proficiencyField] = {
-        number: updates.proficiency
+    if (query.tags && query.tags.length > 0) {
+      const property = getProperty('tagsField')
+      if (!property) {
+        throw new Error('标签字段未映射，无法按标签查询')
       }
+      const tagConditions = query.tags.map(tag => optionCondition(property, tag))
+      conditions.push(tagConditions.length === 1 ? tagConditions[0] : { or: tagConditions })
     }
 
-    return properties
-  }
+    if (query.proficiency) {
+      const property = getProperty('proficiencyField')
+      if (!property) {
+        throw new Error('熟练度字段未映射，无法按熟练度查询')
+      }
+      conditions.push(...rangeConditions(property, query.proficiency))
+    }
 
-  /**
-   * 构建查询过滤器
-   */
-  private buildFilter(filter: {
-    word?: string
-    dateRange?: { start: string; end: string }
-  }): any {
-    const conditions: any[] = []
-    const mapping = this.config.fieldMapping
+    if (query.sourceDomain) {
+      const property = getProperty('sourceUrlField')
+      if (!property || !['url', 'rich_text'].includes(property.type)) {
+        throw new Error('来源链接字段未映射到链接或文本属性，无法按来源查询')
+      }
+      conditions.push(textCondition(property, query.sourceDomain))
+    }
 
-    if (filter.word) {
+    if (query.editedAfter) {
       conditions.push({
-        property: mapping.wordField,
-        title: {
-          contains: filter.word
-        }
+        timestamp: 'last_edited_time',
+        last_edited_time: { on_or_after: query.editedAfter }
       })
     }
 
-    if (filter.dateRange) {
-      conditions.push({
-        property: mapping.createdAtField,
-        date: {
-          on_or_after: filter.dateRange.start,
-          on_or_before: filter.dateRange.end
+    const result: Record<string, any> = {}
+
+    if (conditions.length === 1) {
+      result.filter = conditions[0]
+    } else if (conditions.length > 1) {
+      result.filter = { and: conditions }
+    }
+
+    if (query.sorts && query.sorts.length > 0) {
+      result.sorts = query.sorts.map(({ field, direction }) => {
+        if (field === 'created_time' || field === 'last_edited_time') {
+          return { timestamp: field, direction }
+        }
+        const property = getProperty(field)
+        if (!property) {
+          throw new Error(`排序字段 ${field} 未映射`)
         }
+        return { property: property.name, direction }
       })
     }
 
-    if (conditions.length === 0) return undefined
-    if (conditions.length === 1) return conditions[0]
-
-    return {
-      and: conditions
-    }
+    return result
   }
 
   /**
@@ -269,4 +639,64 @@ export class NotionClient {
       typeof config.fieldMapping === 'object'
     )
   }
-} 
\ No newline at end of file
+} 
+
+/**
+ * 文本包含条件
+ */
+function textCondition(property: NotionDatabaseProperty, value: string): Record<string, any> {
+  return { property: property.name, [property.type]: { contains: value } }
+}
+
+/**
+ * 选项匹配条件（多选为包含，单选和状态为等于）
+ */
+function optionCondition(property: NotionDatabaseProperty, value: string): Record<string, any> {
+  switch (property.type) {
+    case 'multi_select':
+      return { property: property.name, multi_select: { contains: value } }
+    case 'select':
+    case 'status':
+      return { property: property.name, [property.type]: { equals: value } }
+    case 'title':
+    case 'rich_text':
+      return textCondition(property, value)
+    default:
+      throw new Error(`属性「${property.name}」的类型 ${property.type} 不支持按选项查询`)
+  }
+}
+
+/**
+ * 数值范围条件；单选和状态字段按选项名称中的数字筛选
+ */
+function rangeConditions(
+  property: NotionDatabaseProperty,
+  range: { min?: number; max?: number }
+): Record<string, any>[] {
+  if (property.type === 'number') {
+    const conditions: Record<string, any>[] = []
+    if (range.min !== undefined) {
+      conditions.push({ property: property.name, number: { greater_than_or_equal_to: range.min } })
+    }
+    if (range.max !== undefined) {
+      conditions.push({ property: property.name, number: { less_than_or_equal_to: range.max } })
+    }
+    return conditions
+  }
+
+  if (property.type === 'select' || property.type === 'status') {
+    const options = (property.options || []).filter(option => {
+      const value = parseFloat(option)
+      return Number.isFinite(value) &&
+        (range.min === undefined || value >= range.min) &&
+        (range.max === undefined || value <= range.max)
+    })
+    if (options.length === 0) {
+      throw new Error(`属性「${property.name}」没有符合熟练度范围的选项`)
+    }
+    const conditions = options.map(option => optionCondition(property, option))
+    return conditions.length === 1 ? conditions : [{ or: conditions }]
+  }
+
+  throw new Error(`属性「${property.name}」的类型 ${property.type} 不支持按范围查询`)
+}
\ No newline at end of file
@@ -0,0 +1,239 @@
+import type { NotionOAuthConfig, NotionWorkspace } from '@/entities/user-config'
+import { API_ENDPOINTS } from '@/shared/config/constants'
+
+/**
+ * OAuth 登录依赖的 chrome.identity 子集
+ */
+export interface IdentityApi {
+  getRedirectURL(path?: string): string
+  launchWebAuthFlow(details: { url: string; interactive: boolean }): Promise<string | undefined>
+}
+
+/**
+ * 授权码换取的访问令牌
+ */
+export interface NotionOAuthToken {
+  accessToken: string
+  workspace: NotionWorkspace
+}
+
+/**
+ * Notion 令牌接口的响应
+ */
+interface NotionTokenResponse {
+  access_token: string
+  bot_id: string
+  workspace_id: string
+  workspace_name?: string | null
+  workspace_icon?: string | null
+}
+
+/**
+ * 令牌服务的错误响应
+ */
+interface TokenServiceErrorResponse {
+  error?: string
+  error_description?: string
+  message?: string
+}
+
+/**
+ * Notion OAuth错误
+ */
+export class NotionOAuthError extends Error {
+  /** 错误码，例如 access_denied、state_mismatch */
+  readonly code: string
+
+  constructor(code: string, message: string) {
+    super(message)
+    this.name = 'NotionOAuthError'
+    this.code = code
+  }
+}
+
+/**
+ * Notion OAuth客户端
+ * 授权页面通过 chrome.identity.launchWebAuthFlow 打开，授权码交给配置的令牌服务换取访问令牌，
+ * client secret 不会出现在扩展中
+ */
+export class NotionOAuthClient {
+  constructor(
+    private config: NotionOAuthConfig,
+    private identity: IdentityApi = chrome.identity as unknown as IdentityApi
+  ) {}
+
+  /**
+   * 校验OAuth配置
+   */
+  static validateConfig(config?: Partial<NotionOAuthConfig>): boolean {
+    return !!config?.clientId?.trim() && isHttpUrl(config.tokenEndpoint)
+      && (!config.revokeEndpoint || isHttpUrl(config.revokeEndpoint))
+      && (!config.authorizationEndpoint || isHttpUrl(config.authorizationEndpoint))
+  }
+
+  /**
+   * 授权完成后的回调地址（需要在 Notion 集成设置中登记）
+   */
+  getRedirectUrl(): string {
+    return this.identity.getRedirectURL('notion')
+  }
+
+  /**
+   * 构建授权页面地址
+   */
+  buildAuthorizationUrl(state: string, redirectUri = this.getRedirectUrl()): string {
+    const url = new URL(this.config.authorizationEndpoint || API_ENDPOINTS.NOTION_OAUTH_AUTHORIZE)
+    url.searchParams.set('client_id', this.config.clientId.trim())
+    url.searchParams.set('response_type', 'code')
+    url.searchParams.set('owner', 'user')
+    url.searchParams.set('redirect_uri', redirectUri)
+    url.searchParams.set('state', state)
+    return url.toString()
+  }
+
+  /**
+   * 打开授权页面并换取访问令牌
+   */
+  async authorize(): Promise<NotionOAuthToken> {
+    const redirectUri = this.getRedirectUrl()
+    const state = createState()
+
+    let responseUrl: string | undefined
+    try {
+      responseUrl = await this.identity.launchWebAuthFlow({
+        url: this.buildAuthorizationUrl(state, redirectUri),
+        interactive: true
+      })
+    } catch (error) {
+      // 用户关闭授权窗口时也会走到这里
+      throw new NotionOAuthError('access_denied', `Notion授权未完成: ${error instanceof Error ? error.message : error}`)
+    }
+
+    const code = parseAuthorizationResponse(responseUrl, state)
+    return this.exchangeCode(code, redirectUri)
+  }
+
+  /**
+   * 用授权码换取访问令牌
+   */
+  async exchangeCode(code: string, redirectUri: string): Promise<NotionOAuthToken> {
+    const data = await this.post(this.config.tokenEndpoint, {
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: redirectUri
+    })
+
+    if (!isTokenResponse(data)) {
+      throw new NotionOAuthError('invalid_response', '令牌服务返回的数据中缺少访问令牌或工作区')
+    }
+
+    return {
+      accessToken: data.access_token,
+      workspace: {
+        id: data.workspace_id,
+        name: data.workspace_name || 'Notion 工作区',
+        ...(data.workspace_icon ? { icon: data.workspace_icon } : {}),
+        botId: data.bot_id,
+        connectedAt: Date.now()
+      }
+    }
+  }
+
+  /**
+   * 撤销访问令牌（未配置撤销服务时直接返回）
+   */
+  async revoke(accessToken: string): Promise<void> {
+    if (!this.config.revokeEndpoint) return
+    await this.post(this.config.revokeEndpoint, { token: accessToken })
+  }
+
+  /**
+   * 向令牌服务发送 JSON 请求，返回未经校验的响应数据
+   */
+  private async post(endpoint: string, body: Record<string, string>): Promise<unknown> {
+    let response: Response
+    try {
+      response = await fetch(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      })
+    } catch (error) {
+      throw new NotionOAuthError('network_error', `无法连接令牌服务: ${error}`)
+    }
+
+    const text = await response.text()
+    let data: unknown = null
+    try {
+      data = text ? JSON.parse(text) : null
+    } catch {
+      // 响应体不是JSON时使用状态文本
+    }
+
+    if (!response.ok) {
+      const { error, error_description, message } = toErrorResponse(data)
+      const detail = error_description || message || error || response.statusText
+      throw new NotionOAuthError(error || 'server_error', `令牌服务错误 (HTTP ${response.status}): ${detail}`)
+    }
+
+    return data
+  }
+}
+
+/**
+ * 解析授权回调地址，返回授权码
+ */
+export function parseAuthorizationResponse(responseUrl: string | undefined, expectedState: string): string {
+  if (!responseUrl) {
+    throw new NotionOAuthError('access_denied', 'Notion授权未完成')
+  }
+
+  const params = new URL(responseUrl).searchParams
+  const error = params.get('error')
+  if (error) {
+    throw new NotionOAuthError(error, error === 'access_denied' ? '已取消Notion授权' : `Notion授权失败: ${error}`)
+  }
+  if (params.get('state') !== expectedState) {
+    throw new NotionOAuthError('state_mismatch', '授权回调的 state 不匹配，请重试')
+  }
+
+  const code = params.get('code')
+  if (!code) {
+    throw new NotionOAuthError('invalid_response', '授权回调中缺少授权码')
+  }
+  return code
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null
+}
+
+function isTokenResponse(data: unknown): data is NotionTokenResponse {
+  return isRecord(data)
+    && typeof data.access_token === 'string' && !!data.access_token
+    && typeof data.workspace_id === 'string' && !!data.workspace_id
+}
+
+/**
+ * 读取错误响应中的字符串字段，忽略其他类型的值
+ */
+function toErrorResponse(data: unknown): TokenServiceErrorResponse {
+  if (!isRecord(data)) return {}
+
+  const read = (key: keyof TokenServiceErrorResponse) => typeof data[key] === 'string' ? data[key] : undefined
+  return { error: read('error'), error_description: read('error_description'), message: read('message') }
+}
+
+function createState(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(16))
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+function isHttpUrl(value?: string): boolean {
+  if (!value) return false
+  try {
+    return /^https?:$/.test(new URL(value).protocol)
+  } catch {
+    return false
+  }
+}
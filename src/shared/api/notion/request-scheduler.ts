@@ -0,0 +1,110 @@
+/**
+ * Notion请求调度
+ * Notion API 对每个集成限制平均约 3 次/秒，超出后返回 429 和 Retry-After
+ */
+
+/**
+ * 调度器配置
+ */
+export interface RequestSchedulerOptions {
+  /** 每秒最多发起的请求数 */
+  requestsPerSecond: number
+  /** 获取当前时间（测试时可替换） */
+  now?: () => number
+  /** 等待指定毫秒（测试时可替换） */
+  sleep?: (ms: number) => Promise<void>
+}
+
+/**
+ * 指数退避配置
+ */
+export interface BackoffOptions {
+  /** 基础延迟（毫秒） */
+  baseDelay: number
+  /** 最大延迟（毫秒） */
+  maxDelay: number
+  /** 随机数来源（测试时可替换） */
+  random?: () => number
+}
+
+export const DEFAULT_BACKOFF: BackoffOptions = {
+  baseDelay: 1000,
+  maxDelay: 60000
+}
+
+const defaultSleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms))
+
+/**
+ * 请求调度器：按固定间隔依次放行请求，并支持在收到 429 后整体暂停
+ */
+export class RequestScheduler {
+  private readonly interval: number
+  private readonly now: () => number
+  private readonly sleep: (ms: number) => Promise<void>
+  private nextSlot = 0
+  private pausedUntil = 0
+
+  constructor(options: RequestSchedulerOptions) {
+    this.interval = 1000 / options.requestsPerSecond
+    this.now = options.now ?? Date.now
+    this.sleep = options.sleep ?? defaultSleep
+  }
+
+  /**
+   * 排队执行任务
+   */
+  async schedule<T>(task: () => Promise<T>): Promise<T> {
+    await this.waitForSlot()
+    return task()
+  }
+
+  /**
+   * 暂停所有请求（例如收到 Retry-After 时）
+   */
+  pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, this.now() + ms)
+  }
+
+  /**
+   * 等待下一个可用时间片
+   */
+  private async waitForSlot(): Promise<void> {
+    const now = this.now()
+    const slot = Math.max(now, this.nextSlot, this.pausedUntil)
+    this.nextSlot = slot + this.interval
+
+    if (slot > now) {
+      await this.sleep(slot - now)
+    }
+
+    // 等待期间可能收到了新的暂停要求
+    const remaining = this.pausedUntil - this.now()
+    if (remaining > 0) {
+      await this.waitForSlot()
+    }
+  }
+}
+
+/**
+ * 计算带随机抖动的指数退避延迟（在本次上限的一半到上限之间随机，避免多个请求同时重试）
+ */
+export function getBackoffDelay(attempt: number, options: BackoffOptions = DEFAULT_BACKOFF): number {
+  const random = options.random ?? Math.random
+  const ceiling = Math.min(options.maxDelay, options.baseDelay * 2 ** attempt)
+  return Math.round(ceiling / 2 + random() * ceiling / 2)
+}
+
+/**
+ * 解析 Retry-After 响应头（秒数或HTTP日期），返回毫秒
+ */
+export function parseRetryAfter(value: string | null, now: number = Date.now()): number | undefined {
+  if (!value) return undefined
+
+  const seconds = Number(value)
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000)
+  }
+
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now)
+}
@@ -0,0 +1,242 @@
+import { Translation, TranslationProvider } from '@/entities/translation'
+import type { Word } from '@/entities/word'
+import { API_ENDPOINTS } from '@/shared/config/constants'
+import { TranslationAPIError, TranslationErrorCode } from './errors'
+
+/**
+ * DeepL翻译API配置
+ */
+interface DeepLTranslateConfig {
+  apiKey?: string
+  /** 自定义翻译端点（默认根据 key 类型选择免费版或专业版） */
+  endpoint?: string
+  formality?: 'default' | 'more' | 'less' | 'prefer_more' | 'prefer_less'
+}
+
+/**
+ * DeepL翻译API响应
+ */
+interface DeepLTranslateResponse {
+  translations: Array<{
+    detected_source_language: string
+    text: string
+  }>
+}
+
+/**
+ * DeepL目标语言代码映射（DeepL 对部分语言要求带地区变体）
+ */
+const DEEPL_TARGET_LANGUAGES: Record<string, string> = {
+  'zh-CN': 'ZH',
+  'en': 'EN-US',
+  'pt': 'PT-PT'
+}
+
+/**
+ * DeepL翻译API客户端
+ */
+export class DeepLTranslateAPI {
+  private config: DeepLTranslateConfig
+
+  constructor(config: DeepLTranslateConfig = {}) {
+    this.config = config
+  }
+
+  /**
+   * 翻译文本
+   */
+  async translateText(
+    word: Word,
+    targetLanguage: string
+  ): Promise<Translation> {
+    const response = await this.makeRequest({
+      text: [word.text],
+      target_lang: toDeepLTargetLanguage(targetLanguage),
+      source_lang: word.language && word.language !== 'auto'
+        ? toDeepLSourceLanguage(word.language)
+        : undefined,
+      formality: this.config.formality && this.config.formality !== 'default'
+        ? this.config.formality
+        : undefined
+    })
+
+    const result = response.translations[0]
+    if (!result?.text) {
+      throw new TranslationAPIError({
+        code: TranslationErrorCode.REQUEST_FAILED,
+        provider: TranslationProvider.DEEPL,
+        message: '翻译失败：未获取到翻译结果'
+      })
+    }
+
+    return {
+      originalWord: {
+        ...word,
+        language: result.detected_source_language
+          ? fromDeepLLanguage(result.detected_source_language)
+          : word.language
+      },
+      result: {
+        text: result.text,
+        targetLanguage
+      },
+      provider: TranslationProvider.DEEPL,
+      confidence: 0.95,
+      timestamp: Date.now(),
+      id: this.generateTranslationId()
+    }
+  }
+
+  /**
+   * 检测语言
+   * DeepL 没有独立的检测接口，通过翻译响应中的 detected_source_language 获取
+   */
+  async detectLanguage(text: string): Promise<string> {
+    try {
+      const response = await this.makeRequest({
+        text: [text],
+        target_lang: 'EN-US'
+      })
+
+      const detected = response.translations[0]?.detected_source_language
+      return detected ? fromDeepLLanguage(detected) : 'auto'
+    } catch (error) {
+      console.error('语言检测失败:', error)
+      return 'auto'
+    }
+  }
+
+  /**
+   * 获取请求端点
+   */
+  getEndpoint(): string {
+    if (this.config.endpoint) {
+      return this.config.endpoint
+    }
+
+    return DeepLTranslateAPI.isFreeKey(this.config.apiKey || '')
+      ? API_ENDPOINTS.DEEPL_TRANSLATE
+      : API_ENDPOINTS.DEEPL_TRANSLATE_PRO
+  }
+
+  /**
+   * 发起翻译请求
+   */
+  private async makeRequest(params: {
+    text: string[]
+    target_lang: string
+    source_lang?: string
+    formality?: string
+  }): Promise<DeepLTranslateResponse> {
+    if (!this.config.apiKey) {
+      throw new TranslationAPIError({
+        code: TranslationErrorCode.INVALID_API_KEY,
+        provider: TranslationProvider.DEEPL,
+        message: 'DeepL API key未配置'
+      })
+    }
+
+    let response: Response
+    try {
+      response = await fetch(this.getEndpoint(), {
+        method: 'POST',
+        headers: {
+          'Authorization': `DeepL-Auth-Key ${this.config.apiKey}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(params)
+      })
+    } catch (error) {
+      throw new TranslationAPIError({
+        code: TranslationErrorCode.NETWORK_ERROR,
+        provider: TranslationProvider.DEEPL,
+        message: `DeepL翻译API网络错误: ${error}`
+      })
+    }
+
+    if (!response.ok) {
+      throw await this.toError(response)
+    }
+
+    return response.json()
+  }
+
+  /**
+   * 将HTTP错误响应转换为翻译API错误
+   */
+  private async toError(response: Response): Promise<TranslationAPIError> {
+    let detail = response.statusText
+    try {
+      const data = await response.json()
+      if (data?.message) detail = data.message
+    } catch {
+      // 响应体不是JSON时使用状态文本
+    }
+
+    let code: TranslationErrorCode
+    switch (response.status) {
+      case 401:
+      case 403:
+        code = TranslationErrorCode.INVALID_API_KEY
+        break
+      case 456:
+        code = TranslationErrorCode.QUOTA_EXCEEDED
+        break
+      case 429:
+        code = TranslationErrorCode.RATE_LIMITED
+        break
+      default:
+        code = TranslationErrorCode.REQUEST_FAILED
+    }
+
+    return new TranslationAPIError({
+      code,
+      provider: TranslationProvider.DEEPL,
+      status: response.status,
+      message: `DeepL翻译API调用失败 (HTTP ${response.status}): ${detail}`
+    })
+  }
+
+  /**
+   * 生成翻译ID
+   */
+  private generateTranslationId(): string {
+    return `deepl_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+  }
+
+  /**
+   * 判断是否为免费版 API key（免费版 key 以 ":fx" 结尾）
+   */
+  static isFreeKey(apiKey: string): boolean {
+    return apiKey.endsWith(':fx')
+  }
+
+  /**
+   * 验证API配置
+   */
+  static validateConfig(config: DeepLTranslateConfig): boolean {
+    return !!config.apiKey
+  }
+}
+
+/**
+ * 转换为DeepL目标语言代码
+ */
+function toDeepLTargetLanguage(language: string): string {
+  return DEEPL_TARGET_LANGUAGES[language] || toDeepLSourceLanguage(language)
+}
+
+/**
+ * 转换为DeepL源语言代码（源语言不区分地区变体）
+ */
+function toDeepLSourceLanguage(language: string): string {
+  return language.split('-')[0]!.toUpperCase()
+}
+
+/**
+ * 将DeepL语言代码转换为扩展内部使用的语言代码
+ */
+function fromDeepLLanguage(language: string): string {
+  const base = language.split('-')[0]!.toLowerCase()
+  return base === 'zh' ? 'zh-CN' : base
+}
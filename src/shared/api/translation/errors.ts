@@ -0,0 +1,46 @@
+import type { TranslationProvider } from '@/entities/translation'
+
+/**
+ * 翻译API错误码
+ */
+export enum TranslationErrorCode {
+  /** API key 无效或无权限 */
+  INVALID_API_KEY = 'invalid_api_key',
+  /** 配额已用尽 */
+  QUOTA_EXCEEDED = 'quota_exceeded',
+  /** 请求过于频繁 */
+  RATE_LIMITED = 'rate_limited',
+  /** 网络错误 */
+  NETWORK_ERROR = 'network_error',
+  /** 其他请求失败 */
+  REQUEST_FAILED = 'request_failed'
+}
+
+/**
+ * 翻译API错误
+ */
+export class TranslationAPIError extends Error {
+  readonly code: TranslationErrorCode
+  readonly provider: TranslationProvider
+  readonly status?: number
+
+  constructor(params: {
+    code: TranslationErrorCode
+    provider: TranslationProvider
+    message: string
+    status?: number
+  }) {
+    super(params.message)
+    this.name = 'TranslationAPIError'
+    this.code = params.code
+    this.provider = params.provider
+    this.status = params.status
+  }
+}
+
+/**
+ * 判断是否为翻译API错误
+ */
+export function isTranslationAPIError(error: unknown): error is TranslationAPIError {
+  return error instanceof TranslationAPIError
+}
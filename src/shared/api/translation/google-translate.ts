@@ -1,5 +1,6 @@
 import { Translation, TranslationProvider } from '@/entities/translation'
 import type { Word } from '@/entities/word'
+import { TranslationAPIError, TranslationErrorCode } from './errors'
 
 /**
  * Google翻译API配置
@@ -39,10 +40,13 @@ export class GoogleTranslateAPI {
     word: Word,
     targetLanguage: string
   ): Promise<Translation> {
-    // 如果没有配置API key，使用免费的Google翻译（模拟）
+    // 没有配置API key时交由其他提供商（如离线词典）处理
     if (!this.config.apiKey) {
-      console.warn('Google翻译API key未配置，使用模拟翻译')
-      return this.getMockTranslation(word, targetLanguage)
+      throw new TranslationAPIError({
+        code: TranslationErrorCode.INVALID_API_KEY,
+        provider: TranslationProvider.GOOGLE,
+        message: 'Google翻译API key未配置'
+      })
     }
 
     try {
@@ -80,6 +84,10 @@ export class GoogleTranslateAPI {
    * 检测语言
    */
   async detectLanguage(text: string): Promise<string> {
+    if (!this.config.apiKey) {
+      return 'auto'
+    }
+
     try {
       const response = await fetch(
         `${this.baseUrl}/detect?key=${this.config.apiKey}`,
@@ -142,43 +150,10 @@ export class GoogleTranslateAPI {
     return `google_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
   }
 
-  /**
-   * 获取模拟翻译结果（当没有API key时）
-   */
-  private getMockTranslation(word: Word, targetLanguage: string): Translation {
-    // 创建一个简单的模拟翻译结果
-    const mockTranslations: Record<string, string> = {
-      'hello': '你好',
-      'world': '世界',
-      'translate': '翻译',
-      'test': '测试',
-      'example': '示例',
-      'word': '单词',
-      'text': '文本',
-      'language': '语言'
-    }
-
-    const translatedText = mockTranslations[word.text.toLowerCase()] || 
-                          `[模拟翻译] ${word.text}`;
-
-    return {
-      originalWord: word,
-      result: {
-        text: translatedText,
-        targetLanguage,
-      },
-      provider: TranslationProvider.GOOGLE,
-      confidence: 0.5, // 模拟翻译置信度较低
-      timestamp: Date.now(),
-      id: this.generateTranslationId()
-    }
-  }
-
   /**
    * 验证API配置
    */
   static validateConfig(config: GoogleTranslateConfig): boolean {
-    // 对于免费用户，可以不需要API key（使用公共端点）
-    return true
+    return !!config.apiKey
   }
 } 
\ No newline at end of file
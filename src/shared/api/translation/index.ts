@@ -1,5 +1,15 @@
 import { GoogleTranslateAPI } from './google-translate'
-import { Translation, TranslationProvider } from '@/entities/translation'
+import { DeepLTranslateAPI } from './deepl-translate'
+import { YoudaoTranslateAPI } from './youdao-translate'
+import { LLMTranslateAPI } from './llm-translate'
+import { OfflineDictionaryAPI } from './offline-dictionary'
+import { RestTranslateAPI } from './rest-translate'
+import {
+  Translation,
+  TranslationProvider,
+  type TranslationComparison,
+  type TranslationComparisonItem
+} from '@/entities/translation'
 import type { Word } from '@/entities/word'
 import type { TranslationApiConfig } from '@/entities/user-config'
 
@@ -27,12 +37,38 @@ export class TranslationAPIFactory {
         })
       
       case TranslationProvider.DEEPL:
-        // TODO: 实现DeepL API
-        throw new Error('DeepL API 暂未实现')
+        return new DeepLTranslateAPI({
+          apiKey: config.apiKey,
+          endpoint: config.endpoint,
+          formality: config.formality
+        })
       
       case TranslationProvider.YOUDAO:
-        // TODO: 实现有道API  
-        throw new Error('有道API 暂未实现')
+        return new YoudaoTranslateAPI({
+          apiKey: config.apiKey,
+          appSecret: config.appSecret,
+          endpoint: config.endpoint
+        })
+      
+      case TranslationProvider.LLM:
+        return new LLMTranslateAPI({
+          apiKey: config.apiKey,
+          endpoint: config.endpoint,
+          model: config.model
+        })
+      
+      case TranslationProvider.OFFLINE:
+        return new OfflineDictionaryAPI()
+      
+      case TranslationProvider.LIBRETRANSLATE:
+        if (!config.endpoint) {
+          throw new Error('自建翻译服务地址未配置')
+        }
+        return new RestTranslateAPI({
+          endpoint: config.endpoint,
+          apiKey: config.apiKey,
+          template: config.restTemplate
+        })
       
       default:
         throw new Error(`不支持的翻译提供商: ${config.provider}`)
@@ -45,8 +81,11 @@ export class TranslationAPIFactory {
   static getSupportedProviders(): TranslationProvider[] {
     return [
       TranslationProvider.GOOGLE,
-      // TranslationProvider.DEEPL,
-      // TranslationProvider.YOUDAO
+      TranslationProvider.DEEPL,
+      TranslationProvider.YOUDAO,
+      TranslationProvider.LLM,
+      TranslationProvider.OFFLINE,
+      TranslationProvider.LIBRETRANSLATE
     ]
   }
 }
@@ -56,12 +95,21 @@ export class TranslationAPIFactory {
  */
 export class TranslationServiceManager {
   private apis: Map<TranslationProvider, ITranslationAPI> = new Map()
+  private disabledProviders: Set<TranslationProvider> = new Set()
+
+  /**
+   * @param fallbackAPI 未配置离线词典时使用的备用API
+   */
+  constructor(private fallbackAPI: ITranslationAPI = new OfflineDictionaryAPI()) {}
 
   /**
-   * 注册翻译API
+   * 注册翻译API（未启用的提供商会被记录，不再作为备用）
    */
   registerAPI(config: TranslationApiConfig): void {
-    if (!config.enabled) return
+    if (!config.enabled) {
+      this.disabledProviders.add(config.provider)
+      return
+    }
     
     try {
       const api = TranslationAPIFactory.create(config)
@@ -89,7 +137,7 @@ export class TranslationServiceManager {
     }
 
     // 依次尝试可用的API
-    for (const [provider, api] of this.apis) {
+    for (const [provider, api] of this.getAPIs()) {
       try {
         return await api.translateText(word, targetLanguage)
       } catch (error) {
@@ -100,14 +148,55 @@ export class TranslationServiceManager {
     throw new Error('所有翻译API都不可用')
   }
 
+  /**
+   * 对比翻译：并行请求所有（或指定的）提供商并汇总结果
+   */
+  async compareTranslations(
+    word: Word,
+    targetLanguage: string,
+    providers?: TranslationProvider[]
+  ): Promise<TranslationComparison> {
+    const entries = this.getAPIs()
+      .filter(([provider]) => !providers || providers.includes(provider))
+
+    if (entries.length === 0) {
+      throw new Error('没有可用的翻译API')
+    }
+
+    const results = await Promise.all(
+      entries.map(async ([provider, api]): Promise<TranslationComparisonItem> => {
+        const startTime = Date.now()
+        try {
+          const translation = await api.translateText(word, targetLanguage)
+          return { provider, translation, duration: Date.now() - startTime }
+        } catch (error) {
+          console.error(`翻译失败 (${provider}):`, error)
+          return {
+            provider,
+            error: error instanceof Error ? error.message : String(error),
+            duration: Date.now() - startTime
+          }
+        }
+      })
+    )
+
+    return {
+      originalWord: word,
+      targetLanguage,
+      results,
+      timestamp: Date.now()
+    }
+  }
+
   /**
    * 检测语言
    */
   async detectLanguage(text: string): Promise<string> {
-    // 使用第一个可用的API进行语言检测
-    for (const [provider, api] of this.apis) {
+    // 依次尝试可用的API，未检测出语言（例如未配置 key）时继续尝试下一个
+    for (const [provider, api] of this.getAPIs()) {
       try {
-        return await api.detectLanguage(text)
+        const language = await api.detectLanguage(text)
+        if (language && language !== 'auto') return language
       } catch (error) {
         console.error(`语言检测失败 (${provider}):`, error)
       }
@@ -120,7 +209,7 @@ export class TranslationServiceManager {
    * 获取可用的提供商
    */
   getAvailableProviders(): TranslationProvider[] {
-    return Array.from(this.apis.keys())
+    return this.getAPIs().map(([provider]) => provider)
   }
 
   /**
@@ -128,8 +217,29 @@ export class TranslationServiceManager {
    */
   clear(): void {
     this.apis.clear()
+    this.disabledProviders.clear()
+  }
+
+  /**
+   * 获取已注册的API，离线词典无需配置，未被禁用时始终作为最后的备用
+   * （旧版本的配置中没有离线词典）
+   */
+  private getAPIs(): Array<[TranslationProvider, ITranslationAPI]> {
+    const entries = Array.from(this.apis)
+    if (!this.apis.has(TranslationProvider.OFFLINE) && !this.disabledProviders.has(TranslationProvider.OFFLINE)) {
+      entries.push([TranslationProvider.OFFLINE, this.fallbackAPI])
+    }
+    return entries
   }
 }
 
 // 导出API类
-export { GoogleTranslateAPI } 
\ No newline at end of file
+export {
+  GoogleTranslateAPI,
+  DeepLTranslateAPI,
+  YoudaoTranslateAPI,
+  LLMTranslateAPI,
+  OfflineDictionaryAPI,
+  RestTranslateAPI
+}
+export * from './errors' 
\ No newline at end of file
@@ -0,0 +1,270 @@
+import { Translation, TranslationProvider } from '@/entities/translation'
+import type { Word } from '@/entities/word'
+import { API_ENDPOINTS, DEFAULT_VALUES, LANGUAGE_MAP } from '@/shared/config/constants'
+import { TranslationAPIError, TranslationErrorCode } from './errors'
+
+/**
+ * 大模型翻译API配置
+ */
+interface LLMTranslateConfig {
+  apiKey?: string
+  /** OpenAI兼容接口的基础地址，例如 http://localhost:11434/v1 */
+  endpoint?: string
+  model?: string
+}
+
+/**
+ * OpenAI兼容的对话接口响应
+ */
+interface ChatCompletionResponse {
+  choices: Array<{
+    message: {
+      role: string
+      content: string
+    }
+  }>
+}
+
+/**
+ * 模型返回的结构化翻译结果
+ */
+interface LLMTranslationPayload {
+  translation: string
+  partOfSpeech?: string
+  phonetic?: string
+  sense?: string
+  definitions?: Array<{
+    partOfSpeech: string
+    meanings: string[]
+  }>
+  examples?: string[]
+  detectedLanguage?: string
+}
+
+/**
+ * 系统提示词
+ */
+const SYSTEM_PROMPT = [
+  'You are a bilingual dictionary assistant.',
+  'Explain the selected word as it is used in the given context.',
+  'Reply with a single JSON object and nothing else, using these keys:',
+  '"translation" (the best translation for this context),',
+  '"partOfSpeech" (part of speech in this context, e.g. "n.", "v.", "adj."),',
+  '"phonetic" (IPA without slashes, empty for non-words),',
+  '"sense" (one sentence explaining the meaning in this context, in the target language),',
+  '"definitions" (array of {"partOfSpeech", "meanings": string[]} for other common senses),',
+  '"examples" (2 short example sentences using the word in the same sense, each followed by its translation),',
+  '"detectedLanguage" (ISO 639-1 code of the selected word).'
+].join(' ')
+
+/**
+ * OpenAI兼容接口的大模型翻译客户端
+ */
+export class LLMTranslateAPI {
+  private config: LLMTranslateConfig
+
+  constructor(config: LLMTranslateConfig = {}) {
+    this.config = config
+  }
+
+  /**
+   * 翻译文本（结合上下文给出语境释义）
+   */
+  async translateText(
+    word: Word,
+    targetLanguage: string
+  ): Promise<Translation> {
+    const content = await this.complete([
+      { role: 'system', content: SYSTEM_PROMPT },
+      { role: 'user', content: this.buildPrompt(word, targetLanguage) }
+    ])
+
+    const payload = parsePayload(content)
+    if (!payload?.translation) {
+      throw new TranslationAPIError({
+        code: TranslationErrorCode.REQUEST_FAILED,
+        provider: TranslationProvider.LLM,
+        message: '翻译失败：模型未返回有效的翻译结果'
+      })
+    }
+
+    // 语境释义放在首位，其余常见义项跟随其后
+    const definitions = [
+      ...(payload.sense
+        ? [{ partOfSpeech: payload.partOfSpeech || '', meanings: [payload.sense] }]
+        : []),
+      ...(payload.definitions || []).filter(def => def.meanings?.length)
+    ]
+
+    return {
+      originalWord: {
+        ...word,
+        language: word.language === 'auto' && payload.detectedLanguage
+          ? normalizeLanguage(payload.detectedLanguage)
+          : word.language
+      },
+      result: {
+        text: payload.translation,
+        targetLanguage,
+        phonetic: payload.phonetic || undefined,
+        definitions: definitions.length > 0 ? definitions : undefined,
+        examples: payload.examples?.length ? payload.examples : undefined
+      },
+      provider: TranslationProvider.LLM,
+      confidence: word.context ? 0.9 : 0.8, // 有上下文时语境释义更可靠
+      timestamp: Date.now(),
+      id: this.generateTranslationId()
+    }
+  }
+
+  /**
+   * 检测语言
+   */
+  async detectLanguage(text: string): Promise<string> {
+    try {
+      const content = await this.complete([
+        {
+          role: 'system',
+          content: 'Identify the language of the user text. Reply with only its ISO 639-1 code.'
+        },
+        { role: 'user', content: text }
+      ])
+
+      const code = content.trim().replace(/[^a-zA-Z-]/g, '')
+      return code ? normalizeLanguage(code) : 'auto'
+    } catch (error) {
+      console.error('语言检测失败:', error)
+      return 'auto'
+    }
+  }
+
+  /**
+   * 构建用户提示词
+   */
+  private buildPrompt(word: Word, targetLanguage: string): string {
+    const targetName = LANGUAGE_MAP[targetLanguage as keyof typeof LANGUAGE_MAP] || targetLanguage
+    const lines = [
+      `Selected word: ${word.text}`,
+      `Target language: ${targetName} (${targetLanguage})`
+    ]
+
+    if (word.context && word.context !== word.text) {
+      lines.push(`Context: ${word.context.slice(0, DEFAULT_VALUES.MAX_CONTEXT_LENGTH * 2)}`)
+    }
+
+    return lines.join('\n')
+  }
+
+  /**
+   * 调用对话接口
+   */
+  private async complete(messages: Array<{ role: string; content: string }>): Promise<string> {
+    const baseUrl = (this.config.endpoint || API_ENDPOINTS.OPENAI_API).replace(/\/+$/, '')
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json'
+    }
+
+    // 本地模型服务通常不需要 key
+    if (this.config.apiKey) {
+      headers['Authorization'] = `Bearer ${this.config.apiKey}`
+    }
+
+    let response: Response
+    try {
+      response = await fetch(`${baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          model: this.config.model || DEFAULT_VALUES.LLM_MODEL,
+          messages,
+          temperature: 0.2
+        })
+      })
+    } catch (error) {
+      throw new TranslationAPIError({
+        code: TranslationErrorCode.NETWORK_ERROR,
+        provider: TranslationProvider.LLM,
+        message: `大模型翻译API网络错误: ${error}`
+      })
+    }
+
+    if (!response.ok) {
+      throw await this.toError(response)
+    }
+
+    const data: ChatCompletionResponse = await response.json()
+    return data.choices[0]?.message.content || ''
+  }
+
+  /**
+   * 将HTTP错误响应转换为翻译API错误
+   */
+  private async toError(response: Response): Promise<TranslationAPIError> {
+    let detail = response.statusText
+    let errorCode: string | undefined
+    try {
+      const data = await response.json()
+      detail = data?.error?.message || detail
+      errorCode = data?.error?.code
+    } catch {
+      // 响应体不是JSON时使用状态文本
+    }
+
+    let code: TranslationErrorCode
+    if (response.status === 401 || response.status === 403) {
+      code = TranslationErrorCode.INVALID_API_KEY
+    } else if (response.status === 429) {
+      code = errorCode === 'insufficient_quota'
+        ? TranslationErrorCode.QUOTA_EXCEEDED
+        : TranslationErrorCode.RATE_LIMITED
+    } else {
+      code = TranslationErrorCode.REQUEST_FAILED
+    }
+
+    return new TranslationAPIError({
+      code,
+      provider: TranslationProvider.LLM,
+      status: response.status,
+      message: `大模型翻译API调用失败 (HTTP ${response.status}): ${detail}`
+    })
+  }
+
+  /**
+   * 生成翻译ID
+   */
+  private generateTranslationId(): string {
+    return `llm_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+  }
+
+  /**
+   * 验证API配置
+   */
+  static validateConfig(config: LLMTranslateConfig): boolean {
+    // 本地模型服务可以不配置 key，但必须能确定请求地址
+    return !!(config.endpoint || config.apiKey)
+  }
+}
+
+/**
+ * 从模型回复中解析JSON（兼容代码块包裹或前后有多余文字的情况）
+ */
+function parsePayload(content: string): LLMTranslationPayload | null {
+  const start = content.indexOf('{')
+  const end = content.lastIndexOf('}')
+  if (start === -1 || end <= start) return null
+
+  try {
+    return JSON.parse(content.slice(start, end + 1))
+  } catch (error) {
+    console.warn('解析模型回复失败:', error)
+    return null
+  }
+}
+
+/**
+ * 将语言代码转换为扩展内部使用的语言代码
+ */
+function normalizeLanguage(language: string): string {
+  const base = language.split('-')[0]!.toLowerCase()
+  return base === 'zh' ? 'zh-CN' : base
+}
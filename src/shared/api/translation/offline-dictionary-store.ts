@@ -0,0 +1,188 @@
+/**
+ * 离线词典存储
+ * 首次使用时导入 ECDICT 格式的词典并写入 IndexedDB，之后直接从 IndexedDB 查询
+ */
+
+import { openDatabase as openIndexedDB, requestToPromise, runTransaction } from '@/shared/lib/indexed-db'
+
+/**
+ * 词典条目
+ */
+export interface DictionaryEntry {
+  /** 单词（小写） */
+  word: string
+  /** 音标 */
+  phonetic: string
+  /** 释义，每行一个词性，例如 "n. 你好, 问候" */
+  translation: string[]
+  /** 词形变化，例如 { p: 'went', d: 'gone' } */
+  exchange: Record<string, string>
+}
+
+const DB_NAME = 'notions-words-dictionary'
+const DB_VERSION = 1
+const ENTRY_STORE = 'entries'
+const INFLECTION_STORE = 'inflections'
+const META_STORE = 'meta'
+
+/** 词典数据版本，更换内置词典时需要递增以触发重新导入 */
+const DICTIONARY_VERSION = 3
+const IMPORT_BATCH_SIZE = 2000
+
+/**
+ * 离线词典存储
+ */
+export class OfflineDictionaryStore {
+  private dbPromise: Promise<IDBDatabase> | null = null
+  private loadPromise: Promise<void> | null = null
+
+  /**
+   * @param loadText 读取 TSV 词典文本，仅在 IndexedDB 中的词典版本不一致时调用
+   */
+  constructor(
+    private loadText: () => Promise<string>,
+    private dbName = DB_NAME
+  ) {}
+
+  /**
+   * 查询单词，找不到原形时尝试通过词形变化还原
+   */
+  async lookup(text: string): Promise<DictionaryEntry | null> {
+    await this.ensureLoaded()
+    const db = await this.openDatabase()
+    const word = text.trim().toLowerCase()
+
+    const entry = await requestToPromise<DictionaryEntry | undefined>(
+      db.transaction(ENTRY_STORE).objectStore(ENTRY_STORE).get(word)
+    )
+    if (entry) return entry
+
+    const inflection = await requestToPromise<{ form: string; lemma: string } | undefined>(
+      db.transaction(INFLECTION_STORE).objectStore(INFLECTION_STORE).get(word)
+    )
+    if (!inflection) return null
+
+    const lemma = await requestToPromise<DictionaryEntry | undefined>(
+      db.transaction(ENTRY_STORE).objectStore(ENTRY_STORE).get(inflection.lemma)
+    )
+    return lemma || null
+  }
+
+  /**
+   * 确保词典已导入 IndexedDB
+   */
+  ensureLoaded(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = this.load().catch(error => {
+        this.loadPromise = null
+        throw error
+      })
+    }
+    return this.loadPromise
+  }
+
+  /**
+   * 导入词典（版本一致时跳过）
+   */
+  private async load(): Promise<void> {
+    const db = await this.openDatabase()
+    const meta = await requestToPromise<{ key: string; value: number } | undefined>(
+      db.transaction(META_STORE).objectStore(META_STORE).get('version')
+    )
+    if (meta?.value === DICTIONARY_VERSION) return
+
+    const entries = parseDictionary(await this.loadText())
+
+    // 清空旧数据后分批写入，避免单个事务过大
+    await runTransaction(db, [ENTRY_STORE, INFLECTION_STORE], 'readwrite', tx => {
+      tx.objectStore(ENTRY_STORE).clear()
+      tx.objectStore(INFLECTION_STORE).clear()
+    })
+
+    const words = new Set(entries.map(entry => entry.word))
+    for (let i = 0; i < entries.length; i += IMPORT_BATCH_SIZE) {
+      const batch = entries.slice(i, i + IMPORT_BATCH_SIZE)
+      await runTransaction(db, [ENTRY_STORE, INFLECTION_STORE], 'readwrite', tx => {
+        const entryStore = tx.objectStore(ENTRY_STORE)
+        const inflectionStore = tx.objectStore(INFLECTION_STORE)
+
+        batch.forEach(entry => {
+          entryStore.put(entry)
+          getInflectedForms(entry)
+            .filter(form => !words.has(form))
+            .forEach(form => inflectionStore.put({ form, lemma: entry.word }))
+        })
+      })
+    }
+
+    await runTransaction(db, [META_STORE], 'readwrite', tx => {
+      tx.objectStore(META_STORE).put({ key: 'version', value: DICTIONARY_VERSION })
+    })
+  }
+
+  /**
+   * 打开数据库
+   */
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = openIndexedDB(this.dbName, DB_VERSION, db => {
+        if (!db.objectStoreNames.contains(ENTRY_STORE)) {
+          db.createObjectStore(ENTRY_STORE, { keyPath: 'word' })
+        }
+        if (!db.objectStoreNames.contains(INFLECTION_STORE)) {
+          db.createObjectStore(INFLECTION_STORE, { keyPath: 'form' })
+        }
+        if (!db.objectStoreNames.contains(META_STORE)) {
+          db.createObjectStore(META_STORE, { keyPath: 'key' })
+        }
+      }).catch(error => {
+        this.dbPromise = null
+        throw error
+      })
+    }
+    return this.dbPromise
+  }
+}
+
+/**
+ * 解析 TSV 词典：word \t phonetic \t translation \t exchange
+ * 行尾和 translation 中的字面量换行都可能是 CRLF
+ */
+export function parseDictionary(text: string): DictionaryEntry[] {
+  const entries: DictionaryEntry[] = []
+
+  for (const line of text.split(/\r?\n/)) {
+    const [word, phonetic = '', translation = '', exchange = ''] = line.split('\t')
+    if (!word || !translation) continue
+
+    entries.push({
+      word: word.toLowerCase(),
+      phonetic,
+      translation: translation.split(/(?:\\r)?\\n/).map(item => item.trim()).filter(Boolean),
+      exchange: parseExchange(exchange)
+    })
+  }
+
+  return entries
+}
+
+/**
+ * 解析 ECDICT 词形变化字段，例如 "p:went/d:gone/i:going/3:goes"
+ */
+function parseExchange(exchange: string): Record<string, string> {
+  const result: Record<string, string> = {}
+  exchange.split('/').forEach(item => {
+    const [type, form] = item.split(':')
+    if (type && form) result[type] = form.toLowerCase()
+  })
+  return result
+}
+
+/**
+ * 获取词条的所有变形（不含原形标记 0/1）
+ */
+function getInflectedForms(entry: DictionaryEntry): string[] {
+  return Object.entries(entry.exchange)
+    .filter(([type]) => type !== '0' && type !== '1')
+    .map(([, form]) => form)
+}
@@ -0,0 +1,142 @@
+import { Translation, TranslationProvider } from '@/entities/translation'
+import type { Word } from '@/entities/word'
+import { TranslationAPIError, TranslationErrorCode } from './errors'
+import type { DictionaryEntry } from './offline-dictionary-store'
+
+/**
+ * 词典查询接口
+ */
+export interface DictionaryLookup {
+  lookup(text: string): Promise<DictionaryEntry | null>
+}
+
+/**
+ * 离线词典支持的目标语言
+ */
+const SUPPORTED_TARGET_LANGUAGE = 'zh-CN'
+
+let bundledDictionary: Promise<DictionaryLookup> | null = null
+
+/**
+ * 离线词典翻译（英译中）
+ * 无需网络和 API key，词典数据在首次查询时按需加载
+ */
+export class OfflineDictionaryAPI {
+  /**
+   * @param dictionary 词典，默认使用内置的 ECDICT 精简版
+   */
+  constructor(private dictionary?: DictionaryLookup) {}
+
+  /**
+   * 翻译文本
+   */
+  async translateText(
+    word: Word,
+    targetLanguage: string
+  ): Promise<Translation> {
+    if (targetLanguage !== SUPPORTED_TARGET_LANGUAGE) {
+      throw new TranslationAPIError({
+        code: TranslationErrorCode.REQUEST_FAILED,
+        provider: TranslationProvider.OFFLINE,
+        message: `离线词典仅支持英译中，不支持目标语言: ${targetLanguage}`
+      })
+    }
+
+    const dictionary = this.dictionary || await loadBundledDictionary()
+    const entry = await dictionary.lookup(word.text)
+
+    if (!entry) {
+      throw new TranslationAPIError({
+        code: TranslationErrorCode.REQUEST_FAILED,
+        provider: TranslationProvider.OFFLINE,
+        message: `离线词典中未找到: ${word.text}`
+      })
+    }
+
+    const definitions = entry.translation.map(parseDefinition)
+    const primary = definitions[0]?.meanings.slice(0, 3).join('；') || entry.translation[0] || ''
+
+    return {
+      originalWord: {
+        ...word,
+        language: word.language === 'auto' ? 'en' : word.language
+      },
+      result: {
+        text: primary,
+        targetLanguage,
+        phonetic: entry.phonetic || undefined,
+        definitions
+      },
+      provider: TranslationProvider.OFFLINE,
+      confidence: 0.8,
+      timestamp: Date.now(),
+      id: this.generateTranslationId()
+    }
+  }
+
+  /**
+   * 检测语言（基于字符集的简单判断）
+   */
+  async detectLanguage(text: string): Promise<string> {
+    if (/^[a-zA-Z][a-zA-Z\s'-]*$/.test(text.trim())) return 'en'
+    if (/[\u4e00-\u9fff]/.test(text)) return 'zh-CN'
+    return 'auto'
+  }
+
+  /**
+   * 生成翻译ID
+   */
+  private generateTranslationId(): string {
+    return `offline_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+  }
+}
+
+/**
+ * 加载内置词典
+ * 按需加载词典存储模块，避免未使用离线词典时增加脚本体积
+ */
+function loadBundledDictionary(): Promise<DictionaryLookup> {
+  if (!bundledDictionary) {
+    bundledDictionary = Promise.all([
+      import('./offline-dictionary-store'),
+      import('./dictionary/ecdict.tsv.gz?url')
+    ]).then(([{ OfflineDictionaryStore }, { default: dictionaryUrl }]) =>
+      new OfflineDictionaryStore(() => fetchDictionaryText(dictionaryUrl))
+    ).catch(error => {
+      bundledDictionary = null
+      throw error
+    })
+  }
+  return bundledDictionary
+}
+
+/**
+ * 下载并解压内置词典
+ */
+async function fetchDictionaryText(dictionaryUrl: string): Promise<string> {
+  const url = typeof chrome !== 'undefined' && chrome.runtime?.getURL
+    ? chrome.runtime.getURL(dictionaryUrl.replace(/^\//, ''))
+    : dictionaryUrl
+
+  const response = await fetch(url)
+  if (!response.ok || !response.body) {
+    throw new Error(`加载离线词典失败: HTTP ${response.status}`)
+  }
+
+  const stream = response.body.pipeThrough(new DecompressionStream('gzip'))
+  return new Response(stream).text()
+}
+
+/**
+ * 解析一行释义，例如 "n. 计算机, 电脑" => { partOfSpeech: 'n.', meanings: ['计算机', '电脑'] }
+ */
+function parseDefinition(line: string): { partOfSpeech: string; meanings: string[] } {
+  const match = line.match(/^([a-z]+\.)\s*(.*)$/i)
+  const partOfSpeech = match?.[1] || ''
+  const meaningText = match ? match[2] || '' : line
+
+  return {
+    partOfSpeech,
+    meanings: meaningText.split(/[,，;；]\s*/).map(m => m.trim()).filter(Boolean)
+  }
+}
@@ -0,0 +1,219 @@
+import { Translation, TranslationProvider } from '@/entities/translation'
+import type { Word } from '@/entities/word'
+import { LIBRETRANSLATE_TEMPLATE, type RestTranslationTemplate } from '@/entities/user-config'
+import { TranslationAPIError, TranslationErrorCode } from './errors'
+
+/**
+ * 自建REST翻译服务配置
+ */
+interface RestTranslateConfig {
+  /** 服务地址，例如 http://localhost:5000 */
+  endpoint: string
+  apiKey?: string
+  template?: RestTranslationTemplate
+}
+
+/**
+ * 自建REST翻译服务客户端（默认兼容LibreTranslate）
+ */
+export class RestTranslateAPI {
+  private config: RestTranslateConfig
+  private template: RestTranslationTemplate
+
+  constructor(config: RestTranslateConfig) {
+    this.config = config
+    this.template = { ...LIBRETRANSLATE_TEMPLATE, ...config.template }
+  }
+
+  /**
+   * 翻译文本
+   */
+  async translateText(
+    word: Word,
+    targetLanguage: string
+  ): Promise<Translation> {
+    const data = await this.makeRequest(this.template.translatePath, {
+      text: word.text,
+      source: toServiceLanguage(word.language || 'auto'),
+      target: toServiceLanguage(targetLanguage)
+    })
+
+    const translatedText = getByPath(data, this.template.translationPath)
+    if (typeof translatedText !== 'string' || !translatedText) {
+      throw new TranslationAPIError({
+        code: TranslationErrorCode.REQUEST_FAILED,
+        provider: TranslationProvider.LIBRETRANSLATE,
+        message: `翻译失败：响应中未找到译文 (${this.template.translationPath})`
+      })
+    }
+
+    const detected = this.template.sourceLanguagePath
+      ? getByPath(data, this.template.sourceLanguagePath)
+      : undefined
+
+    return {
+      originalWord: {
+        ...word,
+        language: typeof detected === 'string' && detected
+          ? fromServiceLanguage(detected)
+          : word.language
+      },
+      result: {
+        text: translatedText,
+        targetLanguage
+      },
+      provider: TranslationProvider.LIBRETRANSLATE,
+      confidence: 0.8,
+      timestamp: Date.now(),
+      id: this.generateTranslationId()
+    }
+  }
+
+  /**
+   * 检测语言
+   */
+  async detectLanguage(text: string): Promise<string> {
+    if (!this.template.detectPath) {
+      return 'auto'
+    }
+
+    try {
+      const data = await this.makeRequest(this.template.detectPath, {
+        text,
+        source: 'auto',
+        target: 'auto'
+      })
+
+      const language = getByPath(data, this.template.detectedLanguagePath)
+      return typeof language === 'string' && language ? fromServiceLanguage(language) : 'auto'
+    } catch (error) {
+      console.error('语言检测失败:', error)
+      return 'auto'
+    }
+  }
+
+  /**
+   * 按模板发起请求
+   */
+  private async makeRequest(
+    path: string,
+    variables: { text: string; source: string; target: string }
+  ): Promise<unknown> {
+    const url = `${this.config.endpoint.replace(/\/+$/, '')}/${path.replace(/^\/+/, '')}`
+    const body = renderTemplate(this.template.requestBody, {
+      ...variables,
+      apiKey: this.config.apiKey || ''
+    })
+
+    let response: Response
+    try {
+      response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(body)
+      })
+    } catch (error) {
+      throw new TranslationAPIError({
+        code: TranslationErrorCode.NETWORK_ERROR,
+        provider: TranslationProvider.LIBRETRANSLATE,
+        message: `自建翻译服务网络错误: ${error}`
+      })
+    }
+
+    if (!response.ok) {
+      let detail = response.statusText
+      try {
+        const data = await response.json()
+        if (data?.error) detail = data.error
+      } catch {
+        // 响应体不是JSON时使用状态文本
+      }
+
+      let code = TranslationErrorCode.REQUEST_FAILED
+      if (response.status === 403) code = TranslationErrorCode.INVALID_API_KEY
+      if (response.status === 429) code = TranslationErrorCode.RATE_LIMITED
+
+      throw new TranslationAPIError({
+        code,
+        provider: TranslationProvider.LIBRETRANSLATE,
+        status: response.status,
+        message: `自建翻译服务调用失败 (HTTP ${response.status}): ${detail}`
+      })
+    }
+
+    return response.json()
+  }
+
+  /**
+   * 生成翻译ID
+   */
+  private generateTranslationId(): string {
+    return `rest_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+  }
+
+  /**
+   * 验证API配置
+   */
+  static validateConfig(config: Partial<RestTranslateConfig>): boolean {
+    if (!config.endpoint) return false
+
+    try {
+      JSON.parse(config.template?.requestBody || LIBRETRANSLATE_TEMPLATE.requestBody)
+      return true
+    } catch {
+      return false
+    }
+  }
+}
+
+/**
+ * 渲染请求体模板
+ * 先解析JSON再替换字符串中的占位符，避免文本中的引号破坏JSON结构
+ */
+export function renderTemplate(template: string, variables: Record<string, string>): unknown {
+  const replace = (value: unknown): unknown => {
+    if (typeof value === 'string') {
+      return value.replace(/\{\{(\w+)\}\}/g, (match, name) => variables[name] ?? match)
+    }
+    if (Array.isArray(value)) {
+      return value.map(replace)
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, replace(item)])
+      )
+    }
+    return value
+  }
+
+  return replace(JSON.parse(template))
+}
+
+/**
+ * 按点分路径读取响应字段，例如 "data.0.text"
+ */
+export function getByPath(data: unknown, path: string): unknown {
+  return path.split('.').filter(Boolean).reduce<unknown>((current, key) => {
+    if (current && typeof current === 'object') {
+      return (current as Record<string, unknown>)[key]
+    }
+    return undefined
+  }, data)
+}
+
+/**
+ * 转换为服务使用的语言代码（LibreTranslate 使用不带地区的代码）
+ */
+function toServiceLanguage(language: string): string {
+  return language === 'auto' ? 'auto' : language.split('-')[0]!.toLowerCase()
+}
+
+/**
+ * 将服务返回的语言代码转换为扩展内部使用的语言代码
+ */
+function fromServiceLanguage(language: string): string {
+  const base = language.split('-')[0]!.toLowerCase()
+  return base === 'zh' ? 'zh-CN' : base
+}
@@ -0,0 +1,300 @@
+import { Translation, TranslationProvider } from '@/entities/translation'
+import type { Word } from '@/entities/word'
+import { API_ENDPOINTS } from '@/shared/config/constants'
+import { TranslationAPIError, TranslationErrorCode } from './errors'
+
+/**
+ * 有道翻译API配置
+ */
+interface YoudaoTranslateConfig {
+  /** 应用ID（appKey） */
+  apiKey?: string
+  /** 应用密钥 */
+  appSecret?: string
+  endpoint?: string
+}
+
+/**
+ * 有道翻译API响应
+ */
+interface YoudaoTranslateResponse {
+  errorCode: string
+  query?: string
+  translation?: string[]
+  /** 语言方向，例如 "en2zh-CHS" */
+  l?: string
+  basic?: {
+    phonetic?: string
+    'us-phonetic'?: string
+    'uk-phonetic'?: string
+    explains?: string[]
+  }
+  web?: Array<{
+    key: string
+    value: string[]
+  }>
+  /** 原文发音地址（带应用ID和签名） */
+  speakUrl?: string
+}
+
+/**
+ * 有道语言代码映射
+ */
+const YOUDAO_LANGUAGES: Record<string, string> = {
+  'zh-CN': 'zh-CHS',
+  'auto': 'auto'
+}
+
+/**
+ * 有道翻译API客户端
+ */
+export class YoudaoTranslateAPI {
+  private config: YoudaoTranslateConfig
+
+  constructor(config: YoudaoTranslateConfig = {}) {
+    this.config = config
+  }
+
+  /**
+   * 翻译文本
+   */
+  async translateText(
+    word: Word,
+    targetLanguage: string
+  ): Promise<Translation> {
+    const response = await this.makeRequest({
+      q: word.text,
+      from: toYoudaoLanguage(word.language || 'auto'),
+      to: toYoudaoLanguage(targetLanguage)
+    })
+
+    const translatedText = response.translation?.[0]
+    if (!translatedText) {
+      throw new TranslationAPIError({
+        code: TranslationErrorCode.REQUEST_FAILED,
+        provider: TranslationProvider.YOUDAO,
+        message: '翻译失败：未获取到翻译结果'
+      })
+    }
+
+    const { basic, web } = response
+    const sourceLanguage = parseSourceLanguage(response.l)
+
+    return {
+      originalWord: {
+        ...word,
+        language: sourceLanguage || word.language
+      },
+      result: {
+        text: translatedText,
+        targetLanguage,
+        phonetic: basic?.phonetic || basic?.['us-phonetic'] || basic?.['uk-phonetic'],
+        definitions: basic?.explains?.length
+          ? parseExplains(basic.explains)
+          : undefined,
+        examples: web?.length
+          ? web.map(item => `${item.key}: ${item.value.join('；')}`)
+          : undefined
+        // speakUrl 是带应用ID和签名的发音接口地址，不作为音频链接保存
+      },
+      provider: TranslationProvider.YOUDAO,
+      confidence: basic ? 0.95 : 0.85, // 词典释义命中时置信度更高
+      timestamp: Date.now(),
+      id: this.generateTranslationId()
+    }
+  }
+
+  /**
+   * 检测语言
+   * 有道没有独立的检测接口，通过翻译响应中的语言方向获取
+   */
+  async detectLanguage(text: string): Promise<string> {
+    try {
+      const response = await this.makeRequest({
+        q: text,
+        from: 'auto',
+        to: 'auto'
+      })
+
+      return parseSourceLanguage(response.l) || 'auto'
+    } catch (error) {
+      console.error('语言检测失败:', error)
+      return 'auto'
+    }
+  }
+
+  /**
+   * 发起翻译请求
+   */
+  private async makeRequest(params: {
+    q: string
+    from: string
+    to: string
+  }): Promise<YoudaoTranslateResponse> {
+    const { apiKey, appSecret } = this.config
+    if (!apiKey || !appSecret) {
+      throw new TranslationAPIError({
+        code: TranslationErrorCode.INVALID_API_KEY,
+        provider: TranslationProvider.YOUDAO,
+        message: '有道翻译应用ID或应用密钥未配置'
+      })
+    }
+
+    const salt = crypto.randomUUID()
+    const curtime = Math.floor(Date.now() / 1000).toString()
+    const sign = await signYoudaoRequest({
+      appKey: apiKey,
+      appSecret,
+      query: params.q,
+      salt,
+      curtime
+    })
+
+    const body = new URLSearchParams({
+      ...params,
+      appKey: apiKey,
+      salt,
+      sign,
+      signType: 'v3',
+      curtime
+    })
+
+    let response: Response
+    try {
+      response = await fetch(this.config.endpoint || API_ENDPOINTS.YOUDAO_TRANSLATE, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded'
+        },
+        body: body.toString()
+      })
+    } catch (error) {
+      throw new TranslationAPIError({
+        code: TranslationErrorCode.NETWORK_ERROR,
+        provider: TranslationProvider.YOUDAO,
+        message: `有道翻译API网络错误: ${error}`
+      })
+    }
+
+    if (!response.ok) {
+      throw new TranslationAPIError({
+        code: TranslationErrorCode.REQUEST_FAILED,
+        provider: TranslationProvider.YOUDAO,
+        status: response.status,
+        message: `有道翻译API调用失败 (HTTP ${response.status}): ${response.statusText}`
+      })
+    }
+
+    const data: YoudaoTranslateResponse = await response.json()
+    if (data.errorCode !== '0') {
+      throw toYoudaoError(data.errorCode)
+    }
+
+    return data
+  }
+
+  /**
+   * 生成翻译ID
+   */
+  private generateTranslationId(): string {
+    return `youdao_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+  }
+
+  /**
+   * 验证API配置
+   */
+  static validateConfig(config: YoudaoTranslateConfig): boolean {
+    return !!(config.apiKey && config.appSecret)
+  }
+}
+
+/**
+ * 生成有道 v3 签名
+ * sign = sha256(appKey + input + salt + curtime + appSecret)
+ */
+export async function signYoudaoRequest(params: {
+  appKey: string
+  appSecret: string
+  query: string
+  salt: string
+  curtime: string
+}): Promise<string> {
+  const { appKey, appSecret, query, salt, curtime } = params
+  const signStr = appKey + truncateQuery(query) + salt + curtime + appSecret
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(signStr))
+
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('')
+}
+
+/**
+ * 签名用的输入截断：长度超过20时取前10个字符 + 长度 + 后10个字符
+ */
+function truncateQuery(query: string): string {
+  const chars = Array.from(query)
+  if (chars.length <= 20) return query
+
+  return chars.slice(0, 10).join('') + chars.length + chars.slice(-10).join('')
+}
+
+/**
+ * 解析词典释义，例如 "n. 你好；问候" => { partOfSpeech: 'n.', meanings: ['你好', '问候'] }
+ */
+function parseExplains(explains: string[]): Array<{ partOfSpeech: string; meanings: string[] }> {
+  return explains.map(explain => {
+    const match = explain.match(/^([a-z]+\.(?:\s*&\s*[a-z]+\.)?)\s*(.*)$/i)
+    const partOfSpeech = match?.[1] || ''
+    const meaningText = match ? match[2] || '' : explain
+
+    return {
+      partOfSpeech,
+      meanings: meaningText.split(/[；;]/).map(m => m.trim()).filter(Boolean)
+    }
+  })
+}
+
+/**
+ * 从语言方向（例如 "en2zh-CHS"）中解析源语言
+ */
+function parseSourceLanguage(direction?: string): string | null {
+  const source = direction?.split('2')[0]
+  if (!source) return null
+
+  return source === 'zh-CHS' ? 'zh-CN' : source
+}
+
+/**
+ * 转换为有道语言代码
+ */
+function toYoudaoLanguage(language: string): string {
+  return YOUDAO_LANGUAGES[language] || language.split('-')[0]!
+}
+
+/**
+ * 将有道错误码转换为翻译API错误
+ */
+function toYoudaoError(errorCode: string): TranslationAPIError {
+  let code: TranslationErrorCode
+  switch (errorCode) {
+    case '108': // 应用ID无效
+    case '110': // 无相关服务的有效实例
+    case '202': // 签名检验失败
+      code = TranslationErrorCode.INVALID_API_KEY
+      break
+    case '401': // 账户已经欠费
+      code = TranslationErrorCode.QUOTA_EXCEEDED
+      break
+    case '411': // 访问频率受限
+      code = TranslationErrorCode.RATE_LIMITED
+      break
+    default:
+      code = TranslationErrorCode.REQUEST_FAILED
+  }
+
+  return new TranslationAPIError({
+    code,
+    provider: TranslationProvider.YOUDAO,
+    message: `有道翻译API调用失败 (错误码 ${errorCode})`
+  })
+}
@@ -6,8 +6,12 @@
 export const STORAGE_KEYS = {
   USER_CONFIG: 'user_config',
   NOTION_RECORDS: 'notion_records',
+  WORD_STORE: 'word_store',
+  NOTION_SYNC_STATE: 'notion_sync_state',
   TRANSLATION_CACHE: 'translation_cache',
-  LAST_SELECTION: 'last_selection'
+  LAST_SELECTION: 'last_selection',
+  SECRET_VAULT: 'secret_vault',
+  SECRET_VAULT_SESSION_KEY: 'secret_vault_session_key'
 } as const
 
 // 默认配置值
@@ -17,6 +21,9 @@ export const DEFAULT_VALUES = {
   MAX_CACHE_SIZE: 1000, // 最大缓存数量
   MAX_CONTEXT_LENGTH: 200, // 最大上下文长度
   NOTION_SYNC_INTERVAL: 30000, // Notion同步间隔（毫秒）
+  LLM_MODEL: 'gpt-4o-mini', // 大模型翻译默认模型
+  MESSAGE_TIMEOUT: 30000, // 扩展消息响应超时（毫秒）
+  NOTION_SYNC_WAIT_TIMEOUT: 20000, // 等待单条记录同步结果的最长时间（毫秒），需短于消息响应超时
 } as const
 
 // 支持的语言映射
@@ -43,7 +50,15 @@ export const EXTENSION_EVENTS = {
   NOTION_SAVE_REQUESTED: 'notion_save_requested',
   NOTION_SAVE_COMPLETED: 'notion_save_completed',
   CONFIG_UPDATED: 'config_updated',
-  AUTO_TRANSLATION_TOGGLED: 'auto_translation_toggled'
+  AUTO_TRANSLATION_TOGGLED: 'auto_translation_toggled',
+  TRANSLATE_WORD: 'translate_word',
+  DETECT_LANGUAGE: 'detect_language',
+  AVAILABLE_PROVIDERS: 'available_providers',
+  NOTION_QUEUE_STATUS: 'notion_queue_status',
+  TRANSLATION_CACHE_GET: 'translation_cache_get',
+  TRANSLATION_CACHE_SET: 'translation_cache_set',
+  TRANSLATION_CACHE_STATS: 'translation_cache_stats',
+  TRANSLATION_CACHE_CLEAR: 'translation_cache_clear'
 } as const
 
 // API端点
@@ -51,7 +66,11 @@ export const API_ENDPOINTS = {
   GOOGLE_TRANSLATE: 'https://translation.googleapis.com/language/translate/v2',
   GOOGLE_DETECT: 'https://translation.googleapis.com/language/translate/v2/detect',
   DEEPL_TRANSLATE: 'https://api-free.deepl.com/v2/translate',
-  NOTION_API: 'https://api.notion.com/v1'
+  DEEPL_TRANSLATE_PRO: 'https://api.deepl.com/v2/translate',
+  YOUDAO_TRANSLATE: 'https://openapi.youdao.com/api',
+  OPENAI_API: 'https://api.openai.com/v1',
+  NOTION_API: 'https://api.notion.com/v1',
+  NOTION_OAUTH_AUTHORIZE: 'https://api.notion.com/v1/oauth/authorize'
 } as const
 
 // 错误类型
@@ -116,6 +135,27 @@ export const TRANSLATION_PROVIDERS = {
     supportsFree: false,
     supportsPhonetic: true,
     supportsDefinitions: true
+  },
+  llm: {
+    name: '大模型翻译',
+    icon: '🤖',
+    supportsFree: false,
+    supportsPhonetic: true,
+    supportsDefinitions: true
+  },
+  offline: {
+    name: '离线词典',
+    icon: '📖',
+    supportsFree: true,
+    supportsPhonetic: true,
+    supportsDefinitions: true
+  },
+  libretranslate: {
+    name: 'LibreTranslate / 自建服务',
+    icon: '🏠',
+    supportsFree: true,
+    supportsPhonetic: false,
+    supportsDefinitions: false
   }
 } as const
 
@@ -0,0 +1,107 @@
+/**
+ * WebCrypto 加密工具（AES-GCM）
+ */
+
+/**
+ * 加密后的文本
+ */
+export interface EncryptedText {
+  /** 初始化向量（base64） */
+  iv: string
+  /** 密文（base64） */
+  data: string
+}
+
+/**
+ * 由密码派生密钥时的 PBKDF2 迭代次数
+ */
+export const PBKDF2_ITERATIONS = 310000
+
+const IV_LENGTH = 12
+const SALT_LENGTH = 16
+
+/**
+ * 生成随机密钥（不可导出）
+ */
+export function generateKey(): Promise<CryptoKey> {
+  return crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt'])
+}
+
+/**
+ * 由密码派生密钥（PBKDF2-SHA256）
+ */
+export async function deriveKey(
+  passphrase: string,
+  salt: BufferSource,
+  options: { extractable?: boolean; iterations?: number } = {}
+): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  )
+
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: options.iterations ?? PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    options.extractable ?? false,
+    ['encrypt', 'decrypt']
+  )
+}
+
+/**
+ * 导出密钥为 base64（密钥需要可导出）
+ */
+export async function exportKey(key: CryptoKey): Promise<string> {
+  return toBase64(new Uint8Array(await crypto.subtle.exportKey('raw', key)))
+}
+
+/**
+ * 从 base64 导入密钥（不可导出）
+ */
+export function importKey(raw: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', fromBase64(raw), { name: 'AES-GCM' }, false, ['encrypt', 'decrypt'])
+}
+
+/**
+ * 生成随机盐
+ */
+export function generateSalt(): Uint8Array<ArrayBuffer> {
+  return crypto.getRandomValues(new Uint8Array(SALT_LENGTH))
+}
+
+/**
+ * 加密文本（每次使用新的随机 IV）
+ */
+export async function encryptText(key: CryptoKey, text: string): Promise<EncryptedText> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH))
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(text))
+  return { iv: toBase64(iv), data: toBase64(new Uint8Array(data)) }
+}
+
+/**
+ * 解密文本，密钥不正确或密文被篡改时抛出错误
+ */
+export async function decryptText(key: CryptoKey, encrypted: EncryptedText): Promise<string> {
+  const data = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(encrypted.iv) },
+    key,
+    fromBase64(encrypted.data)
+  )
+  return new TextDecoder().decode(data)
+}
+
+export function toBase64(bytes: Uint8Array): string {
+  let binary = ''
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte)
+  })
+  return btoa(binary)
+}
+
+export function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(value), char => char.charCodeAt(0))
+}
@@ -0,0 +1,48 @@
+/**
+ * IndexedDB 工具
+ */
+
+/**
+ * 打开数据库
+ */
+export function openDatabase(
+  name: string,
+  version: number,
+  upgrade: (db: IDBDatabase) => void
+): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(name, version)
+
+    request.onupgradeneeded = () => upgrade(request.result)
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+/**
+ * 包装 IDBRequest 为 Promise
+ */
+export function requestToPromise<T>(request: IDBRequest): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+/**
+ * 执行事务并等待完成
+ */
+export function runTransaction(
+  db: IDBDatabase,
+  storeNames: string[],
+  mode: IDBTransactionMode,
+  run: (tx: IDBTransaction) => void
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeNames, mode)
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error)
+    run(tx)
+  })
+}
@@ -0,0 +1,292 @@
+/**
+ * 扩展消息总线
+ * 基于 chrome.runtime / chrome.tabs 的类型安全请求-响应封装
+ */
+
+import { DEFAULT_VALUES } from '@/shared/config/constants'
+
+/**
+ * 消息协议：消息类型 => 请求数据与响应数据
+ */
+export type MessageSchema = Record<string, { request: unknown; response: unknown }>
+
+export type MessageType<M extends MessageSchema> = keyof M & string
+
+export type MessageRequest<M extends MessageSchema, T extends keyof M> = M[T]['request']
+
+export type MessageResponse<M extends MessageSchema, T extends keyof M> = M[T]['response']
+
+/**
+ * 消息处理函数
+ */
+export type MessageHandler<M extends MessageSchema, T extends keyof M> = (
+  data: MessageRequest<M, T>,
+  sender: chrome.runtime.MessageSender
+) => MessageResponse<M, T> | Promise<MessageResponse<M, T>>
+
+/**
+ * 已注册的处理函数（按消息类型分发，请求数据在收到消息时才能确定类型）
+ */
+type RegisteredHandler = (data: unknown, sender: chrome.runtime.MessageSender) => unknown
+
+/**
+ * 序列化后的错误（跨上下文传递时 Error 对象会丢失原型）
+ */
+export interface SerializedError {
+  name: string
+  message: string
+  /** 错误上的附加字段，例如 code、provider、status */
+  details?: Record<string, string | number | boolean>
+}
+
+/**
+ * 消息信封
+ */
+interface MessageEnvelope {
+  type: string
+  data: unknown
+}
+
+/**
+ * 响应信封
+ */
+type ResponseEnvelope =
+  | { success: true; data: unknown }
+  | { success: false; error: SerializedError }
+
+type MessageListener = (
+  message: unknown,
+  sender: chrome.runtime.MessageSender,
+  sendResponse: (response: ResponseEnvelope) => void
+) => boolean
+
+/**
+ * 消息总线依赖的 chrome.runtime 子集
+ */
+export interface RuntimeMessaging {
+  sendMessage(message: MessageEnvelope): Promise<unknown>
+  onMessage: {
+    addListener(listener: MessageListener): void
+    removeListener(listener: MessageListener): void
+  }
+}
+
+/**
+ * 消息总线依赖的 chrome.tabs 子集
+ */
+export interface TabsMessaging {
+  query(queryInfo: Record<string, never>): Promise<Array<{ id?: number }>>
+  sendMessage(tabId: number, message: MessageEnvelope): Promise<unknown>
+}
+
+/**
+ * 消息总线选项
+ */
+export interface MessageBusOptions {
+  runtime?: RuntimeMessaging
+  tabs?: TabsMessaging
+  /** 默认超时时间（毫秒） */
+  timeout?: number
+}
+
+/**
+ * 消息响应超时错误
+ */
+export class MessageTimeoutError extends Error {
+  constructor(public readonly type: string, public readonly timeout: number) {
+    super(`消息 ${type} 响应超时 (${timeout}ms)`)
+    this.name = 'MessageTimeoutError'
+  }
+}
+
+/**
+ * 类型安全的消息总线
+ */
+export class MessageBus<M extends MessageSchema> {
+  private handlers = new Map<string, RegisteredHandler>()
+  private listener: MessageListener | null = null
+  private options: MessageBusOptions
+
+  constructor(options: MessageBusOptions = {}) {
+    this.options = options
+  }
+
+  /**
+   * 发送请求到扩展的其他上下文（通常是后台脚本）
+   */
+  async request<T extends MessageType<M>>(
+    type: T,
+    data: MessageRequest<M, T>,
+    timeout?: number
+  ): Promise<MessageResponse<M, T>> {
+    const response = await this.withTimeout(
+      type,
+      this.runtime.sendMessage({ type, data }),
+      timeout
+    )
+    return this.unwrapResponse(type, response)
+  }
+
+  /**
+   * 发送请求到指定标签页的内容脚本
+   */
+  async sendToTab<T extends MessageType<M>>(
+    tabId: number,
+    type: T,
+    data: MessageRequest<M, T>,
+    timeout?: number
+  ): Promise<MessageResponse<M, T>> {
+    const response = await this.withTimeout(
+      type,
+      this.tabs.sendMessage(tabId, { type, data }),
+      timeout
+    )
+    return this.unwrapResponse(type, response)
+  }
+
+  /**
+   * 广播消息到所有标签页（忽略无法接收消息的标签页）
+   */
+  async broadcast<T extends MessageType<M>>(type: T, data: MessageRequest<M, T>): Promise<void> {
+    const tabs = await this.tabs.query({})
+
+    await Promise.all(
+      tabs
+        .filter(tab => tab.id !== undefined)
+        .map(tab => this.sendToTab(tab.id!, type, data).catch(() => {
+          // 忽略未注入内容脚本的标签页
+        }))
+    )
+  }
+
+  /**
+   * 注册消息处理函数，返回取消注册函数
+   */
+  on<T extends MessageType<M>>(type: T, handler: MessageHandler<M, T>): () => void {
+    this.handlers.set(type, handler as RegisteredHandler)
+    this.listen()
+
+    return () => {
+      if (this.handlers.get(type) === handler) {
+        this.handlers.delete(type)
+      }
+    }
+  }
+
+  /**
+   * 移除所有处理函数和监听器
+   */
+  destroy(): void {
+    if (this.listener) {
+      this.runtime.onMessage.removeListener(this.listener)
+      this.listener = null
+    }
+    this.handlers.clear()
+  }
+
+  /**
+   * 注册 onMessage 监听（只注册一次）
+   */
+  private listen(): void {
+    if (this.listener) return
+
+    this.listener = (message, sender, sendResponse) => {
+      if (!isMessageEnvelope(message)) return false
+
+      const handler = this.handlers.get(message.type)
+      if (!handler) return false
+
+      Promise.resolve()
+        .then(() => handler(message.data, sender))
+        .then(
+          data => sendResponse({ success: true, data }),
+          error => sendResponse({ success: false, error: serializeError(error) })
+        )
+
+      return true // 异步响应
+    }
+
+    this.runtime.onMessage.addListener(this.listener)
+  }
+
+  /**
+   * 解析响应信封
+   */
+  private unwrapResponse<T extends MessageType<M>>(type: T, response: unknown): MessageResponse<M, T> {
+    if (!isResponseEnvelope(response)) {
+      throw new Error(`消息 ${type} 没有接收方或响应格式无效`)
+    }
+    if (!response.success) {
+      throw deserializeError(response.error)
+    }
+    return response.data as MessageResponse<M, T>
+  }
+
+  /**
+   * 为请求添加超时
+   */
+  private withTimeout<T>(type: string, promise: Promise<T>, timeout?: number): Promise<T> {
+    const ms = timeout ?? this.options.timeout ?? DEFAULT_VALUES.MESSAGE_TIMEOUT
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => reject(new MessageTimeoutError(type, ms)), ms)
+      promise.then(
+        value => {
+          clearTimeout(timer)
+          resolve(value)
+        },
+        error => {
+          clearTimeout(timer)
+          reject(error)
+        }
+      )
+    })
+  }
+
+  private get runtime(): RuntimeMessaging {
+    return this.options.runtime ?? (chrome.runtime as unknown as RuntimeMessaging)
+  }
+
+  private get tabs(): TabsMessaging {
+    return this.options.tabs ?? (chrome.tabs as unknown as TabsMessaging)
+  }
+}
+
+/**
+ * 序列化错误，保留 name、message 和基础类型的附加字段
+ */
+export function serializeError(error: unknown): SerializedError {
+  if (!(error instanceof Error)) {
+    return { name: 'Error', message: String(error) }
+  }
+
+  const details: Record<string, string | number | boolean> = {}
+  Object.entries(error).forEach(([key, value]) => {
+    if (['string', 'number', 'boolean'].includes(typeof value)) {
+      details[key] = value
+    }
+  })
+
+  return {
+    name: error.name,
+    message: error.message,
+    ...(Object.keys(details).length > 0 ? { details } : {})
+  }
+}
+
+/**
+ * 还原序列化的错误
+ */
+export function deserializeError(serialized: SerializedError): Error {
+  const error = new Error(serialized.message)
+  error.name = serialized.name
+  return Object.assign(error, serialized.details)
+}
+
+function isMessageEnvelope(message: unknown): message is MessageEnvelope {
+  return !!message && typeof message === 'object' && typeof (message as MessageEnvelope).type === 'string'
+}
+
+function isResponseEnvelope(response: unknown): response is ResponseEnvelope {
+  return !!response && typeof response === 'object' && typeof (response as ResponseEnvelope).success === 'boolean'
+}
@@ -0,0 +1,230 @@
+import { STORAGE_KEYS } from '@/shared/config/constants'
+import { storage, TypedStorage, type StorageArea } from './storage'
+import { openDatabase, requestToPromise, runTransaction } from './indexed-db'
+import {
+  decryptText,
+  deriveKey,
+  encryptText,
+  exportKey,
+  fromBase64,
+  generateKey,
+  generateSalt,
+  importKey,
+  toBase64,
+  type EncryptedText
+} from './crypto'
+
+/**
+ * 加密密钥来源：设备密钥（保存在 IndexedDB 中，不可导出）或用户设置的密码
+ */
+export type VaultKeySource = 'device' | 'passphrase'
+
+/**
+ * 密钥库状态
+ */
+export interface SecretVaultStatus {
+  keySource: VaultKeySource
+  /** 使用密码时，本次浏览器会话中是否尚未解锁 */
+  locked: boolean
+}
+
+/**
+ * 持久化的密钥库
+ */
+interface SecretVaultData {
+  keySource: VaultKeySource
+  /** 密码派生密钥的盐（base64） */
+  salt?: string
+  /** 用于校验密码的密文 */
+  check?: EncryptedText
+  /** 加密的密钥（键为密钥ID） */
+  secrets: Record<string, EncryptedText>
+}
+
+const EMPTY_VAULT: SecretVaultData = { keySource: 'device', secrets: {} }
+const PASSPHRASE_CHECK = 'notions-words'
+
+const DB_NAME = 'notions-words-vault'
+const DB_VERSION = 1
+const KEY_STORE = 'keys'
+const DEVICE_KEY_ID = 'device'
+
+/**
+ * 密钥库已锁定（使用密码但本次会话中尚未解锁）
+ */
+export class SecretVaultLockedError extends Error {
+  constructor() {
+    super('密钥库已锁定，请先在设置页面输入密码解锁')
+    this.name = 'SecretVaultLockedError'
+  }
+}
+
+/**
+ * 加密的密钥库（AES-GCM）
+ * 默认使用设备密钥；设置密码后由 PBKDF2 派生密钥，解锁后的密钥只保存在会话存储中
+ */
+export class SecretVault {
+  private vaultStorage: TypedStorage<SecretVaultData>
+  private sessionStorage: TypedStorage<string | null>
+  private dbPromise: Promise<IDBDatabase> | null = null
+
+  constructor(
+    area: StorageArea = storage.local,
+    sessionArea: StorageArea = storage.session
+  ) {
+    this.vaultStorage = new TypedStorage(STORAGE_KEYS.SECRET_VAULT, EMPTY_VAULT, area)
+    this.sessionStorage = new TypedStorage<string | null>(STORAGE_KEYS.SECRET_VAULT_SESSION_KEY, null, sessionArea)
+  }
+
+  /**
+   * 获取密钥库状态
+   */
+  async getStatus(): Promise<SecretVaultStatus> {
+    const data = await this.vaultStorage.get()
+    return {
+      keySource: data.keySource,
+      locked: data.keySource === 'passphrase' && !(await this.sessionStorage.get())
+    }
+  }
+
+  /**
+   * 解密全部密钥，无法解密的密钥（例如设备密钥已被清除）会被忽略
+   */
+  async getAll(): Promise<Record<string, string>> {
+    const data = await this.vaultStorage.get()
+    if (Object.keys(data.secrets).length === 0) return {}
+
+    let key: CryptoKey
+    try {
+      key = await this.getKey(data)
+    } catch (error) {
+      if (error instanceof SecretVaultLockedError) throw error
+      console.error('读取设备密钥失败:', error)
+      return {}
+    }
+
+    const secrets: Record<string, string> = {}
+    for (const [id, encrypted] of Object.entries(data.secrets)) {
+      try {
+        secrets[id] = await decryptText(key, encrypted)
+      } catch (error) {
+        console.error(`解密密钥失败 (${id}):`, error)
+      }
+    }
+    return secrets
+  }
+
+  /**
+   * 加密并替换全部密钥（未包含的密钥会被删除）
+   */
+  async setAll(secrets: Record<string, string>): Promise<void> {
+    const data = await this.vaultStorage.get()
+    const key = await this.getKey(data, true)
+    await this.vaultStorage.set({ ...data, secrets: await this.encryptAll(key, secrets) })
+  }
+
+  /**
+   * 使用密码解锁（本次浏览器会话内有效）
+   */
+  async unlock(passphrase: string): Promise<void> {
+    const data = await this.vaultStorage.get()
+    if (data.keySource !== 'passphrase' || !data.salt || !data.check) return
+
+    const key = await deriveKey(passphrase, fromBase64(data.salt), { extractable: true })
+    try {
+      await decryptText(key, data.check)
+    } catch {
+      throw new Error('密码不正确')
+    }
+    await this.sessionStorage.set(await exportKey(key))
+  }
+
+  /**
+   * 锁定密钥库（清除会话中的密钥）
+   */
+  async lock(): Promise<void> {
+    await this.sessionStorage.remove()
+  }
+
+  /**
+   * 设置或移除密码，并用新的密钥重新加密全部密钥（需要先解锁）
+   */
+  async setPassphrase(passphrase: string | null): Promise<void> {
+    const secrets = await this.getAll()
+
+    if (passphrase) {
+      const salt = generateSalt()
+      const key = await deriveKey(passphrase, salt, { extractable: true })
+      await this.vaultStorage.set({
+        keySource: 'passphrase',
+        salt: toBase64(salt),
+        check: await encryptText(key, PASSPHRASE_CHECK),
+        secrets: await this.encryptAll(key, secrets)
+      })
+      await this.sessionStorage.set(await exportKey(key))
+    } else {
+      const key = await this.loadDeviceKey(true)
+      await this.vaultStorage.set({ keySource: 'device', secrets: await this.encryptAll(key, secrets) })
+      await this.sessionStorage.remove()
+    }
+  }
+
+  private async encryptAll(key: CryptoKey, secrets: Record<string, string>): Promise<Record<string, EncryptedText>> {
+    const encrypted: Record<string, EncryptedText> = {}
+    for (const [id, value] of Object.entries(secrets)) {
+      if (value) {
+        encrypted[id] = await encryptText(key, value)
+      }
+    }
+    return encrypted
+  }
+
+  /**
+   * 获取当前的加密密钥
+   */
+  private async getKey(data: SecretVaultData, create = false): Promise<CryptoKey> {
+    if (data.keySource === 'passphrase') {
+      const raw = await this.sessionStorage.get()
+      if (!raw) throw new SecretVaultLockedError()
+      return importKey(raw)
+    }
+    return this.loadDeviceKey(create)
+  }
+
+  /**
+   * 读取设备密钥（CryptoKey 直接保存在 IndexedDB 中，原始密钥无法被读取）
+   */
+  private async loadDeviceKey(create: boolean): Promise<CryptoKey> {
+    const db = await this.openDatabase()
+    const record = await requestToPromise<{ id: string; key: CryptoKey } | undefined>(
+      db.transaction(KEY_STORE).objectStore(KEY_STORE).get(DEVICE_KEY_ID)
+    )
+    if (record) return record.key
+    if (!create) throw new Error('设备密钥不存在，请重新填写密钥')
+
+    // 选项页和后台脚本可能同时创建，使用 add 保证只保存一个
+    try {
+      const key = await generateKey()
+      await runTransaction(db, [KEY_STORE], 'readwrite', tx => {
+        tx.objectStore(KEY_STORE).add({ id: DEVICE_KEY_ID, key })
+      })
+      return key
+    } catch {
+      return this.loadDeviceKey(false)
+    }
+  }
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = openDatabase(DB_NAME, DB_VERSION, db => {
+        if (!db.objectStoreNames.contains(KEY_STORE)) {
+          db.createObjectStore(KEY_STORE, { keyPath: 'id' })
+        }
+      }).catch(error => {
+        this.dbPromise = null
+        throw error
+      })
+    }
+    return this.dbPromise
+  }
+}
@@ -65,11 +65,19 @@ class ChromeStorage implements StorageArea {
 }
 
 /**
- * 存储适配器
+ * 存储适配器（使用时才访问 chrome.storage，模块可以在扩展环境之外加载）
  */
 export const storage = {
-  local: new ChromeStorage(chrome.storage.local),
-  sync: new ChromeStorage(chrome.storage.sync)
+  get local(): StorageArea {
+    return new ChromeStorage(chrome.storage.local)
+  },
+  get sync(): StorageArea {
+    return new ChromeStorage(chrome.storage.sync)
+  },
+  // 只保存在内存中，浏览器关闭后清除
+  get session(): StorageArea {
+    return new ChromeStorage(chrome.storage.session)
+  }
 }
 
 /**
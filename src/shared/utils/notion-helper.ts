@@ -37,6 +37,17 @@ export function extractDatabaseId(url: string): string | null {
   }
 }
 
+/**
+ * 从 Notion 页面 URL 或 ID 中提取页面 ID（页面和数据库使用相同的 ID 格式）
+ */
+export function extractPageId(input: string): string | null {
+  const value = input.trim()
+  if (isValidDatabaseId(value)) {
+    return formatDatabaseId(value)
+  }
+  return extractDatabaseId(value)
+}
+
 /**
  * 格式化数据库 ID（添加连字符）
  */
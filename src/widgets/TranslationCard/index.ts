@@ -0,0 +1,2 @@
+export { TranslationCard, type TranslationCardProps } from './ui/TranslationCard'
+export { TranslationCardHost, type TranslationCardHostProps } from './ui/TranslationCardHost'
\ No newline at end of file
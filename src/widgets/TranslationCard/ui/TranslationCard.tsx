@@ -1,8 +1,13 @@
 import React, { useEffect, useState } from 'react'
 import { X, Volume2, Copy, Save, RotateCcw } from 'lucide-react'
-import type { Translation, TranslationProvider } from '@/entities/translation'
+import {
+  getBestTranslation,
+  type Translation,
+  type TranslationComparison,
+  type TranslationProvider
+} from '@/entities/translation'
 import type { Word } from '@/entities/word'
-import { CSS_CLASSES, Z_INDEX } from '@/shared/config/constants'
+import { CSS_CLASSES, TRANSLATION_PROVIDERS, Z_INDEX } from '@/shared/config/constants'
 
 /**
  * 翻译卡片属性
@@ -12,6 +17,8 @@ export interface TranslationCardProps {
   word: Word
   /** 翻译结果 */
   translation?: Translation
+  /** 多提供商对比结果（设置后按提供商分标签展示） */
+  comparison?: TranslationComparison
   /** 加载状态 */
   loading?: boolean
   /** 错误信息 */
@@ -41,6 +48,7 @@ export interface TranslationCardProps {
 export const TranslationCard: React.FC<TranslationCardProps> = ({
   word,
   translation,
+  comparison,
   loading = false,
   error,
   position,
@@ -54,6 +62,7 @@ export const TranslationCard: React.FC<TranslationCardProps> = ({
   onCopy
 }) => {
   const [isAnimating, setIsAnimating] = useState(false)
+  const [selectedProvider, setSelectedProvider] = useState<TranslationProvider | undefined>()
 
   useEffect(() => {
     if (visible) {
@@ -61,8 +70,19 @@ export const TranslationCard: React.FC<TranslationCardProps> = ({
     }
   }, [visible])
 
+  // 对比结果变化时默认选中置信度最高的提供商
+  useEffect(() => {
+    if (comparison) {
+      setSelectedProvider(getBestTranslation(comparison)?.provider ?? comparison.results[0]?.provider)
+    }
+  }, [comparison])
+
   if (!visible) return null
 
+  const selectedItem = comparison?.results.find(item => item.provider === selectedProvider)
+  const activeTranslation = comparison ? selectedItem?.translation : translation
+  const activeError = comparison ? selectedItem?.error : error
+
   const handleClose = () => {
     setIsAnimating(false)
     setTimeout(() => {
@@ -80,19 +100,19 @@ export const TranslationCard: React.FC<TranslationCardProps> = ({
   }
 
   const handleSave = () => {
-    if (translation) {
-      onSaveToNotion?.(translation)
+    if (activeTranslation) {
+      onSaveToNotion?.(activeTranslation)
     }
   }
 
   const handlePlayAudio = () => {
-    if (translation) {
-      onPlayAudio?.(translation.result.text)
+    if (activeTranslation) {
+      onPlayAudio?.(activeTranslation.result.text)
     }
   }
 
   const handleRetry = (provider?: TranslationProvider) => {
-    onRetry?.(provider)
+    onRetry?.(provider ?? (comparison ? selectedProvider : undefined))
   }
 
   // 计算卡片位置，确保不超出屏幕边界
@@ -147,7 +167,11 @@ export const TranslationCard: React.FC<TranslationCardProps> = ({
           <span className="text-sm font-medium text-gray-900 dark:text-gray-100">
             翻译结果
           </span>
-          {currentProvider && (
+          {comparison ? (
+            <span className="px-2 py-1 text-xs bg-purple-100 dark:bg-purple-900 text-purple-800 dark:text-purple-200 rounded">
+              对比 {comparison.results.length}
+            </span>
+          ) : currentProvider && (
             <span className="px-2 py-1 text-xs bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-200 rounded">
               {currentProvider}
             </span>
@@ -177,6 +201,27 @@ export const TranslationCard: React.FC<TranslationCardProps> = ({
           )}
         </div>
 
+        {/* 提供商标签（对比模式） */}
+        {comparison && (
+          <div className="flex space-x-1 border-b border-gray-200 dark:border-gray-700 overflow-x-auto">
+            {comparison.results.map(item => (
+              <button
+                key={item.provider}
+                onClick={() => setSelectedProvider(item.provider)}
+                className={`px-2 py-1 text-xs whitespace-nowrap border-b-2 ${
+                  item.provider === selectedProvider
+                    ? 'border-blue-600 text-blue-600 dark:text-blue-400'
+                    : 'border-transparent text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200'
+                }`}
+                title={item.error || `${item.duration}ms`}
+              >
+                {TRANSLATION_PROVIDERS[item.provider].icon} {TRANSLATION_PROVIDERS[item.provider].name}
+                {item.error && <span className="ml-1 text-red-500">!</span>}
+              </button>
+            ))}
+          </div>
+        )}
+
         {/* 翻译结果 */}
         <div>
           <div className="text-sm text-gray-500 dark:text-gray-400 mb-1">翻译</div>
@@ -188,10 +233,10 @@ export const TranslationCard: React.FC<TranslationCardProps> = ({
             </div>
           )}
 
-          {error && (
+          {activeError && (
             <div className="space-y-2">
               <div className="text-red-600 dark:text-red-400 text-sm">
-                翻译失败: {error}
+                翻译失败: {activeError}
               </div>
               <div className="flex space-x-2">
                 <button
@@ -218,21 +263,21 @@ export const TranslationCard: React.FC<TranslationCardProps> = ({
             </div>
           )}
 
-          {translation && !loading && !error && (
+          {activeTranslation && !loading && !activeError && (
             <div className="space-y-2">
               <div className="text-base text-gray-900 dark:text-gray-100">
-                {translation.result.text}
+                {activeTranslation.result.text}
               </div>
               
-              {translation.result.phonetic && (
+              {activeTranslation.result.phonetic && (
                 <div className="text-sm text-gray-500 dark:text-gray-400">
-                  [{translation.result.phonetic}]
+                  [{activeTranslation.result.phonetic}]
                 </div>
               )}
 
-              {translation.result.definitions && translation.result.definitions.length > 0 && (
+              {activeTranslation.result.definitions && activeTranslation.result.definitions.length > 0 && (
                 <div className="space-y-1">
-                  {translation.result.definitions.map((def, index) => (
+                  {activeTranslation.result.definitions.map((def, index) => (
                     <div key={index} className="text-sm">
                       <span className="font-medium text-gray-700 dark:text-gray-300">
                         {def.partOfSpeech}:
@@ -245,10 +290,10 @@ export const TranslationCard: React.FC<TranslationCardProps> = ({
                 </div>
               )}
 
-              {translation.result.examples && translation.result.examples.length > 0 && (
+              {activeTranslation.result.examples && activeTranslation.result.examples.length > 0 && (
                 <div className="space-y-1">
                   <div className="text-sm font-medium text-gray-700 dark:text-gray-300">例句:</div>
-                  {translation.result.examples.slice(0, 2).map((example, index) => (
+                  {activeTranslation.result.examples.slice(0, 2).map((example, index) => (
                     <div key={index} className="text-sm text-gray-600 dark:text-gray-400 italic">
                       {example}
                     </div>
@@ -261,7 +306,7 @@ export const TranslationCard: React.FC<TranslationCardProps> = ({
       </div>
 
       {/* 操作按钮 */}
-      {translation && !loading && !error && (
+      {activeTranslation && !loading && !activeError && (
         <div className="flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-700 border-t border-gray-200 dark:border-gray-600">
           <div className="flex space-x-2">
             <button
@@ -274,7 +319,7 @@ export const TranslationCard: React.FC<TranslationCardProps> = ({
             </button>
             
             <button
-              onClick={() => handleCopy(translation.result.text)}
+              onClick={() => handleCopy(activeTranslation.result.text)}
               className="flex items-center space-x-1 px-3 py-1 text-xs text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600 rounded"
               title="复制翻译"
             >
@@ -289,7 +334,7 @@ export const TranslationCard: React.FC<TranslationCardProps> = ({
             title="保存到Notion"
           >
             <Save size={12} />
-            <span>保存</span>
+            <span>{comparison ? '保存此结果' : '保存'}</span>
           </button>
         </div>
       )}
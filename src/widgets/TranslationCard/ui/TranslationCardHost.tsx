@@ -0,0 +1,139 @@
+import React from 'react'
+import { createRoot, type Root } from 'react-dom/client'
+import tailwindStyles from '@/shared/ui/index.css?inline'
+import { CSS_CLASSES, KEYBOARD_SHORTCUTS } from '@/shared/config/constants'
+import { TranslationCard, type TranslationCardProps } from './TranslationCard'
+
+/**
+ * 卡片宿主属性（显示状态和关闭回调由宿主管理）
+ */
+export type TranslationCardHostProps = Omit<TranslationCardProps, 'visible'>
+
+/**
+ * 宿主元素样式：隔离网页样式对卡片的影响
+ */
+const HOST_STYLES = `
+:host {
+  all: initial;
+}
+.${CSS_CLASSES.TRANSLATION_CARD} {
+  font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif;
+  font-size: 14px;
+  line-height: 1.5;
+  text-align: left;
+}
+`
+
+/**
+ * 翻译卡片宿主
+ * 将 TranslationCard 渲染到网页中的 Shadow DOM，避免与网页样式互相影响
+ */
+export class TranslationCardHost {
+  private host: HTMLElement | null = null
+  private root: Root | null = null
+  private props: TranslationCardHostProps | null = null
+
+  /**
+   * 显示卡片（替换当前内容）
+   */
+  show(props: TranslationCardHostProps): void {
+    this.mount()
+    this.props = props
+    this.render()
+  }
+
+  /**
+   * 更新卡片属性
+   */
+  update(updates: Partial<TranslationCardHostProps>): void {
+    if (!this.props) return
+    this.props = { ...this.props, ...updates }
+    this.render()
+  }
+
+  /**
+   * 隐藏卡片
+   */
+  hide(): void {
+    if (!this.props) return
+    const { onClose } = this.props
+    this.props = null
+    this.render()
+    onClose?.()
+  }
+
+  /**
+   * 是否正在显示
+   */
+  isVisible(): boolean {
+    return this.props !== null
+  }
+
+  /**
+   * 移除宿主元素
+   */
+  destroy(): void {
+    document.removeEventListener('keydown', this.handleKeyDown, true)
+    this.root?.unmount()
+    this.host?.remove()
+    this.root = null
+    this.host = null
+    this.props = null
+  }
+
+  /**
+   * 创建宿主元素和 Shadow Root
+   */
+  private mount(): void {
+    if (this.host?.isConnected) return
+
+    this.host = document.createElement('div')
+    this.host.id = `${CSS_CLASSES.TRANSLATION_CARD}-host`
+    const shadow = this.host.attachShadow({ mode: 'open' })
+
+    const style = document.createElement('style')
+    style.textContent = `${tailwindStyles}\n${HOST_STYLES}`
+    shadow.appendChild(style)
+
+    const container = document.createElement('div')
+    shadow.appendChild(container)
+
+    // 阻止卡片内的点击和按键冒泡到网页，避免触发新的文本选择
+    ;['mouseup', 'keyup'].forEach(type => {
+      this.host!.addEventListener(type, event => event.stopPropagation())
+    })
+
+    document.documentElement.appendChild(this.host)
+    document.addEventListener('keydown', this.handleKeyDown, true)
+    this.root = createRoot(container)
+  }
+
+  /**
+   * 渲染卡片
+   */
+  private render(): void {
+    if (!this.root) return
+
+    if (!this.props) {
+      this.root.render(null)
+      return
+    }
+
+    this.root.render(
+      <TranslationCard
+        {...this.props}
+        visible
+        onClose={() => this.hide()}
+      />
+    )
+  }
+
+  /**
+   * 按 Escape 关闭卡片
+   */
+  private handleKeyDown = (event: KeyboardEvent): void => {
+    if (this.props && (KEYBOARD_SHORTCUTS.CLOSE_CARD as readonly string[]).includes(event.key)) {
+      this.hide()
+    }
+  }
+}
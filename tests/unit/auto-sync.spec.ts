@@ -0,0 +1,113 @@
+import { test, expect } from '@playwright/test'
+import {
+  AutoSyncScheduler,
+  NOTION_SYNC_ALARM,
+  getSyncPeriodInMinutes,
+  type AlarmsApi
+} from '../../src/features/notion-sync/auto-sync'
+
+/**
+ * 模拟 chrome.alarms
+ */
+function createFakeAlarms() {
+  const alarms = new Map<string, { delayInMinutes?: number; periodInMinutes?: number }>()
+  const listeners: Array<(alarm: { name: string }) => void> = []
+
+  const api: AlarmsApi & {
+    alarms: typeof alarms
+    fire(name: string): void
+  } = {
+    alarms,
+    async get(name) {
+      const alarm = alarms.get(name)
+      return alarm ? { name, periodInMinutes: alarm.periodInMinutes } : undefined
+    },
+    async create(name, alarmInfo) {
+      alarms.set(name, { ...alarmInfo })
+    },
+    async clear(name) {
+      return alarms.delete(name)
+    },
+    onAlarm: {
+      addListener: callback => listeners.push(callback)
+    },
+    fire(name) {
+      listeners.forEach(callback => callback({ name }))
+    }
+  }
+
+  return api
+}
+
+/**
+ * 自动同步调度器测试
+ */
+test.describe('AutoSyncScheduler', () => {
+  test('同步间隔按秒换算为闹钟周期', () => {
+    expect(getSyncPeriodInMinutes(300)).toBe(5)
+    expect(getSyncPeriodInMinutes(90)).toBe(1.5)
+  })
+
+  test('同步间隔低于 chrome.alarms 最短周期时使用 30 秒', () => {
+    expect(getSyncPeriodInMinutes(10)).toBe(0.5)
+  })
+
+  test('未配置同步间隔时使用默认值', () => {
+    expect(getSyncPeriodInMinutes(undefined)).toBe(0.5)
+    expect(getSyncPeriodInMinutes(0)).toBe(0.5)
+  })
+
+  test('启动时创建周期闹钟', async () => {
+    const alarms = createFakeAlarms()
+    const scheduler = new AutoSyncScheduler(() => {}, alarms)
+
+    await scheduler.start(300)
+
+    expect(alarms.alarms.get(NOTION_SYNC_ALARM)).toEqual({ delayInMinutes: 5, periodInMinutes: 5 })
+  })
+
+  test('同步间隔不变时保留已有闹钟，不推迟下次触发', async () => {
+    const alarms = createFakeAlarms()
+    const scheduler = new AutoSyncScheduler(() => {}, alarms)
+
+    await scheduler.start(300)
+    const existing = alarms.alarms.get(NOTION_SYNC_ALARM)
+    await scheduler.start(300)
+
+    expect(alarms.alarms.get(NOTION_SYNC_ALARM)).toBe(existing)
+  })
+
+  test('重新启动时替换已有闹钟', async () => {
+    const alarms = createFakeAlarms()
+    const scheduler = new AutoSyncScheduler(() => {}, alarms)
+
+    await scheduler.start(300)
+    await scheduler.start(120)
+
+    expect(alarms.alarms.size).toBe(1)
+    expect(alarms.alarms.get(NOTION_SYNC_ALARM)?.periodInMinutes).toBe(2)
+  })
+
+  test('停止时清除闹钟', async () => {
+    const alarms = createFakeAlarms()
+    const scheduler = new AutoSyncScheduler(() => {}, alarms)
+
+    await scheduler.start(300)
+    await scheduler.stop()
+
+    expect(alarms.alarms.has(NOTION_SYNC_ALARM)).toBe(false)
+  })
+
+  test('只响应自动同步闹钟', () => {
+    const alarms = createFakeAlarms()
+    let ticks = 0
+    new AutoSyncScheduler(() => ticks++, alarms)
+
+    alarms.fire('other-alarm')
+    expect(ticks).toBe(0)
+
+    alarms.fire(NOTION_SYNC_ALARM)
+    alarms.fire(NOTION_SYNC_ALARM)
+    expect(ticks).toBe(2)
+  })
+})
@@ -0,0 +1,103 @@
+import 'fake-indexeddb/auto'
+import { test, expect } from '@playwright/test'
+import { ConfigService } from '../../src/features/settings-config/model'
+import { SecureConfigStorage } from '../../src/features/settings-config/config-storage'
+import { SecretVault } from '../../src/shared/lib/secret-vault'
+import type { StorageArea } from '../../src/shared/lib/storage'
+import { DEFAULT_USER_CONFIG, type UserConfig } from '../../src/entities/user-config/model'
+import { TranslationProvider } from '../../src/entities/translation/model'
+import { DEFAULT_FIELD_MAPPING } from '../../src/entities/notion-record/model'
+
+/**
+ * 内存中的存储区域（代替 chrome.storage）
+ */
+class MemoryStorageArea implements StorageArea {
+  items: Record<string, any> = {}
+
+  async get(keys?: string | string[] | Record<string, any>): Promise<Record<string, any>> {
+    const names = typeof keys === 'string' ? [keys] : Array.isArray(keys) ? keys : Object.keys(this.items)
+    return Object.fromEntries(names.filter(name => name in this.items).map(name => [name, structuredClone(this.items[name])]))
+  }
+
+  async set(items: Record<string, any>): Promise<void> {
+    Object.assign(this.items, structuredClone(items))
+  }
+
+  async remove(keys: string | string[]): Promise<void> {
+    (Array.isArray(keys) ? keys : [keys]).forEach(key => delete this.items[key])
+  }
+
+  async clear(): Promise<void> {
+    this.items = {}
+  }
+}
+
+const config: UserConfig = {
+  ...DEFAULT_USER_CONFIG,
+  translationApis: [
+    { provider: TranslationProvider.DEEPL, apiKey: 'deepl-key', enabled: true },
+    { provider: TranslationProvider.YOUDAO, apiKey: 'app-key', appSecret: 'app-secret', enabled: true }
+  ],
+  notionIntegration: {
+    token: 'secret_notion',
+    databaseId: 'db',
+    fieldMapping: DEFAULT_FIELD_MAPPING,
+    autoSync: false,
+    syncInterval: 300,
+    targets: [
+      { id: 'ja', name: '日语', token: 'secret_target', databaseId: 'db2', fieldMapping: DEFAULT_FIELD_MAPPING, rules: [] }
+    ]
+  }
+}
+
+function createService() {
+  const local = new MemoryStorageArea()
+  const vault = new SecretVault(local, new MemoryStorageArea())
+  return { local, vault, service: new ConfigService(new SecureConfigStorage(vault, local)) }
+}
+
+/**
+ * 配置导入测试
+ */
+test.describe('ConfigService.importConfig', () => {
+  test('导入时沿用密钥库中的密钥，新增的提供商需要重新填写', async () => {
+    const { local, vault, service } = createService()
+    await service.initialize()
+    await service.updateConfig(config)
+
+    const exported: UserConfig = JSON.parse(service.exportConfig())
+    exported.ui = { ...exported.ui, theme: 'dark' }
+    exported.translationApis.push({ provider: TranslationProvider.LLM, apiKey: '[REDACTED]', enabled: true })
+
+    const imported = await service.importConfig(JSON.stringify(exported))
+
+    expect(imported.ui.theme).toBe('dark')
+    expect(imported.translationApis.map(api => api.apiKey)).toEqual(['deepl-key', 'app-key', undefined])
+    expect(imported.translationApis[1]?.appSecret).toBe('app-secret')
+    expect(imported.notionIntegration?.token).toBe('secret_notion')
+    expect(imported.notionIntegration?.targets?.[0]?.token).toBe('secret_target')
+
+    expect(await vault.getAll()).toEqual({
+      'translation.deepl.apiKey': 'deepl-key',
+      'translation.youdao.apiKey': 'app-key',
+      'translation.youdao.appSecret': 'app-secret',
+      'notion.token': 'secret_notion',
+      'notion.targets.ja.token': 'secret_target'
+    })
+    expect(JSON.stringify(local.items)).not.toMatch(/deepl-key|app-secret|secret_notion|REDACTED/)
+  })
+
+  test('导入文件中的明文密钥不会被使用', async () => {
+    const { vault, service } = createService()
+    await service.initialize()
+    await service.updateConfig(config)
+
+    const imported = await service.importConfig(JSON.stringify({
+      ...config,
+      translationApis: [{ provider: TranslationProvider.DEEPL, apiKey: 'other-key', enabled: true }]
+    }))
+
+    expect(imported.translationApis[0]?.apiKey).toBe('deepl-key')
+    expect((await vault.getAll())['translation.deepl.apiKey']).toBe('deepl-key')
+  })
+})
\ No newline at end of file
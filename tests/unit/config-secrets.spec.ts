@@ -0,0 +1,100 @@
+import { test, expect } from '@playwright/test'
+import {
+  REDACTED_SECRET,
+  applySecrets,
+  extractSecrets,
+  redactSecrets
+} from '../../src/entities/user-config/secrets'
+import { DEFAULT_USER_CONFIG, type UserConfig } from '../../src/entities/user-config/model'
+import { TranslationProvider } from '../../src/entities/translation/model'
+import { DEFAULT_FIELD_MAPPING } from '../../src/entities/notion-record/model'
+import {
+  decryptText,
+  deriveKey,
+  encryptText,
+  exportKey,
+  generateKey,
+  generateSalt,
+  importKey
+} from '../../src/shared/lib/crypto'
+
+const config: UserConfig = {
+  ...DEFAULT_USER_CONFIG,
+  translationApis: [
+    { provider: TranslationProvider.DEEPL, apiKey: 'deepl-key', enabled: true },
+    { provider: TranslationProvider.YOUDAO, apiKey: 'app-key', appSecret: 'app-secret', enabled: true },
+    { provider: TranslationProvider.GOOGLE, enabled: true }
+  ],
+  notionIntegration: {
+    token: 'secret_notion',
+    databaseId: 'db',
+    fieldMapping: DEFAULT_FIELD_MAPPING,
+    autoSync: false,
+    syncInterval: 300,
+    targets: [
+      { id: 'ja', name: '日语', token: 'secret_target', databaseId: 'db2', fieldMapping: DEFAULT_FIELD_MAPPING, rules: [] }
+    ]
+  }
+}
+
+/**
+ * 配置密钥处理测试
+ */
+test.describe('config secrets', () => {
+  test('取出全部密钥，配置中不再包含密钥', () => {
+    const { config: stripped, secrets } = extractSecrets(config)
+
+    expect(secrets).toEqual({
+      'translation.deepl.apiKey': 'deepl-key',
+      'translation.youdao.apiKey': 'app-key',
+      'translation.youdao.appSecret': 'app-secret',
+      'notion.token': 'secret_notion',
+      'notion.targets.ja.token': 'secret_target'
+    })
+    expect(JSON.stringify(stripped)).not.toMatch(/deepl-key|app-key|app-secret|secret_/)
+    expect(stripped.notionIntegration?.databaseId).toBe('db')
+  })
+
+  test('填回密钥后与原配置相同', () => {
+    const { config: stripped, secrets } = extractSecrets(config)
+
+    expect(applySecrets(stripped, secrets)).toEqual(config)
+  })
+
+  test('导出时用占位符替换密钥，占位符不会被当作密钥导入', () => {
+    const redacted = redactSecrets(config)
+
+    expect(redacted.translationApis[0]?.apiKey).toBe(REDACTED_SECRET)
+    expect(redacted.translationApis[2]?.apiKey).toBeUndefined()
+    expect(redacted.notionIntegration?.token).toBe(REDACTED_SECRET)
+    expect(extractSecrets(redacted).secrets).toEqual({})
+  })
+})
+
+test.describe('crypto', () => {
+  test('加密后可以解密，每次密文不同', async () => {
+    const key = await generateKey()
+    const first = await encryptText(key, 'secret_notion')
+    const second = await encryptText(key, 'secret_notion')
+
+    expect(first.data).not.toBe(second.data)
+    expect(await decryptText(key, first)).toBe('secret_notion')
+  })
+
+  test('密码派生的密钥导出后仍能解密', async () => {
+    const salt = generateSalt()
+    const key = await deriveKey('correct horse', salt, { extractable: true, iterations: 1000 })
+    const encrypted = await encryptText(key, 'deepl-key')
+
+    expect(await decryptText(await importKey(await exportKey(key)), encrypted)).toBe('deepl-key')
+  })
+
+  test('密码错误时无法解密', async () => {
+    const salt = generateSalt()
+    const key = await deriveKey('correct horse', salt, { iterations: 1000 })
+    const wrong = await deriveKey('wrong horse', salt, { iterations: 1000 })
+    const encrypted = await encryptText(key, 'deepl-key')
+
+    await expect(decryptText(wrong, encrypted)).rejects.toThrow()
+  })
+})
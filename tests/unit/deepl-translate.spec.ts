@@ -0,0 +1,128 @@
+import { test, expect } from '@playwright/test'
+import http from 'http'
+import type { AddressInfo } from 'net'
+import { DeepLTranslateAPI } from '../../src/shared/api/translation/deepl-translate'
+import { TranslationAPIError, TranslationErrorCode } from '../../src/shared/api/translation/errors'
+import type { Word } from '../../src/entities/word'
+
+/**
+ * DeepL 翻译 API 测试
+ * 使用本地 HTTP 服务模拟 DeepL 接口
+ */
+test.describe('DeepLTranslateAPI', () => {
+  let server: http.Server
+  let endpoint: string
+  let lastRequest: { headers: http.IncomingHttpHeaders; body: any } | null = null
+  let nextResponse: { status: number; body: any } = { status: 200, body: {} }
+
+  const word: Word = {
+    text: 'hello',
+    language: 'auto',
+    source: { url: 'https://example.com', title: 'Example', domain: 'example.com' },
+    timestamp: Date.now()
+  }
+
+  test.beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let raw = ''
+      req.on('data', chunk => { raw += chunk })
+      req.on('end', () => {
+        lastRequest = { headers: req.headers, body: raw ? JSON.parse(raw) : null }
+        res.writeHead(nextResponse.status, { 'Content-Type': 'application/json' })
+        res.end(JSON.stringify(nextResponse.body))
+      })
+    })
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+    const { port } = server.address() as AddressInfo
+    endpoint = `http://127.0.0.1:${port}/v2/translate`
+  })
+
+  test.afterAll(async () => {
+    await new Promise(resolve => server.close(resolve))
+  })
+
+  test.beforeEach(() => {
+    lastRequest = null
+    nextResponse = { status: 200, body: {} }
+  })
+
+  test('应该返回翻译结果并从响应中识别源语言', async () => {
+    nextResponse = {
+      status: 200,
+      body: { translations: [{ detected_source_language: 'EN', text: '你好' }] }
+    }
+
+    const api = new DeepLTranslateAPI({ apiKey: 'test-key:fx', endpoint, formality: 'more' })
+    const translation = await api.translateText(word, 'zh-CN')
+
+    expect(translation.result.text).toBe('你好')
+    expect(translation.originalWord.language).toBe('en')
+    expect(translation.provider).toBe('deepl')
+    expect(lastRequest?.headers.authorization).toBe('DeepL-Auth-Key test-key:fx')
+    expect(lastRequest?.body).toEqual({
+      text: ['hello'],
+      target_lang: 'ZH',
+      formality: 'more'
+    })
+  })
+
+  test('指定源语言时应该发送 source_lang', async () => {
+    nextResponse = {
+      status: 200,
+      body: { translations: [{ detected_source_language: 'ZH', text: 'hello' }] }
+    }
+
+    const api = new DeepLTranslateAPI({ apiKey: 'test-key', endpoint })
+    await api.translateText({ ...word, text: '你好', language: 'zh-CN' }, 'en')
+
+    expect(lastRequest?.body.source_lang).toBe('ZH')
+    expect(lastRequest?.body.target_lang).toBe('EN-US')
+    expect(lastRequest?.body.formality).toBeUndefined()
+  })
+
+  test('detectLanguage 应该使用响应中的 detected_source_language', async () => {
+    nextResponse = {
+      status: 200,
+      body: { translations: [{ detected_source_language: 'ZH', text: 'hello' }] }
+    }
+
+    const api = new DeepLTranslateAPI({ apiKey: 'test-key', endpoint })
+    expect(await api.detectLanguage('你好')).toBe('zh-CN')
+  })
+
+  test('配额用尽应该映射为 QUOTA_EXCEEDED', async () => {
+    nextResponse = { status: 456, body: { message: 'Quota exceeded' } }
+
+    const api = new DeepLTranslateAPI({ apiKey: 'test-key', endpoint })
+    const error = await api.translateText(word, 'zh-CN').catch(e => e)
+
+    expect(error).toBeInstanceOf(TranslationAPIError)
+    expect(error.code).toBe(TranslationErrorCode.QUOTA_EXCEEDED)
+    expect(error.status).toBe(456)
+  })
+
+  test('无效的 key 应该映射为 INVALID_API_KEY', async () => {
+    nextResponse = { status: 403, body: { message: 'Wrong endpoint' } }
+
+    const api = new DeepLTranslateAPI({ apiKey: 'bad-key', endpoint })
+    const error = await api.translateText(word, 'zh-CN').catch(e => e)
+
+    expect(error).toBeInstanceOf(TranslationAPIError)
+    expect(error.code).toBe(TranslationErrorCode.INVALID_API_KEY)
+  })
+
+  test('未配置 key 时不应该发起请求', async () => {
+    const api = new DeepLTranslateAPI({ endpoint })
+    const error = await api.translateText(word, 'zh-CN').catch(e => e)
+
+    expect(error.code).toBe(TranslationErrorCode.INVALID_API_KEY)
+    expect(lastRequest).toBeNull()
+  })
+
+  test('应该根据 key 类型选择免费版或专业版端点', () => {
+    expect(new DeepLTranslateAPI({ apiKey: 'abc:fx' }).getEndpoint())
+      .toBe('https://api-free.deepl.com/v2/translate')
+    expect(new DeepLTranslateAPI({ apiKey: 'abc' }).getEndpoint())
+      .toBe('https://api.deepl.com/v2/translate')
+  })
+})
@@ -0,0 +1,170 @@
+import { test, expect } from '@playwright/test'
+import http from 'http'
+import type { AddressInfo } from 'net'
+import { LLMTranslateAPI } from '../../src/shared/api/translation/llm-translate'
+import { TranslationAPIError, TranslationErrorCode } from '../../src/shared/api/translation/errors'
+import type { Word } from '../../src/entities/word'
+
+/**
+ * 构造对话接口响应
+ */
+const reply = (content: string) => ({
+  status: 200,
+  body: { choices: [{ message: { role: 'assistant', content } }] }
+})
+
+/**
+ * 大模型翻译 API 测试
+ * 使用本地 HTTP 服务模拟 OpenAI 兼容接口
+ */
+test.describe('LLMTranslateAPI', () => {
+  let server: http.Server
+  let endpoint: string
+  let lastRequest: { url?: string; headers: http.IncomingHttpHeaders; body: any } | null = null
+  let nextResponse: { status: number; body: any } = { status: 200, body: {} }
+
+  const word: Word = {
+    text: 'bank',
+    language: 'auto',
+    context: 'We sat on the bank of the river.',
+    source: { url: 'https://example.com', title: 'Example', domain: 'example.com' },
+    timestamp: Date.now()
+  }
+
+  test.beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let raw = ''
+      req.on('data', chunk => { raw += chunk })
+      req.on('end', () => {
+        lastRequest = { url: req.url, headers: req.headers, body: raw ? JSON.parse(raw) : null }
+        res.writeHead(nextResponse.status, { 'Content-Type': 'application/json' })
+        res.end(JSON.stringify(nextResponse.body))
+      })
+    })
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+    const { port } = server.address() as AddressInfo
+    endpoint = `http://127.0.0.1:${port}/v1/`
+  })
+
+  test.afterAll(async () => {
+    await new Promise(resolve => server.close(resolve))
+  })
+
+  test.beforeEach(() => {
+    lastRequest = null
+    nextResponse = { status: 200, body: {} }
+  })
+
+  test('请求应该包含模型、上下文和目标语言', async () => {
+    nextResponse = reply('{"translation": "河岸"}')
+
+    const api = new LLMTranslateAPI({ apiKey: 'sk-test', endpoint, model: 'local-model' })
+    await api.translateText(word, 'zh-CN')
+
+    expect(lastRequest?.url).toBe('/v1/chat/completions')
+    expect(lastRequest?.headers.authorization).toBe('Bearer sk-test')
+    expect(lastRequest?.body.model).toBe('local-model')
+    expect(lastRequest?.body.messages[0].role).toBe('system')
+    expect(lastRequest?.body.messages[1]).toEqual({
+      role: 'user',
+      content: [
+        'Selected word: bank',
+        'Target language: 中文 (zh-CN)',
+        'Context: We sat on the bank of the river.'
+      ].join('\n')
+    })
+  })
+
+  test('本地模型未配置 key 时不发送 Authorization，使用默认模型', async () => {
+    nextResponse = reply('{"translation": "银行"}')
+
+    const api = new LLMTranslateAPI({ endpoint })
+    await api.translateText({ ...word, context: undefined }, 'zh-CN')
+
+    expect(lastRequest?.headers.authorization).toBeUndefined()
+    expect(lastRequest?.body.model).toBe('gpt-4o-mini')
+    expect(lastRequest?.body.messages[1].content).not.toContain('Context:')
+  })
+
+  test('应该把语境释义放在释义首位', async () => {
+    nextResponse = reply(JSON.stringify({
+      translation: '河岸',
+      partOfSpeech: 'n.',
+      phonetic: 'bæŋk',
+      sense: '河流两侧的陆地',
+      definitions: [
+        { partOfSpeech: 'n.', meanings: ['银行'] },
+        { partOfSpeech: 'v.', meanings: [] }
+      ],
+      examples: ['the river bank 河岸'],
+      detectedLanguage: 'EN'
+    }))
+
+    const api = new LLMTranslateAPI({ endpoint })
+    const translation = await api.translateText(word, 'zh-CN')
+
+    expect(translation.provider).toBe('llm')
+    expect(translation.confidence).toBe(0.9)
+    expect(translation.originalWord.language).toBe('en')
+    expect(translation.result).toMatchObject({
+      text: '河岸',
+      phonetic: 'bæŋk',
+      definitions: [
+        { partOfSpeech: 'n.', meanings: ['河流两侧的陆地'] },
+        { partOfSpeech: 'n.', meanings: ['银行'] }
+      ],
+      examples: ['the river bank 河岸']
+    })
+  })
+
+  test('应该解析代码块包裹或带有多余文字的回复', async () => {
+    const api = new LLMTranslateAPI({ endpoint })
+
+    nextResponse = reply('```json\n{"translation": "河岸"}\n```')
+    expect((await api.translateText(word, 'zh-CN')).result.text).toBe('河岸')
+
+    nextResponse = reply('Here is the result: {"translation": "岸边"} Hope it helps.')
+    expect((await api.translateText(word, 'zh-CN')).result.text).toBe('岸边')
+  })
+
+  test('回复不是有效的 JSON 时应该抛出 REQUEST_FAILED', async () => {
+    const api = new LLMTranslateAPI({ endpoint })
+
+    for (const content of ['河岸', '{"translation": "河岸"', '{"sense": "河流两侧的陆地"}']) {
+      nextResponse = reply(content)
+      const error = await api.translateText(word, 'zh-CN').catch(e => e)
+
+      expect(error).toBeInstanceOf(TranslationAPIError)
+      expect(error.code).toBe(TranslationErrorCode.REQUEST_FAILED)
+    }
+  })
+
+  test('detectLanguage 应该规范化语言代码', async () => {
+    nextResponse = reply('zh-Hans.')
+
+    const api = new LLMTranslateAPI({ endpoint })
+    expect(await api.detectLanguage('你好')).toBe('zh-CN')
+  })
+
+  test('额度用尽和频率受限应该分别映射', async () => {
+    const api = new LLMTranslateAPI({ apiKey: 'sk-test', endpoint })
+
+    nextResponse = { status: 429, body: { error: { message: 'quota', code: 'insufficient_quota' } } }
+    expect((await api.translateText(word, 'zh-CN').catch(e => e)).code).toBe(TranslationErrorCode.QUOTA_EXCEEDED)
+
+    nextResponse = { status: 429, body: { error: { message: 'slow down' } } }
+    const error = await api.translateText(word, 'zh-CN').catch(e => e)
+    expect(error.code).toBe(TranslationErrorCode.RATE_LIMITED)
+    expect(error.status).toBe(429)
+  })
+
+  test('无效的 key 应该映射为 INVALID_API_KEY', async () => {
+    nextResponse = { status: 401, body: { error: { message: 'Incorrect API key' } } }
+
+    const api = new LLMTranslateAPI({ apiKey: 'bad-key', endpoint })
+    const error = await api.translateText(word, 'zh-CN').catch(e => e)
+
+    expect(error.code).toBe(TranslationErrorCode.INVALID_API_KEY)
+    expect(error.message).toContain('Incorrect API key')
+  })
+})
\ No newline at end of file
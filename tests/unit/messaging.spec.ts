@@ -0,0 +1,185 @@
+import { test, expect } from '@playwright/test'
+import {
+  MessageBus,
+  MessageTimeoutError,
+  deserializeError,
+  serializeError,
+  type RuntimeMessaging,
+  type TabsMessaging
+} from '../../src/shared/lib/messaging'
+
+type TestMessageMap = {
+  echo: { request: { text: string }; response: string }
+  fail: { request: Record<string, never>; response: void }
+  slow: { request: Record<string, never>; response: void }
+}
+
+type Listener = Parameters<RuntimeMessaging['onMessage']['addListener']>[0]
+
+/**
+ * 模拟 chrome.runtime：消息和响应都经过结构化克隆，与真实的跨上下文传递一致
+ */
+function createFakeRuntime() {
+  const listeners = new Set<Listener>()
+
+  const runtime: RuntimeMessaging & { listenerCount(): number } = {
+    onMessage: {
+      addListener: listener => listeners.add(listener),
+      removeListener: listener => listeners.delete(listener)
+    },
+    sendMessage(message) {
+      return new Promise(resolve => {
+        let willRespond = false
+        listeners.forEach(listener => {
+          const sendResponse = (response: unknown) => resolve(structuredClone(response))
+          if (listener(structuredClone(message), { id: 'test-extension' }, sendResponse)) {
+            willRespond = true
+          }
+        })
+        if (!willRespond) resolve(undefined)
+      })
+    },
+    listenerCount: () => listeners.size
+  }
+
+  return runtime
+}
+
+class QuotaError extends Error {
+  code = 'QUOTA_EXCEEDED'
+  status = 456
+
+  constructor(message: string) {
+    super(message)
+    this.name = 'QuotaError'
+  }
+}
+
+/**
+ * 消息总线测试
+ */
+test.describe('MessageBus', () => {
+  test('将请求路由到对应的处理函数并返回响应', async () => {
+    const runtime = createFakeRuntime()
+    const receiver = new MessageBus<TestMessageMap>({ runtime })
+    const sender = new MessageBus<TestMessageMap>({ runtime })
+
+    receiver.on('echo', async data => `echo: ${data.text}`)
+
+    await expect(sender.request('echo', { text: 'hello' })).resolves.toBe('echo: hello')
+  })
+
+  test('所有处理函数共用一个 onMessage 监听器', async () => {
+    const runtime = createFakeRuntime()
+    const bus = new MessageBus<TestMessageMap>({ runtime })
+
+    bus.on('echo', data => data.text)
+    bus.on('fail', () => undefined)
+
+    expect(runtime.listenerCount()).toBe(1)
+
+    bus.destroy()
+    expect(runtime.listenerCount()).toBe(0)
+  })
+
+  test('序列化处理函数抛出的错误并在调用方还原', async () => {
+    const runtime = createFakeRuntime()
+    const receiver = new MessageBus<TestMessageMap>({ runtime })
+    const sender = new MessageBus<TestMessageMap>({ runtime })
+
+    receiver.on('fail', () => {
+      throw new QuotaError('额度已用完')
+    })
+
+    const error = await sender.request('fail', {}).catch(e => e)
+    expect(error).toBeInstanceOf(Error)
+    expect(error.name).toBe('QuotaError')
+    expect(error.message).toBe('额度已用完')
+    expect(error.code).toBe('QUOTA_EXCEEDED')
+    expect(error.status).toBe(456)
+  })
+
+  test('处理函数未响应时超时', async () => {
+    const runtime = createFakeRuntime()
+    const receiver = new MessageBus<TestMessageMap>({ runtime })
+    const sender = new MessageBus<TestMessageMap>({ runtime, timeout: 1000 })
+
+    receiver.on('slow', () => new Promise<void>(() => {}))
+
+    const error = await sender.request('slow', {}, 50).catch(e => e)
+    expect(error).toBeInstanceOf(MessageTimeoutError)
+    expect(error.type).toBe('slow')
+    expect(error.timeout).toBe(50)
+  })
+
+  test('没有接收方时抛出错误', async () => {
+    const runtime = createFakeRuntime()
+    const sender = new MessageBus<TestMessageMap>({ runtime })
+
+    await expect(sender.request('echo', { text: 'hello' })).rejects.toThrow('没有接收方')
+  })
+
+  test('未注册的消息类型交给其他监听器处理', async () => {
+    const runtime = createFakeRuntime()
+    const bus = new MessageBus<TestMessageMap>({ runtime })
+    bus.on('echo', data => data.text)
+
+    runtime.onMessage.addListener((message, _sender, sendResponse) => {
+      if ((message as { type: string }).type !== 'fail') return false
+      sendResponse({ success: true, data: 'other' })
+      return true
+    })
+
+    await expect(bus.request('fail', {})).resolves.toBe('other')
+  })
+
+  test('取消注册后不再处理该消息', async () => {
+    const runtime = createFakeRuntime()
+    const receiver = new MessageBus<TestMessageMap>({ runtime })
+    const sender = new MessageBus<TestMessageMap>({ runtime })
+
+    const off = receiver.on('echo', data => data.text)
+    off()
+
+    await expect(sender.request('echo', { text: 'hello' })).rejects.toThrow('没有接收方')
+  })
+
+  test('广播到所有标签页并忽略发送失败的标签页', async () => {
+    const received: number[] = []
+    const tabs: TabsMessaging = {
+      query: async () => [{ id: 1 }, { id: 2 }, {}, { id: 3 }],
+      sendMessage: async (tabId, message) => {
+        if (tabId === 2) throw new Error('Receiving end does not exist.')
+        expect(message).toEqual({ type: 'echo', data: { text: 'hi' } })
+        received.push(tabId)
+        return { success: true, data: 'ok' }
+      }
+    }
+
+    const bus = new MessageBus<TestMessageMap>({ runtime: createFakeRuntime(), tabs })
+    await bus.broadcast('echo', { text: 'hi' })
+
+    expect(received).toEqual([1, 3])
+  })
+})
+
+test.describe('错误序列化', () => {
+  test('只保留基础类型的附加字段', () => {
+    const error = Object.assign(new Error('失败'), { code: 'X', nested: { a: 1 } })
+    expect(serializeError(error)).toEqual({
+      name: 'Error',
+      message: '失败',
+      details: { code: 'X' }
+    })
+  })
+
+  test('非 Error 值转换为字符串', () => {
+    expect(serializeError('oops')).toEqual({ name: 'Error', message: 'oops' })
+  })
+
+  test('还原名称和附加字段', () => {
+    const error = deserializeError({ name: 'TranslationAPIError', message: '失败', details: { status: 429 } })
+    expect(error.name).toBe('TranslationAPIError')
+    expect((error as Error & { status: number }).status).toBe(429)
+  })
+})
@@ -0,0 +1,101 @@
+import { test, expect } from '@playwright/test'
+import { autoMapFields, validateFieldMapping } from '../../src/features/notion-sync/field-mapping'
+import type { NotionDatabaseSchema } from '../../src/entities/notion-record/model'
+
+function createSchema(properties: Array<[string, string]>): NotionDatabaseSchema {
+  return {
+    id: 'db',
+    title: '生词本',
+    properties: properties.map(([name, type], index) => ({ id: String(index), name, type }))
+  }
+}
+
+/**
+ * 字段自动映射测试
+ */
+test.describe('autoMapFields', () => {
+  test('按名称和类型匹配中文字段', () => {
+    const schema = createSchema([
+      ['单词', 'title'],
+      ['翻译', 'rich_text'],
+      ['例句', 'rich_text'],
+      ['来源链接', 'url'],
+      ['标签', 'multi_select'],
+      ['备注', 'rich_text'],
+      ['熟练度', 'number'],
+      ['创建时间', 'date']
+    ])
+
+    const { mapping, issues } = autoMapFields(schema)
+
+    expect(mapping).toEqual({
+      wordField: '单词',
+      translationField: '翻译',
+      contextField: '例句',
+      sourceUrlField: '来源链接',
+      tagsField: '标签',
+      notesField: '备注',
+      proficiencyField: '熟练度',
+      createdAtField: '创建时间'
+    })
+    expect(issues).toEqual([])
+  })
+
+  test('匹配英文字段并在名称不符时使用标题属性作为单词', () => {
+    const schema = createSchema([
+      ['Name', 'title'],
+      ['Meaning', 'rich_text'],
+      ['Example Sentence', 'rich_text'],
+      ['URL', 'url'],
+      ['Date Added', 'date']
+    ])
+
+    const { mapping, issues } = autoMapFields(schema)
+
+    expect(mapping.wordField).toBe('Name')
+    expect(mapping.translationField).toBe('Meaning')
+    expect(mapping.contextField).toBe('Example Sentence')
+    expect(mapping.sourceUrlField).toBe('URL')
+    expect(mapping.createdAtField).toBe('Date Added')
+    expect(issues.map(issue => issue.field)).toEqual(['tagsField', 'notesField', 'proficiencyField'])
+    expect(issues.every(issue => issue.type === 'missing')).toBe(true)
+  })
+
+  test('每个属性只分配给一个字段', () => {
+    const schema = createSchema([
+      ['Word', 'title'],
+      ['Notes', 'rich_text']
+    ])
+
+    const { mapping } = autoMapFields(schema)
+
+    expect(mapping.notesField).toBe('Notes')
+    expect(mapping.translationField).toBe('')
+    expect(mapping.contextField).toBe('')
+  })
+
+  test('名称匹配但类型不一致时标记类型不匹配', () => {
+    const schema = createSchema([
+      ['单词', 'title'],
+      ['标签', 'date']
+    ])
+
+    const { mapping, issues } = autoMapFields(schema)
+
+    expect(mapping.tagsField).toBe('标签')
+    expect(issues.find(issue => issue.field === 'tagsField')?.type).toBe('type_mismatch')
+  })
+})
+
+test.describe('validateFieldMapping', () => {
+  test('标记数据库中不存在的属性', () => {
+    const schema = createSchema([['单词', 'title']])
+
+    const issues = validateFieldMapping({ wordField: '词' }, schema)
+
+    expect(issues.find(issue => issue.field === 'wordField')).toMatchObject({
+      type: 'not_found',
+      message: '数据库中不存在属性「词」'
+    })
+  })
+})
@@ -0,0 +1,117 @@
+import { test, expect } from '@playwright/test'
+import { spawn, type ChildProcess } from 'child_process'
+import path from 'path'
+import { fileURLToPath } from 'url'
+import {
+  NotionOAuthClient,
+  NotionOAuthError,
+  parseAuthorizationResponse,
+  type IdentityApi
+} from '../../src/shared/api/notion/notion-oauth'
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url))
+const REDIRECT_URL = 'https://extension-id.chromiumapp.org/notion'
+
+let standIn: ChildProcess
+let baseUrl: string
+
+/**
+ * 模拟 chrome.identity：请求授权页面并返回跳转地址
+ */
+function createIdentity(launched: string[] = []): IdentityApi {
+  return {
+    getRedirectURL: (suffix?: string) => `https://extension-id.chromiumapp.org/${suffix ?? ''}`,
+    launchWebAuthFlow: async ({ url }) => {
+      launched.push(url)
+      const response = await fetch(url, { redirect: 'manual' })
+      return response.headers.get('location') ?? undefined
+    }
+  }
+}
+
+function createClient(identity: IdentityApi, authorizePath = '/authorize') {
+  return new NotionOAuthClient({
+    clientId: 'client-id',
+    tokenEndpoint: `${baseUrl}/token`,
+    revokeEndpoint: `${baseUrl}/revoke`,
+    authorizationEndpoint: `${baseUrl}${authorizePath}`
+  }, identity)
+}
+
+test.beforeAll(async () => {
+  // 启动本地令牌服务替身（随机端口）
+  standIn = spawn(process.execPath, [path.join(__dirname, '../../scripts/notion-oauth-stand-in.mjs'), '0'], {
+    env: { ...process.env, NOTION_CLIENT_ID: '', NOTION_CLIENT_SECRET: '' }
+  })
+  baseUrl = await new Promise<string>((resolve, reject) => {
+    standIn.stdout!.on('data', chunk => {
+      const match = String(chunk).match(/http:\/\/localhost:\d+/)
+      if (match) resolve(match[0])
+    })
+    standIn.on('error', reject)
+  })
+})
+
+test.afterAll(() => {
+  standIn?.kill()
+})
+
+/**
+ * Notion OAuth 登录测试
+ */
+test.describe('NotionOAuthClient', () => {
+  test('授权后换取访问令牌和工作区信息', async () => {
+    const launched: string[] = []
+    const token = await createClient(createIdentity(launched)).authorize()
+
+    const authorizeUrl = new URL(launched[0])
+    expect(authorizeUrl.searchParams.get('client_id')).toBe('client-id')
+    expect(authorizeUrl.searchParams.get('redirect_uri')).toBe(REDIRECT_URL)
+    expect(authorizeUrl.searchParams.get('owner')).toBe('user')
+    expect(token).toMatchObject({
+      accessToken: 'stand-in-token',
+      workspace: { id: 'stand-in-workspace', name: '本地测试工作区', icon: '🧪', botId: 'stand-in-bot' }
+    })
+  })
+
+  test('用户拒绝授权时抛出 access_denied', async () => {
+    const client = createClient(createIdentity(), '/authorize?deny=1')
+
+    await expect(client.authorize()).rejects.toMatchObject({ code: 'access_denied' })
+  })
+
+  test('令牌服务返回错误时带上错误描述', async () => {
+    const client = createClient(createIdentity())
+
+    await expect(client.exchangeCode('', REDIRECT_URL)).rejects.toThrow('缺少授权码')
+  })
+
+  test('撤销令牌', async () => {
+    await expect(createClient(createIdentity()).revoke('stand-in-token')).resolves.toBeUndefined()
+  })
+
+  test('校验配置', () => {
+    expect(NotionOAuthClient.validateConfig({ clientId: 'id', tokenEndpoint: 'http://localhost:8787/token' })).toBe(true)
+    expect(NotionOAuthClient.validateConfig({ clientId: 'id', tokenEndpoint: 'localhost/token' })).toBe(false)
+    expect(NotionOAuthClient.validateConfig({ clientId: '', tokenEndpoint: 'https://example.com/token' })).toBe(false)
+  })
+})
+
+test.describe('parseAuthorizationResponse', () => {
+  test('state 不匹配时拒绝授权码', () => {
+    const error = (() => {
+      try {
+        parseAuthorizationResponse(`${REDIRECT_URL}?code=abc&state=other`, 'expected')
+      } catch (error) {
+        return error
+      }
+    })()
+
+    expect(error).toBeInstanceOf(NotionOAuthError)
+    expect((error as NotionOAuthError).code).toBe('state_mismatch')
+  })
+
+  test('返回授权码', () => {
+    expect(parseAuthorizationResponse(`${REDIRECT_URL}?code=abc&state=s`, 's')).toBe('abc')
+  })
+})
@@ -0,0 +1,166 @@
+import { test, expect } from '@playwright/test'
+import {
+  NotionRecordStatus,
+  fromNotionPropertyValue,
+  toNotionPageBlocks,
+  toNotionPageProperties,
+  toNotionPropertyValue,
+  type NotionDatabaseSchema,
+  type NotionRecord
+} from '../../src/entities/notion-record/model'
+
+const record = {
+  id: 'notion_1',
+  word: {
+    text: 'serendipity',
+    language: 'en',
+    context: 'It was pure serendipity.',
+    source: { url: 'https://example.com/post', title: 'Post', domain: 'example.com' },
+    timestamp: 0
+  },
+  translation: { result: { text: '意外发现', targetLanguage: 'zh-CN' } },
+  status: NotionRecordStatus.PENDING,
+  tags: ['GRE', 'noun'],
+  proficiency: 3,
+  createdAt: Date.UTC(2024, 0, 2)
+} as unknown as NotionRecord
+
+function createSchema(properties: Array<[string, string, string[]?]>): NotionDatabaseSchema {
+  return {
+    id: 'db',
+    title: '生词本',
+    properties: properties.map(([name, type, options], index) => ({ id: String(index), name, type, options }))
+  }
+}
+
+/**
+ * 按属性类型构建页面属性测试
+ */
+test.describe('toNotionPageProperties', () => {
+  test('按数据库中的实际类型写入字段', () => {
+    const schema = createSchema([
+      ['Word', 'rich_text'],
+      ['Translation', 'title'],
+      ['Tags', 'select'],
+      ['Level', 'status', ['1', '2', '3']],
+      ['Created', 'date']
+    ])
+
+    const properties = toNotionPageProperties(record, {
+      wordField: 'Word',
+      translationField: 'Translation',
+      tagsField: 'Tags',
+      proficiencyField: 'Level',
+      createdAtField: 'Created'
+    }, schema)
+
+    expect(properties).toEqual({
+      Word: { rich_text: [{ type: 'text', text: { content: 'serendipity' } }] },
+      Translation: { title: [{ type: 'text', text: { content: '意外发现' } }] },
+      Tags: { select: { name: 'GRE' } },
+      Level: { status: { name: '3' } },
+      Created: { date: { start: '2024-01-02T00:00:00.000Z' } }
+    })
+  })
+
+  test('跳过未映射、不存在和不支持的字段', () => {
+    const schema = createSchema([
+      ['Word', 'title'],
+      ['Files', 'files']
+    ])
+
+    const properties = toNotionPageProperties(record, {
+      wordField: 'Word',
+      translationField: '',
+      contextField: 'Deleted',
+      notesField: 'Files'
+    }, schema)
+
+    expect(properties).toEqual({
+      Word: { title: [{ type: 'text', text: { content: 'serendipity' } }] }
+    })
+  })
+})
+
+test.describe('toNotionPropertyValue', () => {
+  test('状态只写入已有选项', () => {
+    const property = { id: '1', name: 'Status', type: 'status', options: ['New'] }
+
+    expect(toNotionPropertyValue(property, 'Learning')).toBeUndefined()
+    expect(toNotionPropertyValue(property, 'New')).toEqual({ status: { name: 'New' } })
+  })
+
+  test('转换复选框、数字和多选', () => {
+    expect(toNotionPropertyValue({ id: '1', name: 'Mastered', type: 'checkbox' }, 0)).toEqual({ checkbox: false })
+    expect(toNotionPropertyValue({ id: '2', name: 'Level', type: 'number' }, '4')).toEqual({ number: 4 })
+    expect(toNotionPropertyValue({ id: '3', name: 'Tags', type: 'multi_select' }, 'a, b')).toEqual({
+      multi_select: [{ name: 'a  b' }]
+    })
+  })
+
+  test('空值写入为空', () => {
+    expect(toNotionPropertyValue({ id: '1', name: 'Link', type: 'url' }, '')).toEqual({ url: null })
+    expect(toNotionPropertyValue({ id: '2', name: 'Tags', type: 'select' }, [])).toEqual({ select: null })
+    expect(toNotionPropertyValue({ id: '3', name: 'Date', type: 'date' }, 'invalid')).toEqual({ date: null })
+  })
+})
+
+test.describe('fromNotionPropertyValue', () => {
+  test('读取查询结果中的属性值', () => {
+    expect(fromNotionPropertyValue({
+      type: 'title',
+      title: [{ plain_text: 'Serendipity' }, { plain_text: '!' }]
+    })).toBe('Serendipity!')
+    expect(fromNotionPropertyValue({
+      type: 'multi_select',
+      multi_select: [{ name: 'GRE' }, { name: 'noun' }]
+    })).toEqual(['GRE', 'noun'])
+    expect(fromNotionPropertyValue({ type: 'select', select: null })).toBeNull()
+    expect(fromNotionPropertyValue({ type: 'date', date: { start: '2024-01-02' } })).toBe('2024-01-02')
+    expect(fromNotionPropertyValue(undefined)).toBeUndefined()
+  })
+})
+
+test.describe('toNotionPageBlocks', () => {
+  test('生成单词、释义、例句和原文块', () => {
+    const blocks = toNotionPageBlocks({
+      ...record,
+      translation: {
+        result: {
+          text: '意外发现',
+          targetLanguage: 'zh-CN',
+          phonetic: '/ˌserənˈdɪpəti/',
+          definitions: [
+            { partOfSpeech: 'n.', meanings: ['意外发现'] },
+            { partOfSpeech: 'n.', meanings: ['机缘巧合'] }
+          ],
+          examples: ['A happy serendipity.'],
+          audioUrl: 'https://example.com/serendipity.mp3'
+        }
+      }
+    } as unknown as NotionRecord)
+
+    expect(blocks.map(block => block.type)).toEqual([
+      'heading_2', 'paragraph', 'audio', 'heading_3', 'bulleted_list_item', 'heading_3', 'quote', 'heading_3', 'quote'
+    ])
+    expect(blocks[0].heading_2.rich_text.map((item: any) => item.text.content).join('')).toBe('serendipity /ˌserənˈdɪpəti/')
+    expect(blocks[4].bulleted_list_item.rich_text.map((item: any) => item.text.content)).toEqual(['n. ', '意外发现；机缘巧合'])
+    expect(blocks[8].quote.rich_text.map((item: any) => item.annotations?.bold ?? false)).toEqual([false, true, false, false, false])
+    expect(blocks[8].quote.rich_text[4].text).toEqual({ content: 'Post', link: { url: 'https://example.com/post' } })
+  })
+
+  test('只保存音频文件链接，不保存带签名的发音接口地址', () => {
+    const blocksFor = (audioUrl: string) => toNotionPageBlocks({
+      ...record,
+      word: { ...record.word, context: undefined },
+      translation: { result: { text: '意外发现', targetLanguage: 'zh-CN', audioUrl } }
+    } as unknown as NotionRecord)
+
+    expect(blocksFor('https://openapi.youdao.com/ttsapi?q=serendipity&appKey=app-key&sign=abc').map(block => block.type))
+      .toEqual(['heading_2', 'paragraph'])
+    expect(blocksFor('https://cdn.example.com/audio/serendipity.mp3?token=abc#t=1')[2]).toEqual({
+      type: 'audio',
+      audio: { type: 'external', external: { url: 'https://cdn.example.com/audio/serendipity.mp3' } }
+    })
+  })
+})
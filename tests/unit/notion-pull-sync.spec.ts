@@ -0,0 +1,82 @@
+import { test, expect } from '@playwright/test'
+import { mergeRemoteChanges } from '../../src/features/notion-sync/pull-sync'
+import {
+  DEFAULT_FIELD_MAPPING,
+  NotionRecordStatus,
+  type NotionPageRecord,
+  type NotionRecord
+} from '../../src/entities/notion-record/model'
+
+const local = {
+  id: 'notion_1',
+  word: { text: 'apple', language: 'en', source: { url: '', title: '', domain: '' }, timestamp: 0 },
+  status: NotionRecordStatus.SYNCED,
+  notionPageId: 'page-1',
+  tags: ['fruit'],
+  notes: '本地备注',
+  proficiency: 2,
+  createdAt: 1000,
+  lastSyncAt: 2000
+} as unknown as NotionRecord
+
+const remote: NotionPageRecord = {
+  pageId: 'page-1',
+  url: 'https://www.notion.so/page-1',
+  word: 'apple',
+  tags: ['fruit'],
+  notes: '本地备注',
+  proficiency: 2,
+  createdAt: 1000,
+  lastEditedAt: 3000
+}
+
+/**
+ * 拉取同步合并测试
+ */
+test.describe('mergeRemoteChanges', () => {
+  test('字段相同时不修改', () => {
+    expect(mergeRemoteChanges(local, { ...remote, tags: ['fruit'] }, DEFAULT_FIELD_MAPPING)).toBeNull()
+  })
+
+  test('本地未修改时采用 Notion 中的值', () => {
+    const result = mergeRemoteChanges(local, { ...remote, tags: ['fruit', 'red'], proficiency: 4 }, DEFAULT_FIELD_MAPPING, 5000)
+
+    expect(result).toEqual({
+      record: { ...local, tags: ['fruit', 'red'], proficiency: 4, lastSyncAt: 5000 },
+      pushLocal: false
+    })
+  })
+
+  test('忽略未映射的字段', () => {
+    const result = mergeRemoteChanges(
+      local,
+      { ...remote, tags: [], notes: undefined },
+      { ...DEFAULT_FIELD_MAPPING, tagsField: '', notesField: '' }
+    )
+
+    expect(result).toBeNull()
+  })
+
+  test('两边都有修改时 Notion 较新则采用 Notion 的值并记录冲突', () => {
+    const edited = { ...local, notes: '本地新备注', updatedAt: 2500 }
+    const result = mergeRemoteChanges(edited, { ...remote, notes: 'Notion 备注' }, DEFAULT_FIELD_MAPPING, 5000)
+
+    expect(result?.record.notes).toBe('Notion 备注')
+    expect(result?.pushLocal).toBe(false)
+    expect(result?.conflict).toMatchObject({
+      fields: ['notes'],
+      local: { notes: '本地新备注' },
+      remote: { notes: 'Notion 备注' },
+      resolution: 'remote'
+    })
+  })
+
+  test('两边都有修改时本地较新则保留本地的值并推送', () => {
+    const edited = { ...local, notes: '本地新备注', updatedAt: 4000 }
+    const result = mergeRemoteChanges(edited, { ...remote, notes: 'Notion 备注' }, DEFAULT_FIELD_MAPPING, 5000)
+
+    expect(result?.record).toBe(edited)
+    expect(result?.pushLocal).toBe(true)
+    expect(result?.conflict?.resolution).toBe('local')
+  })
+})
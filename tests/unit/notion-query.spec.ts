@@ -0,0 +1,188 @@
+import { test, expect } from '@playwright/test'
+import { NotionClient } from '../../src/shared/api/notion/notion-client'
+import { DEFAULT_FIELD_MAPPING } from '../../src/entities/notion-record/model'
+
+const DATABASE = {
+  id: 'db',
+  title: [{ plain_text: '生词本' }],
+  properties: {
+    单词: { id: 'a', name: '单词', type: 'title', title: {} },
+    标签: { id: 'b', name: '标签', type: 'multi_select', multi_select: { options: [] } },
+    熟练度: {
+      id: 'c',
+      name: '熟练度',
+      type: 'select',
+      select: { options: [{ name: '1' }, { name: '2' }, { name: '3' }, { name: '4' }] }
+    },
+    来源链接: { id: 'd', name: '来源链接', type: 'url', url: {} },
+    词条: { id: 'e', name: '词条', type: 'select', select: { options: [{ name: 'apple' }] } }
+  }
+}
+
+function createPage(id: string, word: string) {
+  return {
+    id,
+    url: `https://www.notion.so/${id}`,
+    created_time: '2024-01-01T00:00:00.000Z',
+    last_edited_time: '2024-01-03T00:00:00.000Z',
+    properties: {
+      单词: { type: 'title', title: [{ plain_text: word }] },
+      标签: { type: 'multi_select', multi_select: [{ name: 'GRE' }] },
+      熟练度: { type: 'select', select: { name: '3' } }
+    }
+  }
+}
+
+/**
+ * 替换全局 fetch，记录查询请求体
+ */
+function mockFetch(pages: unknown[][]) {
+  const queries: any[] = []
+  const originalFetch = globalThis.fetch
+
+  globalThis.fetch = (async (url: string, init: { method: string; body?: string }) => {
+    if (init.method === 'GET') {
+      return new Response(JSON.stringify(DATABASE), { status: 200 })
+    }
+
+    const body = JSON.parse(init.body!)
+    queries.push(body)
+    const index = body.start_cursor ? Number(body.start_cursor) : 0
+    return new Response(JSON.stringify({
+      results: pages[index],
+      has_more: index < pages.length - 1,
+      next_cursor: index < pages.length - 1 ? String(index + 1) : null
+    }), { status: 200 })
+  }) as typeof fetch
+
+  return {
+    queries,
+    restore: () => {
+      globalThis.fetch = originalFetch
+    }
+  }
+}
+
+/**
+ * 数据库查询测试
+ */
+test.describe('NotionClient.queryDatabase', () => {
+  test('按 next_cursor 读取全部分页并解析记录', async () => {
+    const fetchMock = mockFetch([[createPage('p1', 'apple')], [createPage('p2', 'banana')]])
+    try {
+      const client = new NotionClient({ token: 'secret', databaseId: 'db', fieldMapping: DEFAULT_FIELD_MAPPING })
+      const records = await client.queryDatabase()
+
+      expect(records.map(record => record.word)).toEqual(['apple', 'banana'])
+      expect(records[0]).toMatchObject({
+        pageId: 'p1',
+        tags: ['GRE'],
+        proficiency: 3,
+        createdAt: Date.parse('2024-01-01T00:00:00.000Z'),
+        lastEditedAt: Date.parse('2024-01-03T00:00:00.000Z')
+      })
+      expect(fetchMock.queries.map(query => query.start_cursor)).toEqual([undefined, '1'])
+    } finally {
+      fetchMock.restore()
+    }
+  })
+
+  test('按属性类型构建过滤和排序条件', async () => {
+    const fetchMock = mockFetch([[]])
+    try {
+      const client = new NotionClient({ token: 'secret', databaseId: 'db', fieldMapping: DEFAULT_FIELD_MAPPING })
+      await client.queryDatabase({
+        tags: ['GRE', 'TOEFL'],
+        proficiency: { min: 2, max: 3 },
+        sourceDomain: 'example.com',
+        sorts: [{ field: 'last_edited_time', direction: 'descending' }]
+      })
+
+      expect(fetchMock.queries[0]).toEqual({
+        page_size: 100,
+        filter: {
+          and: [
+            {
+              or: [
+                { property: '标签', multi_select: { contains: 'GRE' } },
+                { property: '标签', multi_select: { contains: 'TOEFL' } }
+              ]
+            },
+            {
+              or: [
+                { property: '熟练度', select: { equals: '2' } },
+                { property: '熟练度', select: { equals: '3' } }
+              ]
+            },
+            { property: '来源链接', url: { contains: 'example.com' } }
+          ]
+        },
+        sorts: [{ timestamp: 'last_edited_time', direction: 'descending' }]
+      })
+    } finally {
+      fetchMock.restore()
+    }
+  })
+
+  test('按单词查询：文本属性按包含匹配，单选属性按选项名称精确匹配', async () => {
+    const fetchMock = mockFetch([[]])
+    try {
+      const titleClient = new NotionClient({ token: 'secret', databaseId: 'db', fieldMapping: DEFAULT_FIELD_MAPPING })
+      await titleClient.queryDatabase({ word: 'apple' })
+
+      const selectClient = new NotionClient({
+        token: 'secret',
+        databaseId: 'db',
+        fieldMapping: { ...DEFAULT_FIELD_MAPPING, wordField: '词条' }
+      })
+      expect(await selectClient.canQueryByWord()).toBe(true)
+      await selectClient.queryDatabase({ word: 'apple' })
+
+      expect(fetchMock.queries.map(query => query.filter)).toEqual([
+        { property: '单词', title: { contains: 'apple' } },
+        { property: '词条', select: { equals: 'apple' } }
+      ])
+    } finally {
+      fetchMock.restore()
+    }
+  })
+
+  test('去重时按单词精确查询，只读取一页', async () => {
+    const fetchMock = mockFetch([[createPage('p1', 'Apple')], [createPage('p2', 'apple')]])
+    try {
+      const client = new NotionClient({ token: 'secret', databaseId: 'db', fieldMapping: DEFAULT_FIELD_MAPPING })
+      const records = await client.findPagesByWord(['Apple', 'apple', 'Apple'])
+
+      expect(records.map(record => record.pageId)).toEqual(['p1'])
+      expect(fetchMock.queries).toEqual([{
+        page_size: 10,
+        filter: {
+          or: [
+            { property: '单词', title: { equals: 'Apple' } },
+            { property: '单词', title: { equals: 'apple' } }
+          ]
+        }
+      }])
+    } finally {
+      fetchMock.restore()
+    }
+  })
+
+  test('单词字段映射到不支持的属性类型时不能按单词查询', async () => {
+    const fetchMock = mockFetch([[]])
+    try {
+      const client = new NotionClient({
+        token: 'secret',
+        databaseId: 'db',
+        fieldMapping: { ...DEFAULT_FIELD_MAPPING, wordField: '来源链接' }
+      })
+
+      expect(await client.canQueryByWord()).toBe(false)
+      await expect(client.queryDatabase({ word: 'apple' })).rejects.toThrow('无法按单词查询')
+      await expect(client.findPagesByWord(['apple'])).rejects.toThrow('无法按单词查询')
+      expect(fetchMock.queries).toHaveLength(0)
+    } finally {
+      fetchMock.restore()
+    }
+  })
+})
@@ -0,0 +1,79 @@
+import { test, expect } from '@playwright/test'
+import {
+  RequestScheduler,
+  getBackoffDelay,
+  parseRetryAfter
+} from '../../src/shared/api/notion/request-scheduler'
+
+/**
+ * 使用虚拟时钟的调度器，记录每个请求的开始时间
+ */
+function createVirtualScheduler(requestsPerSecond: number) {
+  let now = 0
+  const scheduler = new RequestScheduler({
+    requestsPerSecond,
+    now: () => now,
+    sleep: async ms => { now += ms }
+  })
+  return { scheduler, now: () => now }
+}
+
+/**
+ * Notion 请求调度测试
+ */
+test.describe('RequestScheduler', () => {
+  test('按每秒请求数限制依次放行请求', async () => {
+    const { scheduler, now } = createVirtualScheduler(4)
+    const startedAt: number[] = []
+
+    for (let i = 0; i < 4; i++) {
+      await scheduler.schedule(async () => startedAt.push(now()))
+    }
+
+    expect(startedAt).toEqual([0, 250, 500, 750])
+  })
+
+  test('暂停期间的请求在暂停结束后执行', async () => {
+    const { scheduler, now } = createVirtualScheduler(3)
+
+    scheduler.pause(2000)
+    const startedAt = await scheduler.schedule(async () => now())
+
+    expect(startedAt).toBe(2000)
+  })
+})
+
+test.describe('getBackoffDelay', () => {
+  const options = { baseDelay: 1000, maxDelay: 8000 }
+
+  test('延迟随重试次数指数增长', () => {
+    expect(getBackoffDelay(0, { ...options, random: () => 1 })).toBe(1000)
+    expect(getBackoffDelay(1, { ...options, random: () => 1 })).toBe(2000)
+    expect(getBackoffDelay(2, { ...options, random: () => 1 })).toBe(4000)
+  })
+
+  test('抖动范围为上限的一半到上限', () => {
+    expect(getBackoffDelay(2, { ...options, random: () => 0 })).toBe(2000)
+    expect(getBackoffDelay(2, { ...options, random: () => 0.5 })).toBe(3000)
+  })
+
+  test('不超过最大延迟', () => {
+    expect(getBackoffDelay(10, { ...options, random: () => 1 })).toBe(8000)
+  })
+})
+
+test.describe('parseRetryAfter', () => {
+  test('解析秒数', () => {
+    expect(parseRetryAfter('3')).toBe(3000)
+  })
+
+  test('解析HTTP日期', () => {
+    const now = Date.parse('2024-01-01T00:00:00Z')
+    expect(parseRetryAfter('Mon, 01 Jan 2024 00:00:05 GMT', now)).toBe(5000)
+  })
+
+  test('无效值返回 undefined', () => {
+    expect(parseRetryAfter(null)).toBeUndefined()
+    expect(parseRetryAfter('soon')).toBeUndefined()
+  })
+})
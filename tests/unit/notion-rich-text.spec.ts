@@ -0,0 +1,113 @@
+import { test, expect } from '@playwright/test'
+import {
+  MAX_RICH_TEXT_ITEMS,
+  MAX_RICH_TEXT_LENGTH,
+  TRUNCATION_MARK,
+  chunkText,
+  sanitizeText,
+  toRichText
+} from '../../src/entities/notion-record/rich-text'
+
+/**
+ * Notion 文本编码测试
+ */
+test.describe('toRichText', () => {
+  test('空文本返回空数组', () => {
+    expect(toRichText('')).toEqual([])
+    expect(toRichText('\u0000\u0007')).toEqual([])
+  })
+
+  test('超过 2000 字符时分段且内容不丢失', () => {
+    const text = 'a'.repeat(MAX_RICH_TEXT_LENGTH * 2 + 1)
+    const items = toRichText(text)
+
+    expect(items.map(item => item.text.content.length)).toEqual([2000, 2000, 1])
+    expect(items.map(item => item.text.content).join('')).toBe(text)
+  })
+
+  test('加粗上下文中所有出现的单词（不区分大小写）', () => {
+    const items = toRichText('Run, run as fast as you can.', { highlight: 'run' })
+
+    expect(items.map(item => [item.text.content, item.annotations?.bold ?? false])).toEqual([
+      ['Run', true],
+      [', ', false],
+      ['run', true],
+      [' as fast as you can.', false]
+    ])
+  })
+
+  test('高亮词中的正则特殊字符按原样匹配', () => {
+    const items = toRichText('Learn C++ today', { highlight: 'C++' })
+
+    expect(items.map(item => item.text.content)).toEqual(['Learn ', 'C++', ' today'])
+  })
+
+  test('只加粗完整的词，不匹配其他词的一部分', () => {
+    const items = toRichText('Start the art class', { highlight: 'art' })
+
+    expect(items.map(item => [item.text.content, item.annotations?.bold ?? false])).toEqual([
+      ['Start the ', false],
+      ['art', true],
+      [' class', false]
+    ])
+  })
+
+  test('中文高亮词不要求词边界', () => {
+    const items = toRichText('我们学习中文', { highlight: '学习' })
+
+    expect(items.map(item => item.text.content)).toEqual(['我们', '学习', '中文'])
+  })
+
+  test('长文本中的高亮词在分段后仍然加粗', () => {
+    const text = `${'x'.repeat(2500)} word ${'y'.repeat(10)}`
+    const items = toRichText(text, { highlight: 'word' })
+
+    expect(items.map(item => item.text.content.length)).toEqual([2000, 501, 4, 11])
+    expect(items[2]).toMatchObject({ text: { content: 'word' }, annotations: { bold: true } })
+  })
+
+  test('保留整段样式和链接', () => {
+    const [item] = toRichText('来源', { annotations: { color: 'gray' }, link: 'https://example.com' })
+
+    expect(item).toEqual({
+      type: 'text',
+      text: { content: '来源', link: { url: 'https://example.com' } },
+      annotations: { color: 'gray' }
+    })
+  })
+
+  test('超过数组上限时截断并以省略号结尾', () => {
+    const items = toRichText('a'.repeat(MAX_RICH_TEXT_LENGTH * (MAX_RICH_TEXT_ITEMS + 5)), {
+      annotations: { color: 'gray' }
+    })
+
+    expect(items).toHaveLength(MAX_RICH_TEXT_ITEMS)
+    expect(items[MAX_RICH_TEXT_ITEMS - 1]).toEqual({
+      type: 'text',
+      text: { content: TRUNCATION_MARK },
+      annotations: { color: 'gray' }
+    })
+  })
+
+  test('未超过数组上限时不添加省略号', () => {
+    const items = toRichText('a'.repeat(MAX_RICH_TEXT_LENGTH * MAX_RICH_TEXT_ITEMS))
+
+    expect(items).toHaveLength(MAX_RICH_TEXT_ITEMS)
+    expect(items[MAX_RICH_TEXT_ITEMS - 1].text.content).toHaveLength(MAX_RICH_TEXT_LENGTH)
+  })
+})
+
+test.describe('sanitizeText', () => {
+  test('移除控制字符并统一换行符', () => {
+    expect(sanitizeText('a\u0000b\u001Fc\r\nd\re\tf\u007F')).toBe('abc\nd\ne\tf')
+  })
+})
+
+test.describe('chunkText', () => {
+  test('不拆开代理对', () => {
+    const text = `${'a'.repeat(3)}😀b`
+    const chunks = chunkText(text, 4)
+
+    expect(chunks).toEqual(['aaa', '😀b'])
+  })
+})
@@ -0,0 +1,72 @@
+import { test, expect } from '@playwright/test'
+import { DEFAULT_TARGET_ID, matchesRoutingRule, resolveTargetId } from '../../src/features/notion-sync/routing'
+import { DEFAULT_FIELD_MAPPING, type NotionRecord } from '../../src/entities/notion-record/model'
+import type { NotionTarget } from '../../src/entities/user-config/model'
+
+const record = {
+  id: 'notion_1',
+  word: {
+    text: 'apple',
+    language: 'en',
+    source: { url: 'https://news.example.com/a', title: '', domain: '' },
+    timestamp: 0
+  },
+  translation: {
+    originalWord: { language: 'en-US' },
+    result: { targetLanguage: 'zh-CN' }
+  },
+  tags: ['Fruit'],
+  createdAt: 0
+} as unknown as NotionRecord
+
+const target = (id: string, rules: NotionTarget['rules']): NotionTarget => ({
+  id,
+  name: id,
+  token: '',
+  databaseId: id,
+  fieldMapping: DEFAULT_FIELD_MAPPING,
+  rules
+})
+
+/**
+ * 多数据库路由测试
+ */
+test.describe('matchesRoutingRule', () => {
+  test('语言按前缀匹配且不区分大小写', () => {
+    expect(matchesRoutingRule({ sourceLanguage: 'EN' }, record)).toBe(true)
+    expect(matchesRoutingRule({ targetLanguage: 'zh' }, record)).toBe(true)
+    expect(matchesRoutingRule({ sourceLanguage: 'ja' }, record)).toBe(false)
+  })
+
+  test('域名匹配子域名，忽略 www', () => {
+    expect(matchesRoutingRule({ sourceDomain: 'www.example.com' }, record)).toBe(true)
+    expect(matchesRoutingRule({ sourceDomain: 'ample.com' }, record)).toBe(false)
+  })
+
+  test('标签不区分大小写', () => {
+    expect(matchesRoutingRule({ tag: 'fruit' }, record)).toBe(true)
+  })
+
+  test('所有条件都满足才匹配，空规则不匹配', () => {
+    expect(matchesRoutingRule({ sourceLanguage: 'en', tag: 'fruit' }, record)).toBe(true)
+    expect(matchesRoutingRule({ sourceLanguage: 'en', tag: 'work' }, record)).toBe(false)
+    expect(matchesRoutingRule({}, record)).toBe(false)
+  })
+})
+
+test.describe('resolveTargetId', () => {
+  test('按顺序选择第一个匹配的目标', () => {
+    const targets = [
+      target('japanese', [{ sourceLanguage: 'ja' }]),
+      target('news', [{ tag: 'work' }, { sourceDomain: 'example.com' }]),
+      target('english', [{ sourceLanguage: 'en' }])
+    ]
+
+    expect(resolveTargetId(record, targets)).toBe('news')
+  })
+
+  test('都不匹配时使用默认目标', () => {
+    expect(resolveTargetId(record, [target('japanese', [{ sourceLanguage: 'ja' }])])).toBe(DEFAULT_TARGET_ID)
+    expect(resolveTargetId(record)).toBe(DEFAULT_TARGET_ID)
+  })
+})
@@ -0,0 +1,171 @@
+import 'fake-indexeddb/auto'
+import { test, expect } from '@playwright/test'
+import { OfflineDictionaryStore, parseDictionary } from '../../src/shared/api/translation/offline-dictionary-store'
+import { OfflineDictionaryAPI } from '../../src/shared/api/translation/offline-dictionary'
+import { TranslationServiceManager } from '../../src/shared/api/translation'
+import { TranslationAPIError, TranslationErrorCode } from '../../src/shared/api/translation/errors'
+import { TranslationProvider } from '../../src/entities/translation/model'
+import type { Word } from '../../src/entities/word'
+
+const DICTIONARY = [
+  'go\tgәu\tv. 去, 走\\nn. 尝试\tp:went/d:gone/i:going/3:goes',
+  'Apple\t\'æpl\tn. 苹果, 苹果树\t',
+  'run\trʌn\tvi. 跑, 奔跑\tp:ran/d:run/i:running/0:run/1:d',
+  'empty\t\t\t',
+  ''
+].join('\n')
+
+const word = (text: string): Word => ({
+  text,
+  language: 'auto',
+  source: { url: 'https://example.com', title: 'Example', domain: 'example.com' },
+  timestamp: Date.now()
+})
+
+let dbIndex = 0
+
+/**
+ * 使用独立的数据库创建词典存储，记录词典文本的读取次数
+ */
+function createStore(loads = { count: 0 }, dbName = `dictionary-test-${++dbIndex}`) {
+  return new OfflineDictionaryStore(async () => {
+    loads.count++
+    return DICTIONARY
+  }, dbName)
+}
+
+/**
+ * 离线词典解析测试
+ */
+test.describe('parseDictionary', () => {
+  test('解析释义和词形变化，跳过没有释义的行', () => {
+    const entries = parseDictionary(DICTIONARY)
+
+    expect(entries.map(entry => entry.word)).toEqual(['go', 'apple', 'run'])
+    expect(entries[0]).toEqual({
+      word: 'go',
+      phonetic: 'gәu',
+      translation: ['v. 去, 走', 'n. 尝试'],
+      exchange: { p: 'went', d: 'gone', i: 'going', 3: 'goes' }
+    })
+  })
+
+  test('兼容 CRLF 行尾和释义中的字面量 \\r\\n', () => {
+    const entries = parseDictionary('a\tei\t一个\\r\\nart. 累加器\t\r\ngo\tgәu\tv. 去\tp:went\r\n')
+
+    expect(entries.map(entry => entry.translation)).toEqual([['一个', 'art. 累加器'], ['v. 去']])
+    expect(entries[1].exchange).toEqual({ p: 'went' })
+  })
+})
+
+/**
+ * 离线词典存储测试（IndexedDB）
+ */
+test.describe('OfflineDictionaryStore', () => {
+  test('查询时不区分大小写并忽略首尾空白', async () => {
+    const store = createStore()
+
+    expect((await store.lookup(' APPLE '))?.translation).toEqual(['n. 苹果, 苹果树'])
+    expect(await store.lookup('banana')).toBeNull()
+  })
+
+  test('通过词形变化还原原形，原形本身不会被当作变形', async () => {
+    const store = createStore()
+
+    expect((await store.lookup('went'))?.word).toBe('go')
+    expect((await store.lookup('running'))?.word).toBe('run')
+    expect((await store.lookup('run'))?.translation).toEqual(['vi. 跑, 奔跑'])
+  })
+
+  test('词典只导入一次，版本一致时不再读取词典文本', async () => {
+    const loads = { count: 0 }
+    const store = createStore(loads, 'dictionary-test-shared')
+
+    await Promise.all([store.lookup('go'), store.lookup('apple')])
+    expect(loads.count).toBe(1)
+
+    const reopened = createStore(loads, 'dictionary-test-shared')
+    expect((await reopened.lookup('goes'))?.word).toBe('go')
+    expect(loads.count).toBe(1)
+  })
+
+  test('导入失败后可以重试', async () => {
+    let attempts = 0
+    const store = new OfflineDictionaryStore(async () => {
+      if (++attempts === 1) throw new Error('加载离线词典失败: HTTP 404')
+      return DICTIONARY
+    }, `dictionary-test-${++dbIndex}`)
+
+    await expect(store.lookup('go')).rejects.toThrow('HTTP 404')
+    expect((await store.lookup('go'))?.word).toBe('go')
+  })
+})
+
+/**
+ * 离线词典翻译测试
+ */
+test.describe('OfflineDictionaryAPI', () => {
+  test('返回首个词性的释义并解析全部词性', async () => {
+    const api = new OfflineDictionaryAPI(createStore())
+    const translation = await api.translateText(word('went'), 'zh-CN')
+
+    expect(translation.provider).toBe('offline')
+    expect(translation.originalWord.language).toBe('en')
+    expect(translation.result).toMatchObject({
+      text: '去；走',
+      phonetic: 'gәu',
+      definitions: [
+        { partOfSpeech: 'v.', meanings: ['去', '走'] },
+        { partOfSpeech: 'n.', meanings: ['尝试'] }
+      ]
+    })
+  })
+
+  test('不支持的目标语言和未收录的单词抛出 REQUEST_FAILED', async () => {
+    const api = new OfflineDictionaryAPI(createStore())
+
+    const unsupported = await api.translateText(word('go'), 'ja').catch(e => e)
+    expect(unsupported).toBeInstanceOf(TranslationAPIError)
+    expect(unsupported.code).toBe(TranslationErrorCode.REQUEST_FAILED)
+
+    const missing = await api.translateText(word('banana'), 'zh-CN').catch(e => e)
+    expect(missing.message).toContain('banana')
+  })
+
+  test('按字符集检测语言', async () => {
+    const api = new OfflineDictionaryAPI(createStore())
+
+    expect(await api.detectLanguage("don't")).toBe('en')
+    expect(await api.detectLanguage('你好')).toBe('zh-CN')
+    expect(await api.detectLanguage('こんにちは')).toBe('auto')
+  })
+})
+
+/**
+ * 离线词典作为备用的测试
+ */
+test.describe('TranslationServiceManager', () => {
+  test('旧配置中没有离线词典时使用离线词典作为最后的备用', async () => {
+    const manager = new TranslationServiceManager(new OfflineDictionaryAPI(createStore()))
+    manager.registerAPI({ provider: TranslationProvider.GOOGLE, enabled: true })
+
+    expect(manager.getAvailableProviders()).toEqual([TranslationProvider.GOOGLE, TranslationProvider.OFFLINE])
+    expect((await manager.translateText(word('apple'), 'zh-CN')).provider).toBe(TranslationProvider.OFFLINE)
+  })
+
+  test('Google 未配置 key 时由离线词典检测语言', async () => {
+    const manager = new TranslationServiceManager(new OfflineDictionaryAPI(createStore()))
+    manager.registerAPI({ provider: TranslationProvider.GOOGLE, enabled: true })
+
+    expect(await manager.detectLanguage('hello')).toBe('en')
+  })
+
+  test('用户禁用离线词典后不再作为备用', async () => {
+    const manager = new TranslationServiceManager(new OfflineDictionaryAPI(createStore()))
+    manager.registerAPI({ provider: TranslationProvider.GOOGLE, enabled: true })
+    manager.registerAPI({ provider: TranslationProvider.OFFLINE, enabled: false })
+
+    expect(manager.getAvailableProviders()).toEqual([TranslationProvider.GOOGLE])
+    await expect(manager.translateText(word('apple'), 'zh-CN')).rejects.toThrow('所有翻译API都不可用')
+  })
+})
\ No newline at end of file
@@ -0,0 +1,172 @@
+import { test, expect } from '@playwright/test'
+import http from 'http'
+import type { AddressInfo } from 'net'
+import { RestTranslateAPI, getByPath, renderTemplate } from '../../src/shared/api/translation/rest-translate'
+import { TranslationAPIError, TranslationErrorCode } from '../../src/shared/api/translation/errors'
+import { LIBRETRANSLATE_TEMPLATE } from '../../src/entities/user-config/model'
+import type { Word } from '../../src/entities/word'
+
+/**
+ * 请求体模板测试
+ */
+test.describe('renderTemplate', () => {
+  test('替换 LibreTranslate 模板中的占位符', () => {
+    const body = renderTemplate(LIBRETRANSLATE_TEMPLATE.requestBody, {
+      text: 'hello',
+      source: 'auto',
+      target: 'zh',
+      apiKey: 'key'
+    })
+
+    expect(body).toEqual({ q: 'hello', source: 'auto', target: 'zh', format: 'text', api_key: 'key' })
+  })
+
+  test('文本中的引号不会破坏 JSON 结构，未知占位符保持原样', () => {
+    const body = renderTemplate('{"texts": ["{{text}}"], "options": {"to": "{{target}}", "x": "{{unknown}}", "n": 1}}', {
+      text: 'say "hi"\n',
+      target: 'zh'
+    })
+
+    expect(body).toEqual({ texts: ['say "hi"\n'], options: { to: 'zh', x: '{{unknown}}', n: 1 } })
+  })
+})
+
+test.describe('getByPath', () => {
+  test('按点分路径读取对象和数组', () => {
+    const data = { data: [{ text: '你好' }], detectedLanguage: { language: 'en' } }
+
+    expect(getByPath(data, 'data.0.text')).toBe('你好')
+    expect(getByPath(data, 'detectedLanguage.language')).toBe('en')
+    expect(getByPath([{ language: 'ja' }], '0.language')).toBe('ja')
+  })
+
+  test('路径不存在时返回 undefined，空路径返回原值', () => {
+    expect(getByPath({ a: 'x' }, 'a.b.c')).toBeUndefined()
+    expect(getByPath(null, 'a')).toBeUndefined()
+    expect(getByPath('text', '')).toBe('text')
+  })
+})
+
+/**
+ * 自建 REST 翻译服务测试
+ * 使用本地 HTTP 服务模拟 LibreTranslate 接口
+ */
+test.describe('RestTranslateAPI', () => {
+  let server: http.Server
+  let endpoint: string
+  let lastRequest: { url?: string; body: any } | null = null
+  let nextResponse: { status: number; body: any } = { status: 200, body: {} }
+
+  const word: Word = {
+    text: 'hello',
+    language: 'auto',
+    source: { url: 'https://example.com', title: 'Example', domain: 'example.com' },
+    timestamp: Date.now()
+  }
+
+  test.beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let raw = ''
+      req.on('data', chunk => { raw += chunk })
+      req.on('end', () => {
+        lastRequest = { url: req.url, body: raw ? JSON.parse(raw) : null }
+        res.writeHead(nextResponse.status, { 'Content-Type': 'application/json' })
+        res.end(typeof nextResponse.body === 'string' ? nextResponse.body : JSON.stringify(nextResponse.body))
+      })
+    })
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+    const { port } = server.address() as AddressInfo
+    endpoint = `http://127.0.0.1:${port}/`
+  })
+
+  test.afterAll(async () => {
+    await new Promise(resolve => server.close(resolve))
+  })
+
+  test.beforeEach(() => {
+    lastRequest = null
+    nextResponse = { status: 200, body: {} }
+  })
+
+  test('按 LibreTranslate 模板请求并读取译文和源语言', async () => {
+    nextResponse = {
+      status: 200,
+      body: { translatedText: '你好', detectedLanguage: { confidence: 90, language: 'en' } }
+    }
+
+    const api = new RestTranslateAPI({ endpoint, apiKey: 'key' })
+    const translation = await api.translateText(word, 'zh-CN')
+
+    expect(lastRequest?.url).toBe('/translate')
+    expect(lastRequest?.body).toEqual({ q: 'hello', source: 'auto', target: 'zh', format: 'text', api_key: 'key' })
+    expect(translation.result.text).toBe('你好')
+    expect(translation.originalWord.language).toBe('en')
+    expect(translation.provider).toBe('libretranslate')
+  })
+
+  test('使用自定义模板', async () => {
+    nextResponse = { status: 200, body: { data: [{ text: '你好' }] } }
+
+    const api = new RestTranslateAPI({
+      endpoint,
+      template: {
+        ...LIBRETRANSLATE_TEMPLATE,
+        translatePath: 'api/v1/translate',
+        requestBody: '{"input": "{{text}}", "to": "{{target}}"}',
+        translationPath: 'data.0.text',
+        sourceLanguagePath: ''
+      }
+    })
+    const translation = await api.translateText(word, 'zh-CN')
+
+    expect(lastRequest?.url).toBe('/api/v1/translate')
+    expect(lastRequest?.body).toEqual({ input: 'hello', to: 'zh' })
+    expect(translation.result.text).toBe('你好')
+    expect(translation.originalWord.language).toBe('auto')
+  })
+
+  test('响应中没有译文时抛出 REQUEST_FAILED', async () => {
+    nextResponse = { status: 200, body: { result: '你好' } }
+
+    const api = new RestTranslateAPI({ endpoint })
+    const error = await api.translateText(word, 'zh-CN').catch(e => e)
+
+    expect(error).toBeInstanceOf(TranslationAPIError)
+    expect(error.code).toBe(TranslationErrorCode.REQUEST_FAILED)
+    expect(error.message).toContain('translatedText')
+  })
+
+  test('detectLanguage 使用检测接口', async () => {
+    nextResponse = { status: 200, body: [{ confidence: 95, language: 'zh' }] }
+
+    const api = new RestTranslateAPI({ endpoint })
+    expect(await api.detectLanguage('你好')).toBe('zh-CN')
+    expect(lastRequest?.url).toBe('/detect')
+  })
+
+  test('错误响应映射为对应的错误码并带上错误信息', async () => {
+    const api = new RestTranslateAPI({ endpoint })
+
+    nextResponse = { status: 403, body: { error: 'Invalid API key' } }
+    const invalidKey = await api.translateText(word, 'zh-CN').catch(e => e)
+    expect(invalidKey.code).toBe(TranslationErrorCode.INVALID_API_KEY)
+    expect(invalidKey.message).toContain('Invalid API key')
+
+    nextResponse = { status: 429, body: { error: 'Slowdown' } }
+    expect((await api.translateText(word, 'zh-CN').catch(e => e)).code).toBe(TranslationErrorCode.RATE_LIMITED)
+
+    nextResponse = { status: 500, body: 'Internal Server Error' }
+    const serverError = await api.translateText(word, 'zh-CN').catch(e => e)
+    expect(serverError.code).toBe(TranslationErrorCode.REQUEST_FAILED)
+    expect(serverError.status).toBe(500)
+  })
+
+  test('校验配置', () => {
+    expect(RestTranslateAPI.validateConfig({ endpoint })).toBe(true)
+    expect(RestTranslateAPI.validateConfig({})).toBe(false)
+    expect(RestTranslateAPI.validateConfig({
+      endpoint,
+      template: { ...LIBRETRANSLATE_TEMPLATE, requestBody: '{"q": ' }
+    })).toBe(false)
+  })
+})
\ No newline at end of file
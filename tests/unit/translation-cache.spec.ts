@@ -0,0 +1,106 @@
+import 'fake-indexeddb/auto'
+import { test, expect } from '@playwright/test'
+import { IndexedDBTranslationCache } from '../../src/features/translation/cache'
+import { TranslationProvider, type Translation } from '../../src/entities/translation/model'
+
+const translation = (text: string, provider: TranslationProvider, targetLanguage = 'zh-CN'): Translation => ({
+  id: `${provider}_${text}`,
+  originalWord: {
+    text,
+    language: 'en',
+    source: { url: 'https://example.com', title: 'Example', domain: 'example.com' },
+    timestamp: 0
+  },
+  result: { text: `${text}-${targetLanguage}`, targetLanguage },
+  provider,
+  confidence: 0.9,
+  timestamp: 0
+})
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+/**
+ * IndexedDB 翻译缓存测试
+ */
+test.describe('IndexedDBTranslationCache', () => {
+  test.beforeEach(async () => {
+    await new IndexedDBTranslationCache().clear()
+  })
+
+  test('写入后可以读取，未命中时返回 null', async () => {
+    const cache = new IndexedDBTranslationCache()
+    await cache.set('hello|en|zh-cn', translation('hello', TranslationProvider.GOOGLE))
+
+    expect((await cache.get('hello|en|zh-cn'))?.result.text).toBe('hello-zh-CN')
+    expect(await cache.get('world|en|zh-cn')).toBeNull()
+  })
+
+  test('过期的缓存视为未命中并被删除', async () => {
+    const cache = new IndexedDBTranslationCache(100, 10)
+    await cache.set('hello', translation('hello', TranslationProvider.GOOGLE))
+    await sleep(30)
+
+    expect(await cache.get('hello')).toBeNull()
+    expect((await cache.getStats()).size).toBe(0)
+  })
+
+  test('按提供商或目标语言清理缓存', async () => {
+    const cache = new IndexedDBTranslationCache()
+    await cache.set('a', translation('a', TranslationProvider.GOOGLE))
+    await cache.set('b', translation('b', TranslationProvider.DEEPL))
+    await cache.set('c', translation('c', TranslationProvider.DEEPL, 'ja'))
+
+    await cache.clear({ provider: TranslationProvider.DEEPL, targetLanguage: 'ja' })
+    expect(await cache.get('c')).toBeNull()
+    expect(await cache.get('b')).not.toBeNull()
+
+    await cache.clear({ targetLanguage: 'zh-CN' })
+    expect((await cache.getStats()).size).toBe(0)
+  })
+
+  test('统计条目数、命中率和分布', async () => {
+    const cache = new IndexedDBTranslationCache()
+    await cache.set('a', translation('a', TranslationProvider.GOOGLE))
+    await cache.set('b', translation('b', TranslationProvider.DEEPL, 'ja'))
+    await cache.set('c', translation('c', TranslationProvider.DEEPL, 'ja'))
+
+    await cache.get('a')
+    await cache.get('b')
+    await cache.get('missing')
+
+    expect(await cache.getStats()).toEqual({
+      size: 3,
+      hitRate: 2 / 3,
+      totalRequests: 3,
+      hits: 2,
+      misses: 1,
+      byProvider: { google: 1, deepl: 2 },
+      byLanguage: { 'zh-CN': 1, ja: 2 }
+    })
+  })
+
+  test('全部清理时同时重置命中统计', async () => {
+    const cache = new IndexedDBTranslationCache()
+    await cache.set('a', translation('a', TranslationProvider.GOOGLE))
+    await cache.get('a')
+
+    await cache.clear()
+    const stats = await cache.getStats()
+    expect(stats.size).toBe(0)
+    expect(stats.totalRequests).toBe(0)
+  })
+
+  test('缓存已满时优先清理访问次数少的条目', async () => {
+    const cache = new IndexedDBTranslationCache(3)
+    await cache.set('a', translation('a', TranslationProvider.GOOGLE))
+    await cache.set('b', translation('b', TranslationProvider.GOOGLE))
+    await cache.set('c', translation('c', TranslationProvider.GOOGLE))
+    await cache.get('a')
+    await cache.get('c')
+
+    await cache.set('d', translation('d', TranslationProvider.GOOGLE))
+
+    expect(await cache.get('b')).toBeNull()
+    expect((await cache.getStats()).size).toBe(3)
+  })
+})
\ No newline at end of file
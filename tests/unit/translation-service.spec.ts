@@ -0,0 +1,108 @@
+import 'fake-indexeddb/auto'
+import { test, expect } from '@playwright/test'
+import http from 'http'
+import type { AddressInfo } from 'net'
+import { TranslationService } from '../../src/features/translation/model'
+import { IndexedDBTranslationCache } from '../../src/features/translation/cache'
+import { TranslationProvider } from '../../src/entities/translation/model'
+import { DEFAULT_USER_CONFIG, type UserConfig } from '../../src/entities/user-config/model'
+import type { Word } from '../../src/entities/word'
+
+/**
+ * 翻译服务测试
+ * 使用本地 HTTP 服务模拟 DeepL 和 LibreTranslate 接口
+ */
+test.describe('TranslationService', () => {
+  let server: http.Server
+  let baseUrl: string
+  let requests: string[] = []
+  let failing = new Set<string>()
+
+  const word: Word = {
+    text: 'hello',
+    language: 'en',
+    source: { url: 'https://example.com', title: 'Example', domain: 'example.com' },
+    timestamp: Date.now()
+  }
+
+  const createService = async () => {
+    const config: UserConfig = {
+      ...DEFAULT_USER_CONFIG,
+      translationApis: [
+        { provider: TranslationProvider.DEEPL, apiKey: 'key', endpoint: `${baseUrl}/deepl`, enabled: true },
+        { provider: TranslationProvider.LIBRETRANSLATE, endpoint: `${baseUrl}/libre`, enabled: true },
+        { provider: TranslationProvider.OFFLINE, enabled: false }
+      ]
+    }
+    const service = new TranslationService(new IndexedDBTranslationCache())
+    await service.initialize(config)
+    return service
+  }
+
+  test.beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      req.resume()
+      req.on('end', () => {
+        const provider = req.url?.startsWith('/deepl') ? 'deepl' : 'libre'
+        requests.push(provider)
+        if (failing.has(provider)) {
+          res.writeHead(500, { 'Content-Type': 'application/json' })
+          res.end('{}')
+          return
+        }
+        res.writeHead(200, { 'Content-Type': 'application/json' })
+        res.end(JSON.stringify(provider === 'deepl'
+          ? { translations: [{ detected_source_language: 'EN', text: '你好（DeepL）' }] }
+          : { translatedText: '你好（Libre）' }))
+      })
+    })
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+    const { port } = server.address() as AddressInfo
+    baseUrl = `http://127.0.0.1:${port}`
+  })
+
+  test.afterAll(async () => {
+    await new Promise(resolve => server.close(resolve))
+  })
+
+  test.beforeEach(async () => {
+    requests = []
+    failing = new Set()
+    await new IndexedDBTranslationCache().clear()
+  })
+
+  test('对比模式中失败的提供商重试时请求该提供商，而不是返回缓存的其他结果', async () => {
+    const service = await createService()
+    failing.add('deepl')
+
+    const comparison = await service.compareWord(word, 'zh-CN')
+    expect(comparison.results.find(item => item.provider === TranslationProvider.DEEPL)?.error).toBeTruthy()
+
+    failing.clear()
+    requests = []
+    const retried = await service.translateWord(word, 'zh-CN', TranslationProvider.DEEPL)
+
+    expect(requests).toEqual(['deepl'])
+    expect(retried.provider).toBe(TranslationProvider.DEEPL)
+    expect(retried.result.text).toBe('你好（DeepL）')
+  })
+
+  test('切换提供商时请求所选的提供商', async () => {
+    const service = await createService()
+
+    const first = await service.translateWord(word, 'zh-CN')
+    expect(first.provider).toBe(TranslationProvider.DEEPL)
+
+    requests = []
+    const switched = await service.translateWord(word, 'zh-CN', TranslationProvider.LIBRETRANSLATE)
+
+    expect(requests).toEqual(['libre'])
+    expect(switched.provider).toBe(TranslationProvider.LIBRETRANSLATE)
+    expect(switched.result.text).toBe('你好（Libre）')
+
+    requests = []
+    expect((await service.translateWord(word, 'zh-CN', TranslationProvider.LIBRETRANSLATE)).provider)
+      .toBe(TranslationProvider.LIBRETRANSLATE)
+    expect(requests).toEqual([])
+  })
+})
\ No newline at end of file
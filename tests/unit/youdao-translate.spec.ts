@@ -0,0 +1,165 @@
+import { test, expect } from '@playwright/test'
+import http from 'http'
+import { createHash } from 'crypto'
+import type { AddressInfo } from 'net'
+import { YoudaoTranslateAPI, signYoudaoRequest } from '../../src/shared/api/translation/youdao-translate'
+import { TranslationAPIError, TranslationErrorCode } from '../../src/shared/api/translation/errors'
+import type { Word } from '../../src/entities/word'
+
+const sha256 = (text: string) => createHash('sha256').update(text).digest('hex')
+
+/**
+ * 有道 v3 签名测试
+ */
+test.describe('signYoudaoRequest', () => {
+  test('短文本直接参与签名', async () => {
+    const sign = await signYoudaoRequest({
+      appKey: 'app-key',
+      appSecret: 'app-secret',
+      query: 'hello',
+      salt: 'salt',
+      curtime: '1700000000'
+    })
+
+    expect(sign).toBe(sha256('app-keyhellosalt1700000000app-secret'))
+  })
+
+  test('超过20个字符时取前10个字符、长度和后10个字符', async () => {
+    const query = '这是一个超过二十个字符的中文句子，用来测试签名截断'
+    const chars = Array.from(query)
+    const input = chars.slice(0, 10).join('') + chars.length + chars.slice(-10).join('')
+
+    const sign = await signYoudaoRequest({ appKey: 'k', appSecret: 's', query, salt: 'x', curtime: '1' })
+
+    expect(sign).toBe(sha256(`k${input}x1s`))
+  })
+})
+
+/**
+ * 有道翻译 API 测试
+ * 使用本地 HTTP 服务模拟有道接口
+ */
+test.describe('YoudaoTranslateAPI', () => {
+  let server: http.Server
+  let endpoint: string
+  let lastRequest: URLSearchParams | null = null
+  let nextResponse: { status: number; body: any } = { status: 200, body: {} }
+
+  const word: Word = {
+    text: 'hello',
+    language: 'auto',
+    source: { url: 'https://example.com', title: 'Example', domain: 'example.com' },
+    timestamp: Date.now()
+  }
+
+  test.beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let raw = ''
+      req.on('data', chunk => { raw += chunk })
+      req.on('end', () => {
+        lastRequest = new URLSearchParams(raw)
+        res.writeHead(nextResponse.status, { 'Content-Type': 'application/json' })
+        res.end(JSON.stringify(nextResponse.body))
+      })
+    })
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+    const { port } = server.address() as AddressInfo
+    endpoint = `http://127.0.0.1:${port}/api`
+  })
+
+  test.afterAll(async () => {
+    await new Promise(resolve => server.close(resolve))
+  })
+
+  test.beforeEach(() => {
+    lastRequest = null
+    nextResponse = { status: 200, body: {} }
+  })
+
+  test('请求应该带上 v3 签名', async () => {
+    nextResponse = { status: 200, body: { errorCode: '0', translation: ['你好'], l: 'en2zh-CHS' } }
+
+    const api = new YoudaoTranslateAPI({ apiKey: 'app-key', appSecret: 'app-secret', endpoint })
+    await api.translateText(word, 'zh-CN')
+
+    const params = lastRequest!
+    expect(params.get('q')).toBe('hello')
+    expect(params.get('from')).toBe('auto')
+    expect(params.get('to')).toBe('zh-CHS')
+    expect(params.get('appKey')).toBe('app-key')
+    expect(params.get('signType')).toBe('v3')
+    expect(params.get('sign')).toBe(
+      sha256(`app-keyhello${params.get('salt')}${params.get('curtime')}app-secret`)
+    )
+    expect(params.has('appSecret')).toBe(false)
+  })
+
+  test('应该把词典释义、音标和网络释义映射到翻译结果', async () => {
+    nextResponse = {
+      status: 200,
+      body: {
+        errorCode: '0',
+        translation: ['你好'],
+        l: 'en2zh-CHS',
+        basic: {
+          'us-phonetic': 'həˈləʊ',
+          explains: ['int. 喂；哈罗', 'n. 表示问候']
+        },
+        web: [{ key: 'Hello Kitty', value: ['凯蒂猫', '吉蒂猫'] }],
+        speakUrl: 'https://openapi.youdao.com/ttsapi?q=hello&appKey=app-key&sign=abc'
+      }
+    }
+
+    const api = new YoudaoTranslateAPI({ apiKey: 'app-key', appSecret: 'app-secret', endpoint })
+    const translation = await api.translateText(word, 'zh-CN')
+
+    expect(translation.provider).toBe('youdao')
+    expect(translation.originalWord.language).toBe('en')
+    expect(translation.confidence).toBe(0.95)
+    expect(translation.result).toMatchObject({
+      text: '你好',
+      targetLanguage: 'zh-CN',
+      phonetic: 'həˈləʊ',
+      definitions: [
+        { partOfSpeech: 'int.', meanings: ['喂', '哈罗'] },
+        { partOfSpeech: 'n.', meanings: ['表示问候'] }
+      ],
+      examples: ['Hello Kitty: 凯蒂猫；吉蒂猫']
+    })
+    expect(translation.result.audioUrl).toBeUndefined()
+  })
+
+  test('detectLanguage 应该使用响应中的语言方向', async () => {
+    nextResponse = { status: 200, body: { errorCode: '0', translation: ['hello'], l: 'zh-CHS2en' } }
+
+    const api = new YoudaoTranslateAPI({ apiKey: 'app-key', appSecret: 'app-secret', endpoint })
+    expect(await api.detectLanguage('你好')).toBe('zh-CN')
+  })
+
+  test('签名错误应该映射为 INVALID_API_KEY', async () => {
+    nextResponse = { status: 200, body: { errorCode: '202' } }
+
+    const api = new YoudaoTranslateAPI({ apiKey: 'app-key', appSecret: 'wrong', endpoint })
+    const error = await api.translateText(word, 'zh-CN').catch(e => e)
+
+    expect(error).toBeInstanceOf(TranslationAPIError)
+    expect(error.code).toBe(TranslationErrorCode.INVALID_API_KEY)
+  })
+
+  test('访问频率受限应该映射为 RATE_LIMITED', async () => {
+    nextResponse = { status: 200, body: { errorCode: '411' } }
+
+    const api = new YoudaoTranslateAPI({ apiKey: 'app-key', appSecret: 'app-secret', endpoint })
+    const error = await api.translateText(word, 'zh-CN').catch(e => e)
+
+    expect(error.code).toBe(TranslationErrorCode.RATE_LIMITED)
+  })
+
+  test('未配置应用密钥时不应该发起请求', async () => {
+    const api = new YoudaoTranslateAPI({ apiKey: 'app-key', endpoint })
+    const error = await api.translateText(word, 'zh-CN').catch(e => e)
+
+    expect(error.code).toBe(TranslationErrorCode.INVALID_API_KEY)
+    expect(lastRequest).toBeNull()
+  })
+})
\ No newline at end of file